@@ -1,123 +1,88 @@
-import OpenAI from 'openai';
-import axios from 'axios';
-import { Job, AnalyzedJob, UserBackground } from './types.js';
-import { getAIConfig, userBackground as defaultBackground, AIConfig } from './config.js';
+import { Job, AnalyzedJob, JobInsights, UserBackground } from './types.js';
+import { getAIConfig, getUserBackground, AIConfig } from './config.js';
+import { renderCandidateSection, renderScoringRubric } from './rubrics.js';
+import { createLLMProvider, LLMResponse, OutputSchema } from './llm.js';
+import { isBudgetExceeded, recordUsage } from './usage.js';
+import { getErrorStatus, getRateLimiter, withRetry } from './retry.js';
+import { runWithConcurrency } from './pool.js';
+import { INSIGHTS_PROMPT, insightsJsonSchema, parseInsights } from './insights.js';
+import { MAX_DESCRIPTION_LENGTH, truncateText } from './html.js';
 import { config } from 'dotenv';
 
 config();
 
-/**
- * 创建 OpenAI 客户端（兼容所有 OpenAI API 格式的服务）
- */
-function createOpenAIClient(aiConfig: AIConfig) {
-  const clientConfig: {
-    apiKey: string;
-    baseURL?: string;
-  } = {
-    apiKey: aiConfig.apiKey,
-  };
-
-  if (aiConfig.baseURL) {
-    clientConfig.baseURL = aiConfig.baseURL;
-  }
-
-  return new OpenAI(clientConfig);
-}
-
-/**
- * 调用 Claude (Anthropic) API
- */
-async function callClaudeAPI(
-  aiConfig: AIConfig,
-  systemPrompt: string,
-  userPrompt: string
-): Promise<string> {
-  const response = await axios.post(
-    'https://api.anthropic.com/v1/messages',
-    {
-      model: aiConfig.model,
-      max_tokens: 1024,
-      messages: [
-        {
-          role: 'user',
-          content: userPrompt,
-        },
-      ],
-      system: systemPrompt,
-      temperature: aiConfig.temperature,
-    },
-    {
-      proxy: false,
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': aiConfig.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      timeout: 30000,
-    }
-  );
-
-  const content = response.data?.content?.[0]?.text;
-  if (!content) {
-    throw new Error('Claude API 返回空响应');
-  }
-
-  return content;
-}
-
 /**
  * 构建AI分析提示词
+ * 候选人需求和评分标准由 UserBackground 及其评分模板生成
  */
-export function buildPrompt(job: Job, background: UserBackground = defaultBackground): string {
+export function buildPrompt(job: Job, background: UserBackground = getUserBackground()): string {
   return `你是一个招聘匹配专家。请判断这个职位是否适合候选人。
 
-候选人需求（非常简单）：
-1. 前端开发相关职位（Frontend, React, Vue, Next.js, TypeScript, JavaScript, UI, Web Developer 等）
-2. 支持远程工作
+${renderCandidateSection(background)}
 
 职位信息：
 - 标题：${job.title}
 - 公司：${job.company}
-- 描述：${job.description.substring(0, 2000)}${job.description.length > 2000 ? '...' : ''}
+- 描述：${truncateText(job.description, MAX_DESCRIPTION_LENGTH)}
 
 请返回JSON格式（不要包含任何其他文字或代码块标记）：
-{"score": 1-10, "reason": "一句话说明匹配原因"}
+{"score": 1-10, "reason": "一句话说明匹配原因", "seniority": ..., "salary": ..., "remoteType": ..., "timezone": ..., "regions": [...], "techStack": [...], "visaSponsorship": ..., "redFlags": [...]}
 
-评分标准（关键规则）：
-- 8-10: 是前端相关职位 + 支持远程 → 直接给高分
-- 6-7: 是前端相关但不确定是否远程
-- 4-5: 全栈或后端为主的职位
-- 1-3: 完全不是开发岗位（销售、市场、运营等）
+${INSIGHTS_PROMPT}
 
-注意：只要职位标题或描述包含前端相关关键词（Frontend, React, Vue, Angular, Next.js, Nuxt, TypeScript, JavaScript, CSS, HTML, UI, Web Developer），且职位是远程的，就给 8 分以上！`;
+${renderScoringRubric(background)}`;
 }
 
 /**
- * 解析AI响应
+ * 移除响应中可能的代码块标记
  */
-export function parseAIResponse(response: string): { score: number; reason: string } {
-  // 移除可能的代码块标记
+function stripCodeFence(response: string): string {
   let cleaned = response.trim();
   if (cleaned.startsWith('```json')) {
     cleaned = cleaned.replace(/```json\n?/g, '').replace(/```\n?/g, '');
   } else if (cleaned.startsWith('```')) {
     cleaned = cleaned.replace(/```\n?/g, '');
   }
+  return cleaned;
+}
 
-  try {
-    const parsed = JSON.parse(cleaned);
-    const score = Number(parsed.score);
-    const reason = String(parsed.reason || '');
+/**
+ * 单个职位的分析结果
+ */
+export interface AnalysisResult {
+  score: number;
+  reason: string;
+  insights?: JobInsights;
+}
 
-    if (isNaN(score) || score < 1 || score > 10) {
-      throw new Error(`无效的评分: ${score}，必须在1-10之间`);
-    }
+/**
+ * 校验单个职位的评分和理由，并提取结构化字段
+ */
+function validateAnalysis(parsed: Record<string, unknown>): AnalysisResult {
+  const score = Number(parsed.score);
+  const reason = String(parsed.reason || '');
 
-    if (!reason || reason.trim().length === 0) {
-      throw new Error('缺少匹配理由');
-    }
+  if (isNaN(score) || score < 1 || score > 10) {
+    throw new Error(`无效的评分: ${score}，必须在1-10之间`);
+  }
+
+  if (!reason || reason.trim().length === 0) {
+    throw new Error('缺少匹配理由');
+  }
+
+  const insights = parseInsights(parsed);
+  return insights ? { score, reason: reason.trim(), insights } : { score, reason: reason.trim() };
+}
 
-    return { score, reason: reason.trim() };
+/**
+ * 解析AI响应
+ */
+export function parseAIResponse(response: string): AnalysisResult {
+  // 移除可能的代码块标记
+  const cleaned = stripCodeFence(response);
+
+  try {
+    return validateAnalysis(JSON.parse(cleaned));
   } catch (error) {
     console.error('解析AI响应失败:', error);
     console.error('原始响应:', response);
@@ -125,57 +90,256 @@ export function parseAIResponse(response: string): { score: number; reason: stri
   }
 }
 
+const SYSTEM_PROMPT = '你是一个专业的招聘匹配分析专家，擅长评估职位与候选人的匹配度。';
+
+const analysisProperties = {
+  score: { type: 'number', minimum: 1, maximum: 10, description: '匹配度评分' },
+  reason: { type: 'string', description: '一句话说明匹配原因' },
+  ...insightsJsonSchema,
+};
+
+/**
+ * 单职位分析的结构化输出
+ */
+const ANALYSIS_OUTPUT: OutputSchema = {
+  name: 'submit_job_analysis',
+  description: '提交职位匹配分析结果',
+  schema: {
+    type: 'object',
+    properties: analysisProperties,
+    required: ['score', 'reason'],
+  },
+};
+
+/**
+ * 批量分析的结构化输出
+ */
+const BATCH_ANALYSIS_OUTPUT: OutputSchema = {
+  name: 'submit_batch_analysis',
+  description: '提交每个职位的匹配分析结果',
+  schema: {
+    type: 'object',
+    properties: {
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { id: { type: 'string', description: '职位ID' }, ...analysisProperties },
+          required: ['id', 'score', 'reason'],
+        },
+      },
+    },
+    required: ['results'],
+  },
+};
+
+/**
+ * 调用当前配置的 AI 服务，并记录 token 用量
+ * 每次请求（包括重试）都受提供商的 rpm 限制，429/5xx 等临时错误按退避策略重试
+ */
+async function requestCompletion(
+  aiConfig: AIConfig,
+  prompt: string,
+  output: OutputSchema
+): Promise<LLMResponse> {
+  const provider = createLLMProvider(aiConfig);
+  const limiter = getRateLimiter(aiConfig.provider, aiConfig.rpm);
+
+  const response = await withRetry(
+    async () => {
+      await limiter?.acquire();
+      return provider.complete({ system: SYSTEM_PROMPT, prompt, output });
+    },
+    {
+      retries: aiConfig.maxRetries ?? 3,
+      onRetry: (error, attempt, delayMs) => {
+        const status = getErrorStatus(error);
+        console.warn(
+          `AI 请求失败${status ? ` (${status})` : ''}，${Math.round(delayMs / 1000)} 秒后第 ${attempt} 次重试`
+        );
+      },
+    }
+  );
+
+  recordUsage(aiConfig.provider, aiConfig.model, response.usage);
+  return response;
+}
+
 /**
  * 使用AI分析职位匹配度
  */
 export async function analyzeJob(
   job: Job,
-  background: UserBackground = defaultBackground
+  background: UserBackground = getUserBackground()
 ): Promise<AnalyzedJob> {
   const aiConfig = getAIConfig();
   const prompt = buildPrompt(job, background);
-  const systemPrompt = '你是一个专业的招聘匹配分析专家，擅长评估职位与候选人的匹配度。';
 
   try {
-    let content: string;
-
-    if (aiConfig.provider === 'claude') {
-      // 使用 Claude API
-      content = await callClaudeAPI(aiConfig, systemPrompt, prompt);
-    } else {
-      // 使用 OpenAI 兼容 API
-      const openai = createOpenAIClient(aiConfig);
-      const completion = await openai.chat.completions.create({
-        model: aiConfig.model,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt,
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: aiConfig.temperature,
-        response_format: { type: 'json_object' },
-      });
-
-      content = completion.choices[0]?.message?.content || '';
-      if (!content) {
-        throw new Error('AI返回空响应');
-      }
-    }
-
-    const { score, reason } = parseAIResponse(content);
-
+    const { content } = await requestCompletion(aiConfig, prompt, ANALYSIS_OUTPUT);
     return {
       ...job,
-      score,
-      reason,
+      ...parseAIResponse(content),
     };
   } catch (error) {
     console.error(`分析职位失败 [${job.id}]:`, error);
     throw error;
   }
 }
+
+/**
+ * 批量分析中单个职位的结果
+ */
+export interface JobAnalysisOutcome {
+  job: Job;
+  analyzed?: AnalyzedJob;
+  error?: unknown;
+  skipped?: boolean; // 本轮费用已超出上限，未分析
+}
+
+/**
+ * 构建批量分析提示词
+ * 与单职位提示词使用相同的候选人需求和评分标准，要求按ID返回每个职位的评分
+ */
+export function buildBatchPrompt(
+  jobs: Job[],
+  background: UserBackground = getUserBackground()
+): string {
+  const jobList = jobs
+    .map(
+      (job) => `[ID: ${job.id}]
+- 标题：${job.title}
+- 公司：${job.company}
+- 描述：${truncateText(job.description, MAX_DESCRIPTION_LENGTH)}`
+    )
+    .join('\n\n');
+
+  return `你是一个招聘匹配专家。请逐个判断以下 ${jobs.length} 个职位是否适合候选人。
+
+${renderCandidateSection(background)}
+
+${jobList}
+
+请返回JSON格式（不要包含任何其他文字或代码块标记），results 为数组，每个职位对应一项，id 必须与上面的 ID 完全一致：
+{"results": [{"id": "职位ID", "score": 1-10, "reason": "一句话说明匹配原因", "seniority": ..., "salary": ..., "remoteType": ..., "timezone": ..., "regions": [...], "techStack": [...], "visaSponsorship": ..., "redFlags": [...]}]}
+
+${INSIGHTS_PROMPT}
+
+${renderScoringRubric(background)}`;
+}
+
+/**
+ * 解析批量分析响应，返回 ID 到评分结果的映射
+ * 兼容直接返回数组和 { results: [...] } 两种格式，无效的条目会被忽略
+ */
+export function parseBatchResponse(response: string): Map<string, AnalysisResult> {
+  const parsed = JSON.parse(stripCodeFence(response));
+  const items: unknown = Array.isArray(parsed) ? parsed : parsed?.results || parsed?.jobs;
+
+  if (!Array.isArray(items)) {
+    throw new Error('批量响应中缺少结果数组');
+  }
+
+  const results = new Map<string, AnalysisResult>();
+  for (const item of items) {
+    if (!item || typeof item !== 'object' || item.id === undefined) {
+      continue;
+    }
+    try {
+      results.set(String(item.id), validateAnalysis(item));
+    } catch (error) {
+      console.warn(
+        `忽略无效的批量结果 [${item.id}]:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  return results;
+}
+
+/**
+ * 批量分析职位匹配度
+ * 按 AIConfig.batchSize 将多个职位打包到一次 LLM 调用中，最多同时进行 AIConfig.concurrency 个调用，
+ * 响应中缺失或无效的职位会回退到逐个调用 analyzeJob。
+ * 超出本轮费用上限后，剩余职位标记为 skipped，不再调用 LLM（已发出的调用仍会完成）。
+ * 每个职位完成时调用 onOutcome（按完成先后），返回结果与输入顺序一致。
+ */
+export async function analyzeJobs(
+  jobs: Job[],
+  background: UserBackground = getUserBackground(),
+  onOutcome?: (outcome: JobAnalysisOutcome, completed: number, total: number) => void
+): Promise<JobAnalysisOutcome[]> {
+  const aiConfig = getAIConfig();
+  const batchSize = aiConfig.batchSize || 1;
+  const batches: Job[][] = [];
+  for (let i = 0; i < jobs.length; i += batchSize) {
+    batches.push(jobs.slice(i, i + batchSize));
+  }
+
+  let completed = 0;
+  const batchOutcomes = await runWithConcurrency(
+    batches,
+    aiConfig.concurrency || 1,
+    async (batch) => {
+      let results = new Map<string, AnalysisResult>();
+      const outcomes: JobAnalysisOutcome[] = [];
+
+      if (batch.length > 1 && !isBudgetExceeded()) {
+        let content: string;
+        try {
+          ({ content } = await requestCompletion(
+            aiConfig,
+            buildBatchPrompt(batch, background),
+            BATCH_ANALYSIS_OUTPUT
+          ));
+        } catch (error) {
+          // 请求本身失败（重试后仍失败）时不逐个重试，避免在服务故障时成倍增加请求
+          console.warn(
+            `批量分析请求失败 (${batch.length} 个职位):`,
+            error instanceof Error ? error.message : error
+          );
+          for (const job of batch) {
+            const outcome: JobAnalysisOutcome = { job, error };
+            outcomes.push(outcome);
+            onOutcome?.(outcome, ++completed, jobs.length);
+          }
+          return outcomes;
+        }
+
+        try {
+          results = parseBatchResponse(content);
+        } catch (error) {
+          console.warn(
+            `批量响应无效，回退到逐个分析 (${batch.length} 个职位):`,
+            error instanceof Error ? error.message : error
+          );
+        }
+      }
+
+      for (const job of batch) {
+        const result = results.get(job.id);
+        let outcome: JobAnalysisOutcome;
+
+        if (result) {
+          outcome = { job, analyzed: { ...job, ...result } };
+        } else if (isBudgetExceeded()) {
+          outcome = { job, skipped: true };
+        } else {
+          try {
+            outcome = { job, analyzed: await analyzeJob(job, background) };
+          } catch (error) {
+            outcome = { job, error };
+          }
+        }
+
+        outcomes.push(outcome);
+        onOutcome?.(outcome, ++completed, jobs.length);
+      }
+
+      return outcomes;
+    }
+  );
+
+  return batchOutcomes.flat();
+}
@@ -0,0 +1,511 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { BotConfig, getBotConfig } from './config.js';
+import { formatTelegramMessage, setTelegramButtons } from './notifiers.js';
+import { getJobRecord, getRunHistory, queryJobs, setJobTriage, toAnalyzedJob } from './storage.js';
+import {
+  buildTriageKeyboard,
+  callTelegram,
+  escapeTelegramHtml,
+  parseTriageCallback,
+  sendTelegramMessage,
+  TRIAGE_BUTTONS,
+} from './telegram.js';
+import { AnalyzedJob, CandidateProfile, JobRecord, TriageStatus } from './types.js';
+
+const DEFAULT_STATE_PATH = join(process.cwd(), 'data', 'bot-state.json');
+const HOUR_MS = 60 * 60 * 1000;
+const TOP_DAYS = 7;
+const DEFAULT_TOP_COUNT = 5;
+const MAX_TOP_COUNT = 20;
+const RETRY_DELAY_MS = 5000;
+const RESEND_RETRY_MS = 5 * 60 * 1000;
+const MAX_RESEND_ATTEMPTS = 5;
+
+/**
+ * 等待重新推送的“稍后提醒”职位
+ */
+export interface SnoozedJob {
+  jobId: string;
+  profileId: string;
+  remindAt: string;
+  attempts?: number; // 推送失败次数，失败后按指数退避推迟 remindAt
+}
+
+/**
+ * 机器人状态：已处理的更新位置和暂停状态
+ */
+export interface BotState {
+  offset: number; // 下一次 getUpdates 的 offset
+  paused?: { since: string; until?: string }; // 未设置 until 时一直暂停到 /resume
+  snoozed?: SnoozedJob[]; // 单独记录，避免每次轮询都扫描整个数据库
+}
+
+/**
+ * Telegram 更新（只包含用到的字段）
+ */
+interface TelegramUpdate {
+  update_id: number;
+  message?: { chat: { id: number }; text?: string };
+  callback_query?: {
+    id: string;
+    data?: string;
+    message?: { message_id: number; chat: { id: number } };
+  };
+}
+
+/**
+ * 交互机器人的参数
+ */
+export interface BotOptions {
+  botToken: string;
+  profiles: CandidateProfile[]; // 只响应档案中配置的 Telegram Chat
+  settings?: BotConfig;
+  apiBase?: string;
+  statePath?: string;
+  storagePath?: string;
+}
+
+/**
+ * 交互机器人
+ */
+export interface Bot {
+  poll(): Promise<number>; // 拉取并处理一批更新，返回处理的更新数
+  start(): Promise<void>; // 持续轮询，直到调用 stop()
+  stop(): void;
+}
+
+/**
+ * 加载机器人状态，文件不存在或损坏时返回初始状态
+ */
+export function loadBotState(statePath: string = DEFAULT_STATE_PATH): BotState {
+  if (!existsSync(statePath)) {
+    return { offset: 0 };
+  }
+
+  try {
+    return JSON.parse(readFileSync(statePath, 'utf-8')) as BotState;
+  } catch (error) {
+    console.warn(`无法读取机器人状态 ${statePath}:`, error);
+    return { offset: 0 };
+  }
+}
+
+/**
+ * 保存机器人状态
+ */
+export function saveBotState(state: BotState, statePath: string = DEFAULT_STATE_PATH): void {
+  const dir = dirname(statePath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(statePath, JSON.stringify(state, null, 2), 'utf-8');
+}
+
+/**
+ * 是否已通过 /pause 暂停定时运行
+ */
+export function isAgentPaused(state: BotState = loadBotState(), now: Date = new Date()): boolean {
+  if (!state.paused) {
+    return false;
+  }
+  return !state.paused.until || Date.parse(state.paused.until) > now.getTime();
+}
+
+/**
+ * 从数据库中找出所有“稍后提醒”的职位（用于补齐旧版本的机器人状态）
+ */
+function findSnoozedJobs(storagePath?: string): SnoozedJob[] {
+  const snoozed: SnoozedJob[] = [];
+  for (const record of queryJobs({}, storagePath)) {
+    for (const [profileId, triage] of Object.entries(record.triage || {})) {
+      if (triage.status === 'snoozed' && triage.snoozedUntil) {
+        snoozed.push({ jobId: record.id, profileId, remindAt: triage.snoozedUntil });
+      }
+    }
+  }
+  return snoozed;
+}
+
+/**
+ * 状态对应的按钮文字
+ */
+function triageLabel(status: TriageStatus): string {
+  return TRIAGE_BUTTONS.find((button) => button.status === status)?.label || status;
+}
+
+/**
+ * 职位是否应出现在列表中：排除“不合适”和提醒时间未到的“稍后提醒”
+ */
+function isVisible(record: JobRecord, profileId: string, now: Date): boolean {
+  const triage = record.triage?.[profileId];
+  if (triage?.status === 'dismissed') {
+    return false;
+  }
+  return !(
+    triage?.status === 'snoozed' &&
+    triage.snoozedUntil &&
+    Date.parse(triage.snoozedUntil) > now.getTime()
+  );
+}
+
+/**
+ * 格式化职位列表（HTML）
+ */
+function formatJobList(title: string, jobs: AnalyzedJob[], records: JobRecord[]): string {
+  if (jobs.length === 0) {
+    return `${title}\n\n暂无匹配职位`;
+  }
+
+  const lines = jobs.map((job, index) => {
+    const triage = records.find((record) => record.id === job.id)?.triage?.[job.profileId!];
+    const status = triage ? ` [${triageLabel(triage.status)}]` : '';
+    return [
+      `${index + 1}. <b>${job.score}/10</b> ${escapeTelegramHtml(job.title)} @ ${escapeTelegramHtml(job.company)}${status}`,
+      `   ${escapeTelegramHtml(job.url)}`,
+    ].join('\n');
+  });
+  return `${title}\n\n${lines.join('\n')}`;
+}
+
+/**
+ * 格式化机器人帮助信息
+ */
+function formatHelp(): string {
+  return [
+    '🤖 Job Hunter 命令',
+    '',
+    `/top [数量] - 最近 ${TOP_DAYS} 天评分最高的职位`,
+    '/today - 最近 24 小时的匹配职位',
+    '/status - 运行状态和最近一次运行结果',
+    '/pause [小时] - 暂停定时运行（不填小时数时暂停到 /resume）',
+    '/resume - 恢复定时运行',
+  ].join('\n');
+}
+
+/**
+ * 创建 Telegram 交互机器人
+ * 通过长轮询接收职位消息上的按钮和命令，按钮会更新职位在数据库中的处理状态
+ */
+export function createBot(options: BotOptions): Bot {
+  const {
+    botToken,
+    profiles,
+    settings = getBotConfig(),
+    apiBase,
+    statePath = DEFAULT_STATE_PATH,
+    storagePath,
+  } = options;
+  const state = loadBotState(statePath);
+  if (!state.snoozed) {
+    state.snoozed = findSnoozedJobs(storagePath);
+    saveBotState(state, statePath);
+  }
+  let running = false;
+
+  // Chat ID → 档案（同一 Chat 对应多个档案时，命令使用第一个档案）
+  const chats = new Map<string, CandidateProfile[]>();
+  for (const profile of profiles) {
+    const chatId = profile.notify.telegramChatId;
+    if (chatId) {
+      chats.set(chatId, [...(chats.get(chatId) || []), profile]);
+    }
+  }
+
+  const reply = (chatId: string, text: string) =>
+    sendTelegramMessage(botToken, chatId, text, { html: true, apiBase });
+
+  /**
+   * 查询档案在指定时间之后分析过的匹配职位
+   */
+  const findMatches = (profile: CandidateProfile, since: Date, now: Date) => {
+    const records = queryJobs({ profileId: profile.id, minScore: profile.minScore }, storagePath);
+    const matches = records.filter((record) => {
+      const analyzedAt = record.analyses?.[profile.id]?.analyzedAt;
+      return (
+        analyzedAt &&
+        Date.parse(analyzedAt) >= since.getTime() &&
+        isVisible(record, profile.id, now)
+      );
+    });
+    const jobs = matches
+      .map((record) => toAnalyzedJob(record, profile.id))
+      .filter((job): job is AnalyzedJob => job !== null);
+    return { jobs, records: matches };
+  };
+
+  const formatStatus = (profile: CandidateProfile, now: Date): string => {
+    const lines = ['📊 Job Hunter 状态', ''];
+    if (isAgentPaused(state, now)) {
+      lines.push(
+        state.paused!.until
+          ? `⏸️ 已暂停，至 ${state.paused!.until}`
+          : '⏸️ 已暂停，发送 /resume 恢复'
+      );
+    } else {
+      lines.push('▶️ 运行中');
+    }
+
+    const [lastRun] = getRunHistory(1, storagePath);
+    if (lastRun) {
+      lines.push(
+        `🕐 最近运行: ${lastRun.finishedAt}`,
+        `   抓取 ${lastRun.fetched} 个，新职位 ${lastRun.newJobs} 个，分析 ${lastRun.analyzed} 个，匹配 ${lastRun.matched} 个`
+      );
+    } else {
+      lines.push('🕐 尚未运行');
+    }
+
+    const counts = new Map<TriageStatus, number>();
+    for (const record of queryJobs({}, storagePath)) {
+      const status = record.triage?.[profile.id]?.status;
+      if (status) {
+        counts.set(status, (counts.get(status) || 0) + 1);
+      }
+    }
+    if (counts.size > 0) {
+      lines.push(
+        `📋 ${TRIAGE_BUTTONS.filter((button) => counts.has(button.status))
+          .map((button) => `${button.label} ${counts.get(button.status)}`)
+          .join('，')}`
+      );
+    }
+
+    return lines.join('\n');
+  };
+
+  /**
+   * 处理命令，返回回复内容（HTML）
+   */
+  const handleCommand = (text: string, profile: CandidateProfile, now: Date): string => {
+    const [rawCommand, arg] = text.trim().split(/\s+/);
+    const command = rawCommand.replace(/@\w+$/, '').toLowerCase();
+
+    switch (command) {
+      case '/top': {
+        const count = Math.min(Number(arg) || DEFAULT_TOP_COUNT, MAX_TOP_COUNT);
+        const { jobs, records } = findMatches(
+          profile,
+          new Date(now.getTime() - TOP_DAYS * 24 * HOUR_MS),
+          now
+        );
+        jobs.sort((a, b) => b.score - a.score || (b.relevance ?? 0) - (a.relevance ?? 0));
+        return formatJobList(`🏆 最近 ${TOP_DAYS} 天评分最高的职位`, jobs.slice(0, count), records);
+      }
+      case '/today': {
+        const { jobs, records } = findMatches(profile, new Date(now.getTime() - 24 * HOUR_MS), now);
+        return formatJobList('📅 最近 24 小时的匹配职位', jobs, records);
+      }
+      case '/status':
+        return formatStatus(profile, now);
+      case '/pause': {
+        const hours = Number(arg);
+        if (arg && !(hours > 0)) {
+          return '用法: /pause [小时]';
+        }
+        state.paused = {
+          since: now.toISOString(),
+          until: hours > 0 ? new Date(now.getTime() + hours * HOUR_MS).toISOString() : undefined,
+        };
+        return state.paused.until
+          ? `⏸️ 已暂停定时运行，至 ${state.paused.until}`
+          : '⏸️ 已暂停定时运行，发送 /resume 恢复';
+      }
+      case '/resume':
+        state.paused = undefined;
+        return '▶️ 已恢复定时运行';
+      default:
+        return formatHelp();
+    }
+  };
+
+  /**
+   * 处理职位消息上的按钮
+   */
+  const handleCallback = async (
+    query: NonNullable<TelegramUpdate['callback_query']>,
+    now: Date
+  ): Promise<void> => {
+    const answer = (text: string) =>
+      callTelegram(
+        botToken,
+        'answerCallbackQuery',
+        { callback_query_id: query.id, text },
+        { apiBase }
+      );
+
+    const chatId = query.message ? `${query.message.chat.id}` : '';
+    const parsed = parseTriageCallback(query.data || '');
+    if (!parsed || !chats.get(chatId)?.some((profile) => profile.id === parsed.profileId)) {
+      await answer('无效的操作');
+      return;
+    }
+
+    const snoozedUntil =
+      parsed.status === 'snoozed'
+        ? new Date(now.getTime() + settings.snoozeHours * HOUR_MS).toISOString()
+        : undefined;
+    const record = setJobTriage(
+      parsed.jobId,
+      parsed.profileId,
+      { status: parsed.status, updatedAt: now.toISOString(), snoozedUntil },
+      storagePath
+    );
+    if (!record) {
+      await answer('职位不存在');
+      return;
+    }
+
+    state.snoozed = state.snoozed!.filter(
+      (entry) => entry.jobId !== parsed.jobId || entry.profileId !== parsed.profileId
+    );
+    if (snoozedUntil) {
+      state.snoozed.push({
+        jobId: parsed.jobId,
+        profileId: parsed.profileId,
+        remindAt: snoozedUntil,
+      });
+    }
+
+    await answer(`已标记为: ${triageLabel(parsed.status)}`);
+    try {
+      await callTelegram(
+        botToken,
+        'editMessageReplyMarkup',
+        {
+          chat_id: chatId,
+          message_id: query.message!.message_id,
+          reply_markup: buildTriageKeyboard(
+            { id: parsed.jobId, profileId: parsed.profileId },
+            parsed.status
+          ),
+        },
+        { apiBase }
+      );
+    } catch {
+      // 按钮未变化时 Telegram 会返回错误，状态已保存，忽略即可
+    }
+  };
+
+  const handleUpdate = async (update: TelegramUpdate, now: Date): Promise<void> => {
+    if (update.callback_query) {
+      await handleCallback(update.callback_query, now);
+      return;
+    }
+
+    const message = update.message;
+    if (!message?.text?.startsWith('/')) {
+      return;
+    }
+    const chatId = `${message.chat.id}`;
+    const profile = chats.get(chatId)?.[0];
+    if (!profile) {
+      console.warn(`忽略未配置的 Telegram Chat ${chatId} 发来的命令`);
+      return;
+    }
+    await reply(chatId, handleCommand(message.text, profile, now));
+  };
+
+  /**
+   * 重新推送提醒时间已到的“稍后提醒”职位
+   * 推送失败时按指数退避重试，超过 MAX_RESEND_ATTEMPTS 次后放弃并清除状态
+   */
+  const resendSnoozed = async (now: Date): Promise<void> => {
+    const due = state.snoozed!.filter((entry) => Date.parse(entry.remindAt) <= now.getTime());
+    if (due.length === 0) {
+      return;
+    }
+
+    const done = new Set<SnoozedJob>();
+    for (const entry of due) {
+      const record = getJobRecord(entry.jobId, storagePath);
+      // 已改为其他状态或已删除的职位不再提醒
+      if (!record || record.triage?.[entry.profileId]?.status !== 'snoozed') {
+        done.add(entry);
+        continue;
+      }
+
+      const chatId = profiles.find((profile) => profile.id === entry.profileId)?.notify
+        .telegramChatId;
+      const job = toAnalyzedJob(record, entry.profileId);
+      if (chatId && job) {
+        try {
+          await sendTelegramMessage(botToken, chatId, `⏰ 提醒\n\n${formatTelegramMessage(job)}`, {
+            html: true,
+            replyMarkup: buildTriageKeyboard(job),
+            apiBase,
+          });
+        } catch (error) {
+          entry.attempts = (entry.attempts || 0) + 1;
+          const message = error instanceof Error ? error.message : error;
+          if (entry.attempts < MAX_RESEND_ATTEMPTS) {
+            entry.remindAt = new Date(
+              now.getTime() + RESEND_RETRY_MS * 2 ** (entry.attempts - 1)
+            ).toISOString();
+            console.warn(`稍后提醒推送失败（${entry.jobId}），${entry.remindAt} 重试:`, message);
+            continue;
+          }
+          console.warn(
+            `稍后提醒推送失败（${entry.jobId}），已重试 ${entry.attempts} 次，放弃:`,
+            message
+          );
+        }
+      }
+      setJobTriage(entry.jobId, entry.profileId, null, storagePath);
+      done.add(entry);
+    }
+
+    state.snoozed = state.snoozed!.filter((entry) => !done.has(entry));
+    saveBotState(state, statePath);
+  };
+
+  const poll = async (): Promise<number> => {
+    const updates = await callTelegram<TelegramUpdate[]>(
+      botToken,
+      'getUpdates',
+      {
+        offset: state.offset,
+        timeout: settings.pollTimeoutSeconds,
+        allowed_updates: ['message', 'callback_query'],
+      },
+      { apiBase, timeout: (settings.pollTimeoutSeconds + 10) * 1000 }
+    );
+
+    const now = new Date();
+    for (const update of updates) {
+      try {
+        await handleUpdate(update, now);
+      } catch (error) {
+        console.error('处理 Telegram 更新失败:', error instanceof Error ? error.message : error);
+      }
+      state.offset = update.update_id + 1;
+    }
+    if (updates.length > 0) {
+      saveBotState(state, statePath);
+    }
+
+    await resendSnoozed(now);
+    return updates.length;
+  };
+
+  return {
+    poll,
+    async start() {
+      running = true;
+      // 只有机器人运行时职位消息才附带处理按钮
+      setTelegramButtons(true);
+      while (running) {
+        try {
+          await poll();
+        } catch (error) {
+          console.error('Telegram 轮询失败:', error instanceof Error ? error.message : error);
+          await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+        }
+      }
+    },
+    stop() {
+      running = false;
+      setTelegramButtons(false);
+    },
+  };
+}
@@ -0,0 +1,107 @@
+import { normalizeCompany } from './dedup.js';
+import { PrefilterDecision } from './prefilter.js';
+import { CompanyRules, Job } from './types.js';
+
+// 去掉空格后的名称相似度达到该值视为同一公司（容忍拼写差异）
+const SIMILARITY_THRESHOLD = 0.85;
+// 过短的名称只做精确匹配，避免误判
+const MIN_FUZZY_LENGTH = 6;
+
+/**
+ * 公司名单筛选结果
+ */
+export interface CompanyScreening {
+  allowed: Job[]; // 允许列表中的公司，跳过其他筛选并总是通知
+  kept: Job[]; // 不在名单中的公司，照常筛选
+  rejected: PrefilterDecision[]; // 拒绝列表中的公司
+}
+
+/**
+ * 编辑距离
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 检查公司是否匹配名单中的名称
+ * 标准化后（忽略大小写、标点和 Inc、Ltd 等后缀）相同、名称中包含名单中的完整单词序列，
+ * 或拼写相近时视为匹配
+ */
+export function companyMatches(company: string, name: string): boolean {
+  const a = normalizeCompany(company);
+  const b = normalizeCompany(name);
+  if (!a || !b) {
+    return false;
+  }
+
+  const compactA = a.replace(/ /g, '');
+  const compactB = b.replace(/ /g, '');
+  if (compactA === compactB) {
+    return true;
+  }
+
+  // "Acme" 匹配 "Acme Labs"，但不匹配 "Acmera"
+  if (` ${a} `.includes(` ${b} `)) {
+    return true;
+  }
+
+  if (Math.min(compactA.length, compactB.length) < MIN_FUZZY_LENGTH) {
+    return false;
+  }
+  const distance = levenshtein(compactA, compactB);
+  return 1 - distance / Math.max(compactA.length, compactB.length) >= SIMILARITY_THRESHOLD;
+}
+
+/**
+ * 查找名单中与公司匹配的第一个名称
+ */
+export function findCompany(company: string, names: string[]): string | undefined {
+  return names.find((name) => companyMatches(company, name));
+}
+
+/**
+ * 查找公司备注
+ */
+export function findCompanyNote(
+  company: string,
+  notes: Record<string, string>
+): string | undefined {
+  const name = findCompany(company, Object.keys(notes));
+  return name !== undefined ? notes[name] : undefined;
+}
+
+/**
+ * 按公司允许/拒绝列表筛选职位（同时在两个列表中时允许列表优先）
+ */
+export function screenCompanies(jobs: Job[], rules: CompanyRules): CompanyScreening {
+  const result: CompanyScreening = { allowed: [], kept: [], rejected: [] };
+
+  for (const job of jobs) {
+    if (findCompany(job.company, rules.allow)) {
+      result.allowed.push(job);
+      continue;
+    }
+
+    const denied = findCompany(job.company, rules.deny);
+    if (denied) {
+      result.rejected.push({ job, reason: `公司在拒绝列表中: ${denied}` });
+    } else {
+      result.kept.push(job);
+    }
+  }
+
+  return result;
+}
@@ -1,7 +1,16 @@
-import { UserBackground } from './types.js';
+import { join } from 'path';
+import {
+  CompanyRules,
+  DeliveryMode,
+  LocationRules,
+  PrefilterRules,
+  SalaryRules,
+  UserBackground,
+} from './types.js';
+import { getFileConfig } from './configFile.js';
 
 /**
- * 用户背景信息配置
+ * 用户背景信息配置（默认值，可被配置文件的 background 覆盖）
  */
 export const userBackground: UserBackground = {
   experience: '3年前端工程师经验',
@@ -26,6 +35,7 @@ export const userBackground: UserBackground = {
     'Node.js',
   ],
   location: '中国',
+  rubric: 'frontend',
   preferences: {
     remoteOnly: true,
     industries: ['AI', 'Web3'],
@@ -33,7 +43,7 @@ export const userBackground: UserBackground = {
 };
 
 /**
- * API 端点配置
+ * API 端点配置（默认值，可被配置文件的 sources.endpoints 覆盖）
  */
 export const apiEndpoints = {
   remoteok: 'https://remoteok.com/api',
@@ -47,13 +57,376 @@ export const apiEndpoints = {
 };
 
 /**
- * 过滤配置
+ * 数据源配置
+ */
+export interface SourceConfig {
+  modules: string[]; // 第三方数据源模块路径（相对于当前工作目录）
+  disabled: string[]; // 禁用的数据源ID
+}
+
+/**
+ * 解析逗号分隔的环境变量列表
+ */
+function parseListEnv(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 解析数字环境变量，未设置、为空或不是数字时返回 undefined（0 是有效值）
+ */
+function parseNumberEnv(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+/**
+ * 获取数据源配置
+ * 环境变量优先于配置文件
+ */
+export function getSourceConfig(): SourceConfig {
+  const fileSources = getFileConfig().sources;
+  const envModules = parseListEnv(process.env.JOB_SOURCE_MODULES);
+  const envDisabled = parseListEnv(process.env.DISABLED_SOURCES);
+
+  return {
+    modules: envModules.length > 0 ? envModules : fileSources?.modules || [],
+    disabled: envDisabled.length > 0 ? envDisabled : fileSources?.disabled || [],
+  };
+}
+
+/**
+ * 过滤配置（默认值，可被配置文件的 filter 覆盖）
  */
 export const filterConfig = {
   minScore: 5, // 最低评分
   hoursThreshold: 24 * 7, // 只保留7天内发布的职位
 };
 
+/**
+ * 跨数据源去重配置（默认值，可被配置文件的 dedup 覆盖）
+ */
+export const dedupConfig = {
+  similarityThreshold: 0.3, // 公司和标题相同时，描述相似度达到该值才合并
+};
+
+/**
+ * 预筛选默认规则
+ */
+export const prefilterConfig: PrefilterRules = {
+  enabled: true,
+  matchSkills: true, // 一项技能都没提到的职位（销售、市场、客服等）不调用 LLM
+};
+
+/**
+ * 地区资格默认规则
+ */
+export const locationConfig: LocationRules = {
+  enabled: true,
+  action: 'downrank', // 地区信息来自文本解析，默认只降分不直接排除
+  penalty: 3,
+  timezoneTolerance: 3,
+};
+
+/**
+ * 薪资默认规则
+ */
+export const salaryConfig: SalaryRules = {
+  currency: 'USD',
+  action: 'downrank',
+  penalty: 2,
+};
+
+/**
+ * 公司名单默认值（可被配置文件的 companies 覆盖，档案中的名单会追加到这里的名单后）
+ */
+export const companyConfig: CompanyRules = {
+  allow: [],
+  deny: [],
+  notes: {},
+};
+
+/**
+ * 分析模式：llm 使用 AI 评分，free 只使用本地相关度评分（无需 API Key）
+ */
+export type AnalysisMode = 'llm' | 'free';
+
+/**
+ * 本地相关度排序配置
+ */
+export interface RelevanceConfig {
+  mode: AnalysisMode;
+  topK?: number; // 每个档案只把相关度最高的 K 个职位交给 LLM，未设置时不限制
+  minRelevance: number; // 相关度低于该值的职位不交给 LLM（0-1）
+}
+
+export const relevanceConfig: RelevanceConfig = {
+  mode: 'llm',
+  minRelevance: 0,
+};
+
+/**
+ * 完整职位描述抓取配置
+ */
+export interface DescriptionConfig {
+  fetchFull: boolean; // 是否在 AI 分析前抓取入围职位的详情页
+  cacheTtlDays: number; // 缓存有效期（天）
+  concurrency: number; // 同时抓取的页面数
+}
+
+export const descriptionConfig: DescriptionConfig = {
+  fetchFull: false,
+  cacheTtlDays: 30,
+  concurrency: 2,
+};
+
+/**
+ * HTTP 缓存模式：on 按 TTL 缓存并发送条件请求，off 不使用缓存，offline 只读取缓存（不发请求）
+ */
+export type HttpCacheMode = 'on' | 'off' | 'offline';
+
+/**
+ * 数据源 HTTP 缓存配置
+ */
+export interface HttpCacheConfig {
+  mode: HttpCacheMode;
+  ttlMinutes: number; // 缓存在该时间内直接使用，过期后发送条件请求
+  dir: string; // 缓存目录
+}
+
+export const httpCacheConfig: HttpCacheConfig = {
+  mode: 'on',
+  ttlMinutes: 60,
+  dir: join(process.cwd(), 'data', 'http-cache'),
+};
+
+/**
+ * 数据源健康检查配置
+ */
+export interface HealthConfig {
+  alertThreshold: number; // 连续失败或返回 0 个职位达到该次数时告警
+  breakerThreshold: number; // 连续失败达到该次数时熔断
+  cooldownHours: number; // 熔断后跳过该数据源的时长
+}
+
+export const healthConfig: HealthConfig = {
+  alertThreshold: 3,
+  breakerThreshold: 5,
+  cooldownHours: 12,
+};
+
+/**
+ * Telegram 交互机器人配置
+ */
+export interface BotConfig {
+  enabled: boolean; // 是否在守护模式下接收按钮和命令（开启后职位消息附带处理按钮）
+  snoozeHours: number; // “稍后”按钮的提醒间隔
+  pollTimeoutSeconds: number; // 长轮询等待时长
+}
+
+export const botConfig: BotConfig = {
+  enabled: false,
+  snoozeHours: 24,
+  pollTimeoutSeconds: 30,
+};
+
+/**
+ * 定时摘要配置
+ */
+export interface DigestConfig {
+  mode: DeliveryMode; // 默认通知方式，档案的 delivery 可覆盖
+  frequency: 'daily' | 'weekly';
+  time: string; // 发送时间 HH:mm
+  weekday: number; // 每周摘要的发送日（0 为周日）
+  timezone: string; // IANA 时区，例如 Asia/Shanghai
+  instantMinScore: number; // hybrid 模式下立即通知的最低评分
+}
+
+export const digestConfig: DigestConfig = {
+  mode: 'instant',
+  frequency: 'daily',
+  time: '09:00',
+  weekday: 1,
+  timezone: 'UTC',
+  instantMinScore: 9,
+};
+
+/**
+ * 获取用户背景信息（配置文件优先）
+ */
+export function getUserBackground(): UserBackground {
+  const background = getFileConfig().background;
+  if (!background) {
+    return userBackground;
+  }
+
+  return {
+    ...background,
+    location: background.location || userBackground.location,
+  };
+}
+
+/**
+ * 获取 API 端点配置
+ */
+export function getApiEndpoints(): typeof apiEndpoints {
+  return { ...apiEndpoints, ...getFileConfig().sources?.endpoints };
+}
+
+/**
+ * 获取过滤配置
+ */
+export function getFilterConfig(): typeof filterConfig {
+  return { ...filterConfig, ...getFileConfig().filter };
+}
+
+/**
+ * 获取跨数据源去重配置
+ */
+export function getDedupConfig(): typeof dedupConfig {
+  return { ...dedupConfig, ...getFileConfig().dedup };
+}
+
+/**
+ * 获取相关度排序配置（环境变量 ANALYSIS_MODE、RELEVANCE_TOP_K > 配置文件 > 默认值）
+ */
+export function getRelevanceConfig(): RelevanceConfig {
+  const fileConfig = getFileConfig().relevance;
+  const envMode = process.env.ANALYSIS_MODE;
+  if (envMode && envMode !== 'llm' && envMode !== 'free') {
+    throw new Error(`无效的 ANALYSIS_MODE: ${envMode}，可选值: llm, free`);
+  }
+
+  return {
+    ...relevanceConfig,
+    ...fileConfig,
+    mode: (envMode as AnalysisMode) || fileConfig?.mode || relevanceConfig.mode,
+    topK: parseNumberEnv(process.env.RELEVANCE_TOP_K) ?? fileConfig?.topK ?? relevanceConfig.topK,
+  };
+}
+
+/**
+ * 获取完整描述抓取配置（环境变量 FETCH_FULL_DESCRIPTION > 配置文件 > 默认值）
+ */
+export function getDescriptionConfig(): DescriptionConfig {
+  const fileConfig = getFileConfig().description;
+  const envFetch = process.env.FETCH_FULL_DESCRIPTION;
+
+  return {
+    ...descriptionConfig,
+    ...fileConfig,
+    fetchFull: envFetch
+      ? envFetch === 'true'
+      : (fileConfig?.fetchFull ?? descriptionConfig.fetchFull),
+  };
+}
+
+/**
+ * 获取 HTTP 缓存配置（环境变量 HTTP_CACHE > 配置文件 > 默认值）
+ */
+export function getHttpCacheConfig(): HttpCacheConfig {
+  const fileConfig = getFileConfig().httpCache;
+  const envMode = process.env.HTTP_CACHE;
+  if (envMode && envMode !== 'on' && envMode !== 'off' && envMode !== 'offline') {
+    throw new Error(`无效的 HTTP_CACHE: ${envMode}，可选值: on, off, offline`);
+  }
+
+  return {
+    ...httpCacheConfig,
+    ...fileConfig,
+    mode: (envMode as HttpCacheMode) || fileConfig?.mode || httpCacheConfig.mode,
+  };
+}
+
+/**
+ * 获取数据源健康检查配置（配置文件优先）
+ */
+export function getHealthConfig(): HealthConfig {
+  return { ...healthConfig, ...getFileConfig().health };
+}
+
+/**
+ * 获取 Telegram 交互机器人配置（环境变量 TELEGRAM_BOT > 配置文件 > 默认值）
+ */
+export function getBotConfig(): BotConfig {
+  const fileConfig = getFileConfig().bot;
+  const envEnabled = process.env.TELEGRAM_BOT;
+
+  return {
+    ...botConfig,
+    ...fileConfig,
+    enabled: envEnabled ? envEnabled === 'true' : (fileConfig?.enabled ?? botConfig.enabled),
+  };
+}
+
+/**
+ * 获取定时摘要配置（环境变量 NOTIFY_MODE、DIGEST_TIME、DIGEST_TIMEZONE > 配置文件 > 默认值）
+ */
+export function getDigestConfig(): DigestConfig {
+  const fileConfig = getFileConfig().digest;
+  const envMode = process.env.NOTIFY_MODE;
+  if (envMode && envMode !== 'instant' && envMode !== 'digest' && envMode !== 'hybrid') {
+    throw new Error(`无效的 NOTIFY_MODE: ${envMode}，可选值: instant, digest, hybrid`);
+  }
+
+  const settings: DigestConfig = {
+    ...digestConfig,
+    ...fileConfig,
+    mode: (envMode as DeliveryMode) || fileConfig?.mode || digestConfig.mode,
+    time: process.env.DIGEST_TIME || fileConfig?.time || digestConfig.time,
+    timezone: process.env.DIGEST_TIMEZONE || fileConfig?.timezone || digestConfig.timezone,
+  };
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(settings.time)) {
+    throw new Error(`无效的摘要发送时间: ${settings.time}，格式为 HH:mm`);
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: settings.timezone });
+  } catch {
+    throw new Error(`无效的摘要时区: ${settings.timezone}`);
+  }
+
+  return settings;
+}
+
+/**
+ * 获取预筛选规则（配置文件优先）
+ */
+export function getPrefilterConfig(): PrefilterRules {
+  return { ...prefilterConfig, ...getFileConfig().prefilter };
+}
+
+/**
+ * 获取地区资格规则（配置文件优先）
+ */
+export function getLocationConfig(): LocationRules {
+  return { ...locationConfig, ...getFileConfig().location };
+}
+
+/**
+ * 获取薪资规则（配置文件优先）
+ */
+export function getSalaryConfig(): SalaryRules {
+  const { currency, minSalary, action, penalty } = getFileConfig().salary || {};
+  return {
+    currency: currency || salaryConfig.currency,
+    minSalary: minSalary ?? salaryConfig.minSalary,
+    action: action || salaryConfig.action,
+    penalty: penalty ?? salaryConfig.penalty,
+  };
+}
+
+/**
+ * 获取公司名单（配置文件优先）
+ */
+export function getCompanyConfig(): CompanyRules {
+  return { ...companyConfig, ...getFileConfig().companies };
+}
+
 /**
  * AI 服务提供商类型
  */
@@ -68,6 +441,13 @@ export interface AIConfig {
   baseURL?: string;
   model: string;
   temperature?: number;
+  batchSize?: number; // 每次 LLM 调用分析的职位数量，1 表示逐个分析
+  maxTokens?: number; // 单次响应的最大输出 token 数
+  budget?: number; // 每次运行的费用上限（美元），超出后停止分析
+  tokenBudget?: number; // 每次运行的 token 上限（输入+输出），超出后停止分析
+  maxRetries?: number; // 429/5xx 等临时错误的最大重试次数
+  rpm?: number; // 每分钟最大请求数，未设置时不限制
+  concurrency?: number; // 同时进行的 LLM 调用数
 }
 
 /**
@@ -78,57 +458,96 @@ export const aiConfigs: Record<AIProvider, Partial<AIConfig>> = {
     baseURL: 'https://api.deepseek.com',
     model: 'deepseek-chat',
     temperature: 0.7,
+    batchSize: 10,
+    concurrency: 4,
   },
   openai: {
     baseURL: 'https://api.openai.com/v1',
     model: 'gpt-4o-mini', // 或 'gpt-4', 'gpt-3.5-turbo'
     temperature: 0.7,
+    batchSize: 10,
+    concurrency: 4,
   },
   groq: {
     baseURL: 'https://api.groq.com/openai/v1',
     model: 'llama-3.1-70b-versatile', // 或 'mixtral-8x7b-32768'
     temperature: 0.7,
+    batchSize: 5, // 免费额度的上下文和 TPM 较小
+    rpm: 30, // 免费额度限制
+    concurrency: 2,
   },
   together: {
     baseURL: 'https://api.together.xyz/v1',
     model: 'meta-llama/Llama-3-70b-chat-hf',
     temperature: 0.7,
+    batchSize: 5,
+    concurrency: 2,
   },
   claude: {
     baseURL: 'https://api.anthropic.com',
     model: 'claude-sonnet-4-20250514', // 或 'claude-3-5-sonnet-20241022', 'claude-3-opus-20240229'
     temperature: 0.7,
+    batchSize: 10,
+    maxTokens: 4096, // Messages API 必填，需容纳整批结果
+    concurrency: 4,
   },
   custom: {
     // 自定义配置，需要提供完整的 baseURL 和 model
     temperature: 0.7,
+    batchSize: 1, // 未知模型默认逐个分析，可通过 AI_BATCH_SIZE 开启批量
+    concurrency: 1,
   },
 };
 
 /**
  * 获取当前使用的 AI 配置
+ *
+ * 每个字段按以下顺序取第一个有效值：
+ * 1. 环境变量（AI_PROVIDER、AI_API_KEY、AI_BASE_URL、AI_MODEL、AI_TEMPERATURE、AI_BATCH_SIZE、AI_MAX_TOKENS、AI_BUDGET、AI_TOKEN_BUDGET、AI_MAX_RETRIES、AI_RPM、AI_CONCURRENCY）
+ * 2. 配置文件 ai 下的字段
+ * 3. 配置文件 ai.presets[provider]
+ * 4. 内置预设 aiConfigs[provider]
  */
 export function getAIConfig(): AIConfig {
-  const provider = (process.env.AI_PROVIDER || 'deepseek') as AIProvider;
-  const apiKeyEnv =
+  const fileAI = getFileConfig().ai || {};
+  const provider = (process.env.AI_PROVIDER || fileAI.provider || 'deepseek') as AIProvider;
+  const apiKey =
     process.env.AI_API_KEY ||
     process.env.DEEPSEEK_API_KEY ||
     process.env.OPENAI_API_KEY ||
-    process.env.ANTHROPIC_API_KEY;
+    process.env.ANTHROPIC_API_KEY ||
+    fileAI.apiKey;
 
-  if (!apiKeyEnv) {
+  if (!apiKey) {
     throw new Error(
-      'AI_API_KEY 或 DEEPSEEK_API_KEY 或 OPENAI_API_KEY 或 ANTHROPIC_API_KEY 环境变量未设置'
+      'AI_API_KEY 或 DEEPSEEK_API_KEY 或 OPENAI_API_KEY 或 ANTHROPIC_API_KEY 环境变量未设置，配置文件中也没有 ai.apiKey'
     );
   }
 
-  const preset = aiConfigs[provider] || aiConfigs.deepseek;
+  const preset = { ...(aiConfigs[provider] || aiConfigs.deepseek), ...fileAI.presets?.[provider] };
 
   return {
     provider,
-    apiKey: apiKeyEnv,
-    baseURL: process.env.AI_BASE_URL || preset.baseURL,
-    model: process.env.AI_MODEL || preset.model || 'deepseek-chat',
-    temperature: Number(process.env.AI_TEMPERATURE) || preset.temperature || 0.7,
+    apiKey,
+    baseURL: process.env.AI_BASE_URL || fileAI.baseURL || preset.baseURL,
+    model: process.env.AI_MODEL || fileAI.model || preset.model || 'deepseek-chat',
+    temperature:
+      parseNumberEnv(process.env.AI_TEMPERATURE) ?? fileAI.temperature ?? preset.temperature ?? 0.7,
+    batchSize: Math.max(
+      1,
+      parseNumberEnv(process.env.AI_BATCH_SIZE) ?? fileAI.batchSize ?? preset.batchSize ?? 1
+    ),
+    maxTokens: parseNumberEnv(process.env.AI_MAX_TOKENS) ?? fileAI.maxTokens ?? preset.maxTokens,
+    budget: parseNumberEnv(process.env.AI_BUDGET) ?? fileAI.budget,
+    tokenBudget: parseNumberEnv(process.env.AI_TOKEN_BUDGET) ?? fileAI.tokenBudget,
+    maxRetries: Math.max(
+      0,
+      parseNumberEnv(process.env.AI_MAX_RETRIES) ?? fileAI.maxRetries ?? preset.maxRetries ?? 3
+    ),
+    rpm: parseNumberEnv(process.env.AI_RPM) ?? fileAI.rpm ?? preset.rpm,
+    concurrency: Math.max(
+      1,
+      parseNumberEnv(process.env.AI_CONCURRENCY) ?? fileAI.concurrency ?? preset.concurrency ?? 1
+    ),
   };
 }
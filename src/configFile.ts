@@ -0,0 +1,394 @@
+import { readFileSync, existsSync } from 'fs';
+import { join, resolve, extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { rubricPresets } from './rubrics.js';
+
+const CONFIG_FILE_NAMES = [
+  'jobhacker.config.yaml',
+  'jobhacker.config.yml',
+  'jobhacker.config.json',
+];
+
+const providerSchema = z.enum(['deepseek', 'openai', 'groq', 'together', 'claude', 'custom']);
+
+// 预设模板名称在加载配置时校验，拼写错误不会拖到运行时才报错
+const rubricNames = Object.keys(rubricPresets) as [string, ...string[]];
+const rubricSchema = z.union(
+  [
+    z.enum(rubricNames),
+    z.object({
+      role: z.string().min(1),
+      keywords: z.array(z.string()).min(1),
+      adjacent: z.string(),
+      unrelated: z.string(),
+      notes: z.array(z.string()).optional(),
+    }),
+  ],
+  {
+    errorMap: (issue, ctx) =>
+      issue.code === 'invalid_union' && typeof ctx.data === 'string'
+        ? { message: `未知的评分模板: ${ctx.data}，可选值: ${rubricNames.join(', ')}` }
+        : { message: ctx.defaultError },
+  }
+);
+
+// 布尔字段允许 'true' / 'false' 字符串
+const booleanSchema = z.preprocess(
+  (value) => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean()
+);
+
+const backgroundSchema = z.object({
+  experience: z.string().default(''),
+  skills: z.array(z.string()).min(1, '至少需要一项技能'),
+  location: z.string().optional(),
+  rubric: rubricSchema.optional(),
+  preferences: z
+    .object({
+      remoteOnly: booleanSchema.default(true),
+      industries: z.array(z.string()).default([]),
+    })
+    .default({}),
+});
+
+// 数字字段允许字符串形式，便于使用环境变量插值
+const scoreSchema = z.coerce.number().min(1).max(10);
+
+const regexSchema = z.string().refine((pattern) => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}, '无效的正则表达式');
+
+const prefilterSchema = z.object({
+  enabled: booleanSchema.optional(),
+  matchSkills: booleanSchema.optional(),
+  requiredKeywords: z.array(z.string().min(1)).optional(),
+  excludedKeywords: z.array(z.string().min(1)).optional(),
+  titlePatterns: z.array(regexSchema).optional(),
+  excludedTitlePatterns: z.array(regexSchema).optional(),
+  seniority: z.array(z.enum(['intern', 'junior', 'mid', 'senior', 'lead'])).optional(),
+  autoScore: scoreSchema.optional(),
+});
+
+const locationSchema = z.object({
+  enabled: booleanSchema.optional(),
+  action: z.enum(['drop', 'downrank']).optional(),
+  penalty: z.coerce.number().int().min(0).max(9).optional(),
+  regions: z.array(z.string().min(1)).optional(),
+  utcOffset: z.coerce.number().min(-12).max(14).optional(),
+  timezoneTolerance: z.coerce.number().min(0).max(12).optional(),
+});
+
+const currencySchema = z
+  .string()
+  .transform((value) => value.toUpperCase())
+  .pipe(z.string().regex(/^[A-Z]{3}$/, '货币代码必须是三位字母'));
+
+const companiesSchema = z.object({
+  allow: z.array(z.string().min(1)).optional(),
+  deny: z.array(z.string().min(1)).optional(),
+  notes: z.record(z.string()).optional(),
+});
+
+const deliverySchema = z.enum(['instant', 'digest', 'hybrid']);
+
+/**
+ * 候选人档案 schema（配置文件的 profiles 和 profiles.json 共用）
+ */
+export const profileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  background: backgroundSchema,
+  minScore: scoreSchema.optional(),
+  sources: z.array(z.string()).optional(),
+  prefilter: prefilterSchema.optional(),
+  location: locationSchema.optional(),
+  minSalary: z.coerce.number().positive().optional(),
+  companies: companiesSchema.optional(),
+  notify: z
+    .object({
+      telegramChatId: z.coerce.string().optional(),
+      // 单个地址或地址列表
+      email: z
+        .union([z.string().email(), z.array(z.string().email())])
+        .transform((value) => (Array.isArray(value) ? value : [value]))
+        .optional(),
+      slackWebhookUrl: z.string().url().optional(),
+      discordWebhookUrl: z.string().url().optional(),
+      webhookUrl: z.string().url().optional(),
+    })
+    .default({}),
+  delivery: deliverySchema.optional(),
+});
+
+const aiSettingsSchema = z.object({
+  baseURL: z.string().url().optional(),
+  model: z.string().min(1).optional(),
+  temperature: z.coerce.number().min(0).max(2).optional(),
+  batchSize: z.coerce.number().int().min(1).optional(),
+  maxTokens: z.coerce.number().int().min(1).optional(),
+  maxRetries: z.coerce.number().int().min(0).optional(),
+  rpm: z.coerce.number().positive().optional(),
+  concurrency: z.coerce.number().int().min(1).optional(),
+});
+
+/**
+ * 配置文件 schema
+ */
+export const configFileSchema = z
+  .object({
+    background: backgroundSchema.optional(),
+    filter: z
+      .object({
+        minScore: scoreSchema.optional(),
+        hoursThreshold: z.coerce.number().positive().optional(),
+      })
+      .optional(),
+    dedup: z
+      .object({
+        similarityThreshold: z.coerce.number().min(0).max(1).optional(),
+      })
+      .optional(),
+    prefilter: prefilterSchema.optional(),
+    location: locationSchema.optional(),
+    companies: companiesSchema.optional(),
+    salary: z
+      .object({
+        currency: currencySchema.optional(),
+        minSalary: z.coerce.number().positive().optional(),
+        action: z.enum(['drop', 'downrank']).optional(),
+        penalty: z.coerce.number().int().min(0).max(9).optional(),
+        // 汇率表：货币代码 → 1 单位折合多少美元，覆盖内置汇率
+        rates: z.record(currencySchema, z.coerce.number().positive()).optional(),
+      })
+      .optional(),
+    health: z
+      .object({
+        alertThreshold: z.coerce.number().int().positive().optional(),
+        breakerThreshold: z.coerce.number().int().positive().optional(),
+        cooldownHours: z.coerce.number().positive().optional(),
+      })
+      .optional(),
+    digest: z
+      .object({
+        mode: deliverySchema.optional(),
+        frequency: z.enum(['daily', 'weekly']).optional(),
+        time: z
+          .string()
+          .regex(/^([01]\d|2[0-3]):[0-5]\d$/, '格式为 HH:mm')
+          .optional(),
+        weekday: z.coerce.number().int().min(0).max(6).optional(),
+        timezone: z.string().min(1).optional(),
+        instantMinScore: scoreSchema.optional(),
+      })
+      .optional(),
+    bot: z
+      .object({
+        enabled: booleanSchema.optional(),
+        snoozeHours: z.coerce.number().positive().optional(),
+        pollTimeoutSeconds: z.coerce.number().int().min(0).max(50).optional(),
+      })
+      .optional(),
+    httpCache: z
+      .object({
+        mode: z.enum(['on', 'off', 'offline']).optional(),
+        ttlMinutes: z.coerce.number().min(0).optional(),
+        dir: z.string().optional(),
+      })
+      .optional(),
+    description: z
+      .object({
+        fetchFull: booleanSchema.optional(),
+        cacheTtlDays: z.coerce.number().positive().optional(),
+        concurrency: z.coerce.number().int().positive().optional(),
+      })
+      .optional(),
+    relevance: z
+      .object({
+        mode: z.enum(['llm', 'free']).optional(),
+        topK: z.coerce.number().int().positive().optional(),
+        minRelevance: z.coerce.number().min(0).max(1).optional(),
+      })
+      .optional(),
+    sources: z
+      .object({
+        modules: z.array(z.string()).optional(),
+        disabled: z.array(z.string()).optional(),
+        endpoints: z.record(z.string().url()).optional(),
+      })
+      .optional(),
+    ai: aiSettingsSchema
+      .extend({
+        provider: providerSchema.optional(),
+        // 空字符串视为未设置，便于写成 ${AI_API_KEY:-}
+        apiKey: z
+          .string()
+          .optional()
+          .transform((value) => value || undefined),
+        presets: z.record(providerSchema, aiSettingsSchema).optional(),
+        // 每次运行的费用上限（美元）
+        budget: z.coerce.number().positive().optional(),
+        // 每次运行的 token 上限（输入+输出），适用于不在价格表中的模型
+        tokenBudget: z.coerce.number().int().positive().optional(),
+        // 价格表（美元 / 百万 token）：provider → model → { input, output }
+        prices: z
+          .record(
+            providerSchema,
+            z.record(
+              z.object({
+                input: z.coerce.number().min(0),
+                output: z.coerce.number().min(0),
+              })
+            )
+          )
+          .optional(),
+      })
+      .optional(),
+    profiles: z.array(profileSchema).min(1).optional(),
+  })
+  .strict();
+
+export type FileConfig = z.infer<typeof configFileSchema>;
+export type FileProfile = z.infer<typeof profileSchema>;
+
+/**
+ * 创建配置文件错误，列出所有问题
+ */
+function configFileError(filePath: string, issues: string[]): Error {
+  return new Error(
+    `配置文件 ${filePath} 无效:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`
+  );
+}
+
+/**
+ * 将 zod 校验错误转换为可读的问题列表
+ */
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(根)';
+    return `${path}: ${issue.message}`;
+  });
+}
+
+/**
+ * 替换配置值中的环境变量引用
+ * 支持 `${VAR}` 和 `${VAR:-默认值}`，引用未定义且无默认值的变量会报错
+ */
+export function interpolateEnv(
+  value: unknown,
+  path: string[] = [],
+  missing: string[] = []
+): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_, name, fallback) => {
+      const envValue = process.env[name];
+      if (envValue !== undefined && envValue !== '') {
+        return envValue;
+      }
+      if (fallback !== undefined) {
+        return fallback;
+      }
+      missing.push(`${path.join('.') || '(根)'}: 环境变量 ${name} 未设置`);
+      return '';
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnv(item, [...path, String(index)], missing));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        interpolateEnv(item, [...path, key], missing),
+      ])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * 查找配置文件路径
+ * 优先使用 JOBHACKER_CONFIG，否则在当前目录依次查找 yaml/yml/json
+ */
+export function findConfigFile(cwd: string = process.cwd()): string | null {
+  if (process.env.JOBHACKER_CONFIG) {
+    return resolve(cwd, process.env.JOBHACKER_CONFIG);
+  }
+
+  for (const name of CONFIG_FILE_NAMES) {
+    const filePath = join(cwd, name);
+    if (existsSync(filePath)) {
+      return filePath;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 读取并校验配置文件
+ */
+export function loadConfigFile(filePath: string): FileConfig {
+  if (!existsSync(filePath)) {
+    throw configFileError(filePath, ['文件不存在']);
+  }
+
+  let raw: unknown;
+  try {
+    const content = readFileSync(filePath, 'utf-8');
+    raw = extname(filePath) === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw configFileError(filePath, [
+      `解析失败: ${error instanceof Error ? error.message : String(error)}`,
+    ]);
+  }
+
+  const missing: string[] = [];
+  const interpolated = interpolateEnv(raw ?? {}, [], missing);
+  if (missing.length > 0) {
+    throw configFileError(filePath, missing);
+  }
+
+  const result = configFileSchema.safeParse(interpolated);
+  if (!result.success) {
+    throw configFileError(filePath, formatIssues(result.error));
+  }
+
+  return result.data;
+}
+
+let cachedConfig: { path: string | null; config: FileConfig } | null = null;
+
+/**
+ * 获取配置文件内容（首次调用时加载并缓存），没有配置文件时返回空配置
+ */
+export function getFileConfig(): FileConfig {
+  if (!cachedConfig) {
+    const path = findConfigFile();
+    cachedConfig = { path, config: path ? loadConfigFile(path) : {} };
+  }
+  return cachedConfig.config;
+}
+
+/**
+ * 获取已加载的配置文件路径
+ */
+export function getConfigFilePath(): string | null {
+  getFileConfig();
+  return cachedConfig?.path ?? null;
+}
+
+/**
+ * 清除配置缓存（用于测试或重新加载）
+ */
+export function resetFileConfig(): void {
+  cachedConfig = null;
+}
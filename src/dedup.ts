@@ -0,0 +1,197 @@
+import { Job, JobListing } from './types.js';
+
+/**
+ * 去重配置
+ */
+export interface DedupOptions {
+  similarityThreshold?: number; // 描述相似度阈值（0-1），达到阈值才视为同一职位
+}
+
+/**
+ * 去重结果
+ */
+export interface DedupResult {
+  jobs: Job[];
+  mergedCount: number; // 被合并掉的重复职位数量
+}
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.3;
+
+// 公司名称中常见的法律后缀，比较时忽略
+const COMPANY_SUFFIXES = new Set([
+  'inc',
+  'llc',
+  'ltd',
+  'limited',
+  'corp',
+  'corporation',
+  'co',
+  'company',
+  'gmbh',
+  'ag',
+  'sa',
+  'bv',
+  'plc',
+  'pty',
+]);
+
+// 标题中与职位本身无关的修饰词
+const TITLE_NOISE = new Set(['remote', 'fully', 'worldwide', 'anywhere', 'hiring', 'job']);
+
+/**
+ * 将文本拆分为小写单词
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/<[^>]*>/g, ' ')
+    .split(/[^\p{L}\p{N}+#]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * 标准化公司名称
+ */
+export function normalizeCompany(company: string): string {
+  const tokens = tokenize(company);
+  while (tokens.length > 1 && COMPANY_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+  return tokens.join(' ');
+}
+
+/**
+ * 标准化职位标题
+ * 去掉括号内容、"at 公司" / "@ 公司" 后缀以及远程相关修饰词
+ */
+export function normalizeTitle(title: string): string {
+  const stripped = title.replace(/\([^)]*\)|\[[^\]]*\]/g, ' ').replace(/\s+(?:at|@)\s+.+$/i, ' ');
+
+  return tokenize(stripped)
+    .filter((token) => !TITLE_NOISE.has(token))
+    .join(' ');
+}
+
+/**
+ * 生成职位指纹（标准化公司 + 标准化标题）
+ * 公司未知时返回 null，不参与去重
+ */
+export function fingerprintJob(job: Job): string | null {
+  const company = normalizeCompany(job.company);
+  const title = normalizeTitle(job.title);
+
+  if (!company || company === 'unknown' || !title) {
+    return null;
+  }
+
+  return `${company}|${title}`;
+}
+
+/**
+ * 计算两段描述的相似度（词集合 Jaccard 系数）
+ * 任意一方描述为空时无法判断，视为相似
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const setA = new Set(tokenize(a).filter((token) => token.length > 2));
+  const setB = new Set(tokenize(b).filter((token) => token.length > 2));
+
+  if (setA.size === 0 || setB.size === 0) {
+    return 1;
+  }
+
+  let intersection = 0;
+  for (const token of setA) {
+    if (setB.has(token)) {
+      intersection++;
+    }
+  }
+
+  return intersection / (setA.size + setB.size - intersection);
+}
+
+/**
+ * 获取职位的所有发布信息（未合并的职位只有自身）
+ */
+export function getJobListings(job: Job): JobListing[] {
+  return job.listings && job.listings.length > 0
+    ? job.listings
+    : [{ id: job.id, source: job.source, url: job.url }];
+}
+
+/**
+ * 获取职位在所有数据源上的ID
+ */
+export function getListingIds(job: Job): string[] {
+  return getJobListings(job).map((listing) => listing.id);
+}
+
+/**
+ * 合并同一职位的多个发布
+ * 以描述最完整的发布为主，保留所有数据源的链接
+ */
+function mergeJobs(group: Job[]): Job {
+  const canonical = group.reduce((best, job) =>
+    job.description.length > best.description.length ? job : best
+  );
+
+  const listings: JobListing[] = [];
+  const seen = new Set<string>();
+  for (const job of group) {
+    for (const listing of getJobListings(job)) {
+      if (!seen.has(listing.id)) {
+        seen.add(listing.id);
+        listings.push(listing);
+      }
+    }
+  }
+
+  const earliest = group.reduce(
+    (min, job) => (job.postedAt < min ? job.postedAt : min),
+    canonical.postedAt
+  );
+
+  return {
+    ...canonical,
+    postedAt: earliest,
+    listings,
+  };
+}
+
+/**
+ * 跨数据源去重
+ * 指纹相同且描述相似的职位合并为一个，保持首次出现的顺序
+ */
+export function deduplicateJobs(jobs: Job[], options: DedupOptions = {}): DedupResult {
+  const threshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const groups: Job[][] = [];
+  const groupsByFingerprint = new Map<string, Job[][]>();
+
+  for (const job of jobs) {
+    const fingerprint = fingerprintJob(job);
+    if (!fingerprint) {
+      groups.push([job]);
+      continue;
+    }
+
+    const candidates = groupsByFingerprint.get(fingerprint) || [];
+    const match = candidates.find(
+      (group) => descriptionSimilarity(group[0].description, job.description) >= threshold
+    );
+
+    if (match) {
+      match.push(job);
+    } else {
+      const group = [job];
+      groups.push(group);
+      candidates.push(group);
+      groupsByFingerprint.set(fingerprint, candidates);
+    }
+  }
+
+  return {
+    jobs: groups.map((group) => (group.length === 1 ? group[0] : mergeJobs(group))),
+    mergedCount: jobs.length - groups.length,
+  };
+}
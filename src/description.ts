@@ -0,0 +1,202 @@
+import axios from 'axios';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { DescriptionConfig, getDescriptionConfig, getHttpCacheConfig } from './config.js';
+import { decodeEntities, normalizeDescription } from './html.js';
+import { runWithConcurrency } from './pool.js';
+import { Job } from './types.js';
+
+const DEFAULT_CACHE_PATH = join(process.cwd(), 'data', 'descriptions.json');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 完整描述缓存条目（以职位链接为键）
+ */
+interface CachedDescription {
+  text: string;
+  fetchedAt: string;
+}
+
+type DescriptionCache = Record<string, CachedDescription>;
+
+/**
+ * 获取职位页面 HTML
+ */
+export type PageFetcher = (url: string) => Promise<string>;
+
+/**
+ * 补充完整描述的结果
+ */
+export interface EnrichResult {
+  jobs: Job[];
+  fetched: number; // 本次抓取的页面数
+  cached: number; // 命中缓存的职位数
+  failed: number; // 抓取失败的职位数（保留原描述）
+}
+
+/**
+ * 读取缓存文件，文件不存在或损坏时返回空缓存
+ */
+function loadCache(cachePath: string): DescriptionCache {
+  if (!existsSync(cachePath)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(cachePath, 'utf-8')) as DescriptionCache;
+  } catch (error) {
+    console.warn(`无法读取描述缓存 ${cachePath}:`, error);
+    return {};
+  }
+}
+
+/**
+ * 保存缓存文件，顺带清理过期条目
+ */
+function saveCache(cache: DescriptionCache, cachePath: string, ttlMs: number): void {
+  const now = Date.now();
+  const fresh = Object.fromEntries(
+    Object.entries(cache).filter(([, entry]) => now - Date.parse(entry.fetchedAt) < ttlMs)
+  );
+
+  const dir = dirname(cachePath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(cachePath, JSON.stringify(fresh, null, 2), 'utf-8');
+}
+
+/**
+ * 从 JSON-LD 的 JobPosting 中读取描述
+ */
+function findJsonLdDescription(html: string): string | undefined {
+  const scripts = html.matchAll(
+    /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+  );
+
+  for (const [, content] of scripts) {
+    try {
+      const data = JSON.parse(content.trim());
+      const items: unknown[] = Array.isArray(data) ? data : data['@graph'] || [data];
+      const posting = items.find(
+        (item): item is { description: string } =>
+          typeof item === 'object' &&
+          item !== null &&
+          (item as Record<string, unknown>)['@type'] === 'JobPosting' &&
+          typeof (item as Record<string, unknown>).description === 'string'
+      );
+      if (posting) {
+        return posting.description;
+      }
+    } catch {
+      // 格式错误的 JSON-LD 直接跳过
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 从职位页面中提取正文 HTML
+ * 优先使用 JSON-LD JobPosting 的描述，其次是 <main>、<article> 或 <body>（去掉导航、页眉页脚和侧栏）
+ */
+export function extractMainContent(html: string): string {
+  const posting = findJsonLdDescription(html);
+  if (posting) {
+    // JSON-LD 中的描述常常是转义过的 HTML
+    return /<[a-z][^>]*>/i.test(posting) ? posting : decodeEntities(posting);
+  }
+
+  const cleaned = html
+    .replace(/<(script|style|noscript|svg)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<(nav|header|footer|aside|form)\b[^>]*>[\s\S]*?<\/\1>/gi, '');
+  for (const tag of ['main', 'article', 'body']) {
+    const match = cleaned.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*)</${tag}>`, 'i'));
+    if (match) {
+      return match[1];
+    }
+  }
+
+  return cleaned;
+}
+
+/**
+ * 抓取职位页面
+ */
+async function fetchPage(url: string): Promise<string> {
+  if (getHttpCacheConfig().mode === 'offline') {
+    throw new Error('离线模式下不抓取详情页');
+  }
+
+  const response = await axios.get<string>(url, {
+    proxy: false,
+    headers: {
+      'User-Agent':
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      Accept: 'text/html',
+    },
+    timeout: 15000,
+    responseType: 'text',
+  });
+  return response.data;
+}
+
+/**
+ * 抓取职位页面中的完整描述（纯文本）
+ */
+export async function fetchFullDescription(
+  url: string,
+  fetcher: PageFetcher = fetchPage
+): Promise<string> {
+  return normalizeDescription(extractMainContent(await fetcher(url)));
+}
+
+/**
+ * 为职位补充完整描述
+ * 按链接缓存抓取结果，缓存未过期时不再请求；抓取到的文本比原描述长时才替换
+ */
+export async function enrichDescriptions(
+  jobs: Job[],
+  settings: DescriptionConfig = getDescriptionConfig(),
+  fetcher: PageFetcher = fetchPage,
+  cachePath: string = DEFAULT_CACHE_PATH
+): Promise<EnrichResult> {
+  const result: EnrichResult = { jobs, fetched: 0, cached: 0, failed: 0 };
+  if (jobs.length === 0) {
+    return result;
+  }
+
+  const cache = loadCache(cachePath);
+  const ttlMs = settings.cacheTtlDays * DAY_MS;
+  const now = Date.now();
+
+  result.jobs = await runWithConcurrency(jobs, settings.concurrency, async (job) => {
+    let text: string;
+    const entry = cache[job.url];
+    if (entry && now - Date.parse(entry.fetchedAt) < ttlMs) {
+      result.cached++;
+      text = entry.text;
+    } else {
+      try {
+        text = await fetchFullDescription(job.url, fetcher);
+        cache[job.url] = { text, fetchedAt: new Date().toISOString() };
+        result.fetched++;
+      } catch (error) {
+        result.failed++;
+        console.warn(
+          `无法获取完整描述 ${job.url}:`,
+          error instanceof Error ? error.message : error
+        );
+        return job;
+      }
+    }
+
+    return text.length > job.description.length ? { ...job, description: text } : job;
+  });
+
+  if (result.fetched > 0) {
+    saveCache(cache, cachePath, ttlMs);
+  }
+
+  return result;
+}
@@ -0,0 +1,241 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { DigestConfig, getDigestConfig } from './config.js';
+import { sendDigest } from './notification.js';
+import { DEFAULT_PROFILE_ID } from './profiles.js';
+import { getJobRecord, toAnalyzedJob } from './storage.js';
+import { AnalyzedJob, CandidateProfile, DeliveryMode } from './types.js';
+
+const DEFAULT_QUEUE_PATH = join(process.cwd(), 'data', 'digest.json');
+
+/**
+ * 等待加入摘要的职位
+ */
+export interface DigestEntry {
+  jobId: string;
+  profileId: string;
+  queuedAt: string;
+}
+
+/**
+ * 加载摘要队列，文件不存在或损坏时返回空队列
+ */
+export function loadDigestQueue(queuePath: string = DEFAULT_QUEUE_PATH): DigestEntry[] {
+  if (!existsSync(queuePath)) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(readFileSync(queuePath, 'utf-8')) as DigestEntry[];
+  } catch (error) {
+    console.warn(`无法读取摘要队列 ${queuePath}:`, error);
+    return [];
+  }
+}
+
+/**
+ * 保存摘要队列
+ */
+export function saveDigestQueue(
+  entries: DigestEntry[],
+  queuePath: string = DEFAULT_QUEUE_PATH
+): void {
+  const dir = dirname(queuePath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(queuePath, JSON.stringify(entries, null, 2), 'utf-8');
+}
+
+/**
+ * 将职位加入摘要队列（按 job.profileId 归档），已在队列中时不重复加入
+ */
+export function queueDigestJob(
+  job: AnalyzedJob,
+  queuePath: string = DEFAULT_QUEUE_PATH,
+  now: Date = new Date()
+): void {
+  const profileId = job.profileId || DEFAULT_PROFILE_ID;
+  const entries = loadDigestQueue(queuePath);
+  if (entries.some((entry) => entry.jobId === job.id && entry.profileId === profileId)) {
+    return;
+  }
+
+  saveDigestQueue(
+    [...entries, { jobId: job.id, profileId, queuedAt: now.toISOString() }],
+    queuePath
+  );
+}
+
+/**
+ * 档案的通知方式，未设置时使用全局配置
+ */
+export function getDeliveryMode(
+  profile: CandidateProfile,
+  settings: DigestConfig = getDigestConfig()
+): DeliveryMode {
+  return profile.delivery || settings.mode;
+}
+
+/**
+ * 职位是否立即通知：instant 全部立即通知，digest 全部进入摘要，
+ * hybrid 评分达到 instantMinScore 的立即通知
+ */
+export function shouldNotifyInstantly(
+  job: AnalyzedJob,
+  profile: CandidateProfile,
+  settings: DigestConfig = getDigestConfig()
+): boolean {
+  const mode = getDeliveryMode(profile, settings);
+  return mode === 'instant' || (mode === 'hybrid' && job.score >= settings.instantMinScore);
+}
+
+/**
+ * 指定时区中的日期和时间
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+  };
+}
+
+/**
+ * 将指定时区的本地时间转换为 UTC 时间（按该时刻的时区偏移，考虑夏令时）
+ */
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const target = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (time: number) => {
+    const parts = getZonedParts(new Date(time), timeZone);
+    return (
+      Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) -
+      Math.floor(time / 60000) * 60000
+    );
+  };
+
+  const guess = target - offsetAt(target);
+  return new Date(target - offsetAt(guess));
+}
+
+/**
+ * 最近一次（不晚于 now）的摘要发送时间
+ */
+export function getLastDigestTime(
+  now: Date = new Date(),
+  settings: DigestConfig = getDigestConfig()
+): Date {
+  const [hour, minute] = settings.time.split(':').map(Number);
+  const today = getZonedParts(now, settings.timezone);
+
+  for (let daysBack = 0; ; daysBack++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day - daysBack));
+    if (settings.frequency === 'weekly' && date.getUTCDay() !== settings.weekday) {
+      continue;
+    }
+
+    const slot = zonedTimeToUtc(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      hour,
+      minute,
+      settings.timezone
+    );
+    if (slot.getTime() <= now.getTime()) {
+      return slot;
+    }
+  }
+}
+
+/**
+ * 摘要发送时间对应的 cron 表达式（配合 settings.timezone 使用）
+ */
+export function getDigestCron(settings: DigestConfig = getDigestConfig()): string {
+  const [hour, minute] = settings.time.split(':').map(Number);
+  return `${minute} ${hour} * * ${settings.frequency === 'weekly' ? settings.weekday : '*'}`;
+}
+
+/**
+ * 发送到期的摘要：每个档案在最近一次发送时间之前加入队列的职位合并为一条摘要
+ * 守护模式在发送时间触发，单次运行模式在发送时间之后的第一次运行时补发
+ * 所有渠道都发送失败时保留队列，下次重试；已删除档案的条目直接丢弃
+ * @returns 发送的摘要数
+ */
+export async function sendDueDigests(
+  profiles: CandidateProfile[],
+  now: Date = new Date(),
+  settings: DigestConfig = getDigestConfig(),
+  queuePath: string = DEFAULT_QUEUE_PATH,
+  storagePath?: string
+): Promise<number> {
+  const queue = loadDigestQueue(queuePath);
+  if (queue.length === 0) {
+    return 0;
+  }
+
+  let remaining = queue.filter((entry) =>
+    profiles.some((profile) => profile.id === entry.profileId)
+  );
+  if (remaining.length < queue.length) {
+    console.warn(`丢弃 ${queue.length - remaining.length} 个已删除档案的摘要条目`);
+  }
+
+  const slot = getLastDigestTime(now, settings).getTime();
+  let sent = 0;
+
+  for (const profile of profiles) {
+    const due = remaining.filter(
+      (entry) => entry.profileId === profile.id && Date.parse(entry.queuedAt) < slot
+    );
+    if (due.length === 0) {
+      continue;
+    }
+
+    // 已通过 Telegram 标记为不合适的职位不再发送
+    const jobs = due
+      .map((entry) => {
+        const record = getJobRecord(entry.jobId, storagePath);
+        return record && record.triage?.[profile.id]?.status !== 'dismissed'
+          ? toAnalyzedJob(record, profile.id)
+          : null;
+      })
+      .filter((job): job is AnalyzedJob => job !== null);
+
+    const title = `📬 Job Hunter ${settings.frequency === 'weekly' ? '每周' : '每日'}摘要${profile.id === DEFAULT_PROFILE_ID ? '' : ` · ${profile.name}`}`;
+    const results = await sendDigest(jobs, profile.notify, title);
+    if (results.length > 0 && results.every((result) => !result.ok)) {
+      console.warn(`[${profile.name}] 摘要发送失败，下次重试`);
+      continue;
+    }
+
+    remaining = remaining.filter((entry) => !due.includes(entry));
+    if (jobs.length > 0) {
+      sent++;
+    }
+  }
+
+  saveDigestQueue(remaining, queuePath);
+  return sent;
+}
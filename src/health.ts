@@ -0,0 +1,161 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { HealthConfig, getHealthConfig } from './config.js';
+import { Job, JobSource, SourceHealth, SourceOutcome } from './types.js';
+
+const DEFAULT_HEALTH_PATH = join(process.cwd(), 'data', 'source-health.json');
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * 所有数据源的健康状态（以数据源ID为键）
+ */
+export type HealthState = Record<string, SourceHealth>;
+
+/**
+ * 加载数据源健康状态，文件不存在或损坏时返回空状态
+ */
+export function loadSourceHealth(healthPath: string = DEFAULT_HEALTH_PATH): HealthState {
+  if (!existsSync(healthPath)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(healthPath, 'utf-8')) as HealthState;
+  } catch (error) {
+    console.warn(`无法读取数据源健康状态 ${healthPath}:`, error);
+    return {};
+  }
+}
+
+/**
+ * 保存数据源健康状态
+ */
+export function saveSourceHealth(
+  state: HealthState,
+  healthPath: string = DEFAULT_HEALTH_PATH
+): void {
+  const dir = dirname(healthPath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(healthPath, JSON.stringify(state, null, 2), 'utf-8');
+}
+
+/**
+ * 归类抓取错误：http-<状态码>、timeout、network、parse，其他错误使用错误名称
+ */
+export function classifyError(error: unknown): string {
+  const { code, response } = (error ?? {}) as { code?: string; response?: { status?: number } };
+  if (response?.status) {
+    return `http-${response.status}`;
+  }
+  if (code === 'ECONNABORTED' || code === 'ETIMEDOUT') {
+    return 'timeout';
+  }
+  if (code) {
+    return 'network';
+  }
+  if (error instanceof SyntaxError || (error instanceof Error && /XML|JSON/.test(error.message))) {
+    return 'parse';
+  }
+  return error instanceof Error ? error.name : 'unknown';
+}
+
+/**
+ * 抓取单个数据源并记录结果，失败时返回空列表
+ */
+export async function runSource(
+  source: JobSource
+): Promise<{ jobs: Job[]; outcome: SourceOutcome }> {
+  const startedAt = Date.now();
+  try {
+    const jobs = await source.fetch();
+    return {
+      jobs,
+      outcome: {
+        sourceId: source.id,
+        ok: true,
+        jobs: jobs.length,
+        latencyMs: Date.now() - startedAt,
+      },
+    };
+  } catch (error) {
+    return {
+      jobs: [],
+      outcome: {
+        sourceId: source.id,
+        ok: false,
+        jobs: 0,
+        latencyMs: Date.now() - startedAt,
+        errorClass: classifyError(error),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
+
+/**
+ * 数据源是否处于熔断中
+ * 熔断到期后放行一次；再次失败时重新熔断，成功时恢复
+ */
+export function isCircuitOpen(health: SourceHealth | undefined, now: Date = new Date()): boolean {
+  return Boolean(health?.openUntil && Date.parse(health.openUntil) > now.getTime());
+}
+
+/**
+ * 记录数据源的抓取结果，更新连续失败/空结果次数和熔断状态
+ * 返回需要告警的消息（达到告警阈值、开始熔断或从故障中恢复时），无需告警时返回 null
+ */
+export function recordSourceOutcome(
+  state: HealthState,
+  source: JobSource,
+  outcome: SourceOutcome,
+  settings: HealthConfig = getHealthConfig(),
+  now: Date = new Date()
+): string | null {
+  const previous: SourceHealth = state[source.id] || {
+    consecutiveFailures: 0,
+    consecutiveEmpty: 0,
+  };
+  const timestamp = now.toISOString();
+
+  if (!outcome.ok) {
+    const health: SourceHealth = {
+      ...previous,
+      consecutiveFailures: previous.consecutiveFailures + 1,
+      consecutiveEmpty: 0,
+      lastFailureAt: timestamp,
+      lastError: `${outcome.errorClass}: ${outcome.error}`,
+    };
+    state[source.id] = health;
+
+    if (health.consecutiveFailures >= settings.breakerThreshold) {
+      health.openUntil = new Date(now.getTime() + settings.cooldownHours * HOUR_MS).toISOString();
+      if (health.consecutiveFailures === settings.breakerThreshold) {
+        return `${source.name} 连续失败 ${health.consecutiveFailures} 次（${outcome.errorClass}），暂停 ${settings.cooldownHours} 小时`;
+      }
+      return null;
+    }
+
+    return health.consecutiveFailures === settings.alertThreshold
+      ? `${source.name} 连续失败 ${health.consecutiveFailures} 次（${outcome.errorClass}）`
+      : null;
+  }
+
+  const health: SourceHealth = {
+    ...previous,
+    consecutiveFailures: 0,
+    consecutiveEmpty: outcome.jobs === 0 ? previous.consecutiveEmpty + 1 : 0,
+    lastSuccessAt: timestamp,
+    openUntil: undefined,
+  };
+  state[source.id] = health;
+
+  if (health.consecutiveEmpty === settings.alertThreshold) {
+    return `${source.name} 连续 ${health.consecutiveEmpty} 次没有返回职位`;
+  }
+  if (previous.consecutiveFailures >= settings.alertThreshold) {
+    return `${source.name} 已恢复（此前连续失败 ${previous.consecutiveFailures} 次）`;
+  }
+  return null;
+}
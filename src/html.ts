@@ -0,0 +1,115 @@
+/**
+ * 职位描述的最大长度（字符），超出部分截断
+ */
+export const MAX_DESCRIPTION_LENGTH = 8000;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  bull: '•',
+  middot: '·',
+  times: '×',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+};
+
+// 块级元素：前后换行
+const BLOCK_TAGS =
+  'p|div|section|article|header|footer|main|ul|ol|table|tr|blockquote|pre|dl|dt|dd|figure|hr';
+
+/**
+ * 解码 HTML 实体（命名实体和数字实体），无法识别的实体保持原样
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value =
+        code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      return value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * 将 HTML 转换为纯文本
+ * 解码实体，保留段落、标题（## 标题）和列表（- 项目 / 1. 项目），去掉脚本和样式
+ * RemoteOK 等数据源返回的转义过的 HTML（&lt;p&gt;）会先解码一次
+ */
+export function htmlToText(html: string): string {
+  let text = html;
+  if (!/<[a-z][^>]*>/i.test(text) && /&lt;\/?[a-z][^&]*&gt;/i.test(text)) {
+    text = decodeEntities(text);
+  }
+
+  text = text
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|noscript|svg)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<ol\b[^>]*>([\s\S]*?)<\/ol>/gi, (_, items: string) => {
+      let index = 0;
+      return `\n${items.replace(/<li\b[^>]*>/gi, () => `\n${++index}. `)}\n`;
+    })
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, _level, inner: string) => {
+      return `\n\n## ${inner.replace(/<[^>]*>/g, '').trim()}\n\n`;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(new RegExp(`</?(?:${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n\n')
+    .replace(/<\/?(?:td|th)\b[^>]*>/gi, ' ')
+    .replace(/<\/?[a-z!][^>]*>/gi, '');
+
+  return (
+    decodeEntities(text)
+      .replace(/\r/g, '')
+      .replace(/[ \t\u00a0]+/g, ' ')
+      .split('\n')
+      .map((line) => line.trim())
+      .join('\n')
+      .replace(/^(-|\d+\.)\n+/gm, '$1 ') // 列表项内容在块级元素中时合并到同一行
+      // 同一列表的相邻项之间不空行
+      .replace(/^(- .*)\n\n+(?=- )/gm, '$1\n')
+      .replace(/^(\d+\. .*)\n\n+(?=\d+\. )/gm, '$1\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  );
+}
+
+/**
+ * 截断文本，尽量在单词边界处截断
+ */
+export function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const cut = text.slice(0, maxLength);
+  const boundary = cut.lastIndexOf(' ');
+  return `${boundary > maxLength * 0.8 ? cut.slice(0, boundary) : cut}…`;
+}
+
+/**
+ * 标准化职位描述：HTML 转纯文本并限制长度
+ */
+export function normalizeDescription(
+  html: string,
+  maxLength: number = MAX_DESCRIPTION_LENGTH
+): string {
+  return truncateText(htmlToText(html), maxLength);
+}
@@ -0,0 +1,134 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { HttpCacheConfig, getHttpCacheConfig } from './config.js';
+
+/**
+ * 缓存的响应
+ */
+interface CachedResponse {
+  url: string;
+  status: number;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: string; // 最近一次确认内容有效的时间（200 或 304）
+  data: unknown;
+}
+
+/**
+ * HTTP 响应（与 axios 响应中用到的字段一致）
+ */
+export interface HttpResponse<T> {
+  data: T;
+  status: number;
+  fromCache: boolean; // 内容来自本地缓存（未过期、304 或离线模式）
+}
+
+/**
+ * 缓存文件路径（以 URL 的哈希命名）
+ */
+function cacheFile(url: string, dir: string): string {
+  return join(dir, `${createHash('sha1').update(url).digest('hex')}.json`);
+}
+
+/**
+ * 读取缓存，不存在或损坏时返回 undefined
+ */
+function readCache(url: string, dir: string): CachedResponse | undefined {
+  const path = cacheFile(url, dir);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as CachedResponse;
+  } catch (error) {
+    console.warn(`无法读取 HTTP 缓存 ${path}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * 写入缓存
+ */
+function writeCache(entry: CachedResponse, dir: string): void {
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(cacheFile(entry.url, dir), JSON.stringify(entry), 'utf-8');
+}
+
+/**
+ * 读取响应头（兼容 AxiosHeaders 和普通对象）
+ */
+function getHeader(headers: unknown, name: string): string | undefined {
+  const value = (headers as Record<string, unknown> | undefined)?.[name];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * 带缓存的 GET 请求
+ * 缓存未过期时直接返回；过期后携带 If-None-Match / If-Modified-Since 请求，304 时沿用缓存；
+ * 离线模式只读取缓存，没有缓存时抛出错误。只缓存 2xx 响应
+ */
+export async function httpGet<T = unknown>(
+  url: string,
+  options: AxiosRequestConfig = {},
+  settings: HttpCacheConfig = getHttpCacheConfig()
+): Promise<HttpResponse<T>> {
+  if (settings.mode === 'off') {
+    const response = await axios.get<T>(url, { proxy: false, ...options });
+    return { data: response.data, status: response.status, fromCache: false };
+  }
+
+  const cached = readCache(url, settings.dir);
+  if (settings.mode === 'offline') {
+    if (!cached) {
+      throw new Error(`离线模式下没有缓存: ${url}`);
+    }
+    return { data: cached.data as T, status: cached.status, fromCache: true };
+  }
+
+  if (cached && Date.now() - Date.parse(cached.fetchedAt) < settings.ttlMinutes * 60_000) {
+    return { data: cached.data as T, status: cached.status, fromCache: true };
+  }
+
+  const headers: Record<string, string> = { ...(options.headers as Record<string, string>) };
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified;
+  }
+
+  const validateStatus = options.validateStatus ?? ((status) => status >= 200 && status < 300);
+  const response = await axios.get<T>(url, {
+    proxy: false,
+    ...options,
+    headers,
+    validateStatus: (status) => status === 304 || validateStatus(status),
+  });
+
+  if (response.status === 304 && cached) {
+    writeCache({ ...cached, fetchedAt: new Date().toISOString() }, settings.dir);
+    return { data: cached.data as T, status: cached.status, fromCache: true };
+  }
+
+  const { status } = response;
+  if (status >= 200 && status < 300) {
+    writeCache(
+      {
+        url,
+        status,
+        etag: getHeader(response.headers, 'etag'),
+        lastModified: getHeader(response.headers, 'last-modified'),
+        fetchedAt: new Date().toISOString(),
+        data: response.data,
+      },
+      settings.dir
+    );
+  }
+
+  return { data: response.data, status, fromCache: false };
+}
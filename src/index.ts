@@ -1,22 +1,73 @@
 import { config } from 'dotenv';
 import chalk from 'chalk';
 import { schedule } from 'node-cron';
+import { filterByTime } from './scraper.js';
+import { getEnabledSources, loadSourceModules } from './sources.js';
 import {
-  fetchRemoteOKJobs,
-  fetchWWRJobs,
-  fetchWeb3CareerJobs,
-  fetchHNHiringJobs,
-  fetchJobicyJobs,
-  fetchCryptoJobsListJobs,
-  fetchWorkingNomadsJobs,
-  fetchRemotiveJobs,
-  filterByTime,
-} from './scraper.js';
-import { analyzeJob } from './agent.js';
-import { loadProcessedJobs, saveProcessedJob, isJobProcessed } from './storage.js';
-import { sendNotification } from './notification.js';
-import { filterConfig, getAIConfig } from './config.js';
-import { AnalyzedJob, Job } from './types.js';
+  isCircuitOpen,
+  loadSourceHealth,
+  recordSourceOutcome,
+  runSource,
+  saveSourceHealth,
+} from './health.js';
+import { deduplicateJobs, getJobListings, getListingIds } from './dedup.js';
+import { analyzeJobs } from './agent.js';
+import {
+  loadProcessedJobs,
+  saveProcessedJob,
+  saveAnalyzedJob,
+  recordSeenJobs,
+  migrateLegacyStorage,
+  saveRunRecord,
+  loadPendingJobs,
+  markJobPending,
+  MAX_PENDING_ATTEMPTS,
+  beginStorageBatch,
+  flushStorageBatch,
+} from './storage.js';
+import { isTransientError } from './retry.js';
+import { estimateSavedCalls, prefilterJobs } from './prefilter.js';
+import { formatRelevance, rankJobs, relevanceToScore } from './relevance.js';
+import { applyLocationRules, filterByLocation } from './location.js';
+import { findCompanyNote, screenCompanies } from './companies.js';
+import {
+  applySalaryRules,
+  describeSalary,
+  filterBySalary,
+  getJobSalary,
+  withSalary,
+} from './salary.js';
+import { formatInsights } from './insights.js';
+import { sendAlert, sendNotification } from './notification.js';
+import { loadProfiles, profileAcceptsJob } from './profiles.js';
+import { getConfigFilePath } from './configFile.js';
+import {
+  getFilterConfig,
+  getDedupConfig,
+  getAIConfig,
+  getRelevanceConfig,
+  getDescriptionConfig,
+  getHttpCacheConfig,
+  getBotConfig,
+  getDigestConfig,
+} from './config.js';
+import { createBot, isAgentPaused } from './bot.js';
+import {
+  getDeliveryMode,
+  getDigestCron,
+  queueDigestJob,
+  sendDueDigests,
+  shouldNotifyInstantly,
+} from './digest.js';
+import { enrichDescriptions } from './description.js';
+import {
+  findModelPrice,
+  formatCost,
+  getUsageSummary,
+  isBudgetExceeded,
+  startUsageRun,
+} from './usage.js';
+import { AnalyzedJob, Job, RunRecord, SourceOutcome } from './types.js';
 
 config();
 
@@ -52,103 +103,493 @@ function printJob(job: AnalyzedJob): void {
   );
   console.log(chalk.gray(`Posted: ${formatTimeAgo(job.postedAt)}`));
   console.log(chalk.white(`Why: ${job.reason}`));
+  if (job.companyNote) {
+    console.log(chalk.magenta(`Note: ${job.companyNote}`));
+  }
+  const salary = getJobSalary(job, job.insights);
+  if (salary) {
+    console.log(chalk.white(`Salary: ${describeSalary(salary)}`));
+  }
+  if (job.relevance !== undefined) {
+    console.log(chalk.gray(`Relevance: ${formatRelevance(job.relevance)}`));
+  }
+  for (const line of formatInsights(job.insights)) {
+    console.log(chalk.white(line));
+  }
   console.log(chalk.blue(`Link: ${job.url}`));
+  for (const listing of getJobListings(job).filter((l) => l.id !== job.id)) {
+    console.log(chalk.blue(`Also: ${listing.url} (${listing.source})`));
+  }
   console.log(chalk.cyan('========================================\n'));
 }
 
+/**
+ * 创建分析进度输出
+ * 终端中在同一行刷新，非交互环境（CI）每完成 10% 输出一行
+ */
+function createProgress(label: string, total: number) {
+  const interactive = Boolean(process.stdout.isTTY);
+  let lastPercent = -10;
+
+  return (completed: number, failed: number): void => {
+    const percent = Math.floor((completed / total) * 100);
+    const line = `${label} ${completed}/${total} (${percent}%)${failed > 0 ? `，失败 ${failed}` : ''}`;
+
+    if (interactive) {
+      process.stdout.write(`\r${chalk.dim(line)}${completed === total ? '\n' : ''}`);
+    } else if (percent >= lastPercent + 10 || completed === total) {
+      lastPercent = percent;
+      console.log(chalk.dim(line));
+    }
+  };
+}
+
+/**
+ * 打印本次运行的 token 用量和费用
+ */
+function printUsageSummary(run: RunRecord): void {
+  const { usage } = run;
+  if (usage.calls === 0) {
+    return;
+  }
+
+  console.log(
+    chalk.bold.cyan(
+      `💰 AI 用量: ${usage.calls} 次调用，输入 ${usage.inputTokens} / 输出 ${usage.outputTokens} tokens，约 ${formatCost(usage.cost)}`
+    )
+  );
+  for (const model of usage.models) {
+    const cost = model.cost !== undefined ? formatCost(model.cost) : '价格未知';
+    console.log(
+      chalk.dim(
+        `   ${model.provider}/${model.model}: ${model.calls} 次，${model.inputTokens} / ${model.outputTokens} tokens，${cost}`
+      )
+    );
+  }
+  if (usage.unpricedCalls > 0) {
+    console.log(chalk.yellow(`⚠️ ${usage.unpricedCalls} 次调用的模型不在价格表中，未计入费用`));
+  }
+  if (run.budgetExceeded) {
+    console.log(chalk.yellow(`⚠️ 已达到费用或 token 上限，跳过 ${run.skipped} 次分析`));
+  }
+}
+
 /**
  * 主处理流程
  */
 async function processJobs(): Promise<void> {
   console.log(chalk.bold.blue('\n🚀 开始抓取职位数据...\n'));
 
+  const startedAt = new Date().toISOString();
+  const stats = {
+    fetched: 0,
+    newJobs: 0,
+    prefiltered: 0,
+    shortlistSkipped: 0,
+    locationFiltered: 0,
+    salaryFiltered: 0,
+    companyFiltered: 0,
+    analyzed: 0,
+    failed: 0,
+    skipped: 0,
+    pending: 0,
+    matched: 0,
+  };
+  const relevanceSettings = getRelevanceConfig();
+  const descriptionSettings = getDescriptionConfig();
+  const digestSettings = getDigestConfig();
+  const freeMode = relevanceSettings.mode === 'free';
+  const offline = getHttpCacheConfig().mode === 'offline';
+  let sourceOutcomes: SourceOutcome[] = [];
+  if (freeMode) {
+    startUsageRun();
+  } else {
+    const { budget, tokenBudget } = getAIConfig();
+    startUsageRun({ budget, tokenBudget });
+  }
+  // 本次运行的数据库更新在结束时一次性写入
+  beginStorageBatch();
+
   try {
     // 1. 并行抓取所有数据源
     console.log(chalk.yellow('📡 并行获取所有数据源...'));
 
-    const sources = [
-      { name: 'RemoteOK', fetch: fetchRemoteOKJobs },
-      { name: 'WeWorkRemotely', fetch: fetchWWRJobs },
-      { name: 'Web3.career', fetch: fetchWeb3CareerJobs },
-      { name: 'Hacker News', fetch: fetchHNHiringJobs },
-      { name: 'Jobicy', fetch: fetchJobicyJobs },
-      { name: 'CryptoJobsList', fetch: fetchCryptoJobsListJobs },
-      { name: 'Working Nomads', fetch: fetchWorkingNomadsJobs },
-      { name: 'Remotive', fetch: fetchRemotiveJobs },
-    ];
+    // 熔断中的数据源本次跳过
+    const health = loadSourceHealth();
+    const sources = getEnabledSources().filter((source) => {
+      const open = isCircuitOpen(health[source.id]);
+      if (open) {
+        console.log(
+          chalk.dim(
+            `⏸ ${source.name}: 连续失败，暂停到 ${new Date(health[source.id].openUntil!).toLocaleString()}`
+          )
+        );
+      }
+      return !open;
+    });
 
-    const results = await Promise.allSettled(sources.map((s) => s.fetch()));
+    const results = await Promise.all(sources.map(runSource));
 
     const allJobs: Job[] = [];
-    results.forEach((result, index) => {
-      const sourceName = sources[index].name;
-      if (result.status === 'fulfilled') {
-        console.log(chalk.green(`✓ ${sourceName}: ${result.value.length} 个职位`));
-        allJobs.push(...result.value);
+    const alerts: string[] = [];
+    results.forEach(({ jobs, outcome }, index) => {
+      const source = sources[index];
+      const latency = `${(outcome.latencyMs / 1000).toFixed(1)}s`;
+      if (outcome.ok) {
+        console.log(chalk.green(`✓ ${source.name}: ${jobs.length} 个职位 (${latency})`));
+        allJobs.push(...jobs.map(withSalary));
       } else {
-        console.log(chalk.red(`✗ ${sourceName}: 获取失败`));
+        console.log(chalk.red(`✗ ${source.name}: 获取失败 (${outcome.errorClass}, ${latency})`));
+      }
+
+      // 离线模式重放缓存，不计入健康状态
+      if (!offline) {
+        const alert = recordSourceOutcome(health, source, outcome);
+        if (alert) {
+          alerts.push(alert);
+        }
       }
     });
+    sourceOutcomes = results.map((result) => result.outcome);
 
+    if (!offline) {
+      saveSourceHealth(health);
+    }
+    for (const alert of alerts) {
+      console.log(chalk.bold.red(`🚨 ${alert}`));
+      await sendAlert(alert).catch((error) => console.error(chalk.red('✗ 告警发送失败'), error));
+    }
+
+    stats.fetched = allJobs.length;
     console.log(chalk.bold.cyan(`\n📊 共获取到 ${allJobs.length} 个职位\n`));
     console.log(chalk.yellow(`\n⏰ 过滤24小时内的职位...`));
-    const recentJobs = filterByTime(allJobs, filterConfig.hoursThreshold);
+    const recentJobs = filterByTime(allJobs, getFilterConfig().hoursThreshold);
     console.log(chalk.green(`✓ 剩余 ${recentJobs.length} 个职位`));
 
-    // 3. 去重
+    // 3. 跨数据源去重
+    const { jobs: uniqueJobs, mergedCount } = deduplicateJobs(recentJobs, getDedupConfig());
+    if (mergedCount > 0) {
+      console.log(chalk.green(`✓ 合并 ${mergedCount} 个跨数据源重复职位`));
+    }
+
+    // 4. 检查已处理的职位（任一数据源的发布已处理即视为已处理）
     console.log(chalk.yellow('🔍 检查已处理的职位...'));
-    const processedIds = loadProcessedJobs();
-    const newJobs = recentJobs.filter((job) => !isJobProcessed(job.id));
+    recordSeenJobs(recentJobs);
+    const processedIds = new Set(loadProcessedJobs());
+    const newJobs = uniqueJobs.filter(
+      (job) => !getListingIds(job).some((id) => processedIds.has(id))
+    );
     console.log(chalk.green(`✓ 发现 ${newJobs.length} 个新职位`));
 
+    // 加入上次因临时错误或超出预算未完成分析的职位，只对未完成的档案重新分析
+    const pendingProfiles = new Map<string, string[]>();
+    for (const { job, profileIds } of loadPendingJobs()) {
+      pendingProfiles.set(job.id, profileIds);
+      if (!newJobs.some((newJob) => getListingIds(newJob).includes(job.id))) {
+        newJobs.push(job);
+      }
+    }
+    if (pendingProfiles.size > 0) {
+      console.log(chalk.green(`✓ 重试 ${pendingProfiles.size} 个待分析职位`));
+    }
+    stats.newJobs = newJobs.length;
+
     if (newJobs.length === 0) {
       console.log(chalk.dim('\n✨ 没有新职位，下次再试！\n'));
       return;
     }
 
-    // 4. AI分析
-    console.log(chalk.yellow(`\n🤖 使用AI分析 ${newJobs.length} 个职位...\n`));
-    const analyzedJobs: AnalyzedJob[] = [];
+    // 5. AI分析：每个职位针对每个候选人档案分别评分
+    const profiles = loadProfiles();
+    const matchesByProfile = new Map<string, AnalyzedJob[]>();
+    const retryJobs = new Map<string, { profileIds: string[]; reason: string }>();
+    const holdForRetry = (jobId: string, profileId: string, reason: string) => {
+      const retry = retryJobs.get(jobId) || { profileIds: [], reason };
+      retry.profileIds.push(profileId);
+      retry.reason = reason;
+      retryJobs.set(jobId, retry);
+    };
+
+    for (const profile of profiles) {
+      const candidateJobs = newJobs.filter(
+        (job) =>
+          profileAcceptsJob(profile, job) &&
+          (pendingProfiles.get(job.id)?.includes(profile.id) ?? true)
+      );
+      const matches: AnalyzedJob[] = [];
+      matchesByProfile.set(profile.id, matches);
+
+      // 公司名单：拒绝列表中的公司不调用 LLM，允许列表中的公司跳过后续筛选且总是通知
+      const companies = screenCompanies(candidateJobs, profile.companies);
+      const allowedIds = new Set(companies.allowed.map((job) => job.id));
+      const shouldNotify = (result: AnalyzedJob) =>
+        result.score >= profile.minScore || allowedIds.has(result.id);
+      // 按档案的通知方式立即通知，或加入定时摘要
+      const deliver = async (result: AnalyzedJob) => {
+        if (shouldNotifyInstantly(result, profile, digestSettings)) {
+          await sendNotification(result, profile.notify);
+        } else {
+          queueDigestJob(result);
+        }
+      };
+      if (companies.rejected.length > 0) {
+        stats.companyFiltered += companies.rejected.length;
+        console.log(
+          chalk.green(`✓ [${profile.name}] 拒绝列表排除 ${companies.rejected.length} 个职位`)
+        );
+      }
+
+      // 地区资格：排除候选人所在地区或时区无法申请的职位（action 为 drop 时）
+      const located = filterByLocation(companies.kept, profile);
+      if (located.rejected.length > 0) {
+        stats.locationFiltered += located.rejected.length;
+        console.log(
+          chalk.green(`✓ [${profile.name}] 地区或时区不符排除 ${located.rejected.length} 个职位`)
+        );
+      }
+
+      // 薪资：排除低于档案最低年薪的职位（action 为 drop 时）
+      const paid = filterBySalary(located.kept, profile);
+      if (paid.rejected.length > 0) {
+        stats.salaryFiltered += paid.rejected.length;
+        console.log(
+          chalk.green(`✓ [${profile.name}] 薪资低于要求排除 ${paid.rejected.length} 个职位`)
+        );
+      }
+
+      // 预筛选：按档案规则排除明显不匹配的职位，不调用 LLM
+      const { kept: screened, rejected } = prefilterJobs(paid.kept, profile);
+      const kept = [...companies.allowed, ...screened];
+      if (rejected.length > 0) {
+        stats.prefiltered += rejected.length;
+        const autoScore = profile.prefilter.autoScore;
+        if (autoScore !== undefined) {
+          for (const { job, reason } of rejected) {
+            saveAnalyzedJob({
+              ...job,
+              score: autoScore,
+              reason: `预筛选: ${reason}`,
+              profileId: profile.id,
+            });
+          }
+        }
+        const savedCalls = freeMode
+          ? 0
+          : estimateSavedCalls(paid.kept.length, screened.length, getAIConfig().batchSize);
+        console.log(
+          chalk.green(
+            `✓ [${profile.name}] 预筛选排除 ${rejected.length} 个职位${savedCalls > 0 ? `，节省约 ${savedCalls} 次 AI 调用` : ''}`
+          )
+        );
+      }
+
+      if (kept.length === 0) {
+        continue;
+      }
+
+      // 本地相关度：作为 LLM 评分之外的第二信号，并只把相关度最高的职位交给 LLM
+      const ranked = rankJobs(kept, profile.background);
+      const relevanceById = new Map(ranked.map((item) => [item.job.id, item]));
+      // 补充档案、相关度和公司备注，并按地区资格和薪资调整评分
+      const finalize = (analyzed: AnalyzedJob): AnalyzedJob =>
+        applySalaryRules(
+          applyLocationRules(
+            {
+              ...analyzed,
+              profileId: profile.id,
+              relevance: relevanceById.get(analyzed.id)?.relevance,
+              companyNote: findCompanyNote(analyzed.company, profile.companies.notes),
+            },
+            profile
+          ),
+          profile
+        );
+
+      // 免费模式：直接用相关度评分，不调用 LLM
+      if (freeMode) {
+        for (const job of kept) {
+          const { relevance, matchedTerms } = relevanceById.get(job.id)!;
+          const result = finalize({
+            ...job,
+            score: relevanceToScore(relevance),
+            reason: `本地相关度 ${formatRelevance(relevance)}${matchedTerms.length > 0 ? `，命中: ${matchedTerms.join(', ')}` : ''}`,
+          });
+          stats.analyzed++;
+          saveAnalyzedJob(result);
+          if (shouldNotify(result)) {
+            matches.push(result);
+            await deliver(result);
+          }
+        }
+        continue;
+      }
+
+      // 允许列表中的公司不受相关度限制
+      const shortlist = new Set([
+        ...allowedIds,
+        ...ranked
+          .filter(
+            (item) =>
+              !allowedIds.has(item.job.id) && item.relevance >= relevanceSettings.minRelevance
+          )
+          .slice(0, relevanceSettings.topK ?? ranked.length)
+          .map((item) => item.job.id),
+      ]);
+      let profileJobs = kept.filter((job) => shortlist.has(job.id));
+      if (profileJobs.length < kept.length) {
+        stats.shortlistSkipped += kept.length - profileJobs.length;
+        console.log(
+          chalk.green(
+            `✓ [${profile.name}] 按相关度选出 ${profileJobs.length} 个职位，跳过 ${kept.length - profileJobs.length} 个`
+          )
+        );
+      }
+
+      if (profileJobs.length === 0) {
+        continue;
+      }
+
+      // 入围职位抓取详情页中的完整描述（按链接缓存，多个档案共用）
+      if (descriptionSettings.fetchFull) {
+        const enriched = await enrichDescriptions(profileJobs, descriptionSettings);
+        profileJobs = enriched.jobs;
+        console.log(
+          chalk.green(
+            `✓ [${profile.name}] 完整描述: 抓取 ${enriched.fetched} 个，缓存 ${enriched.cached} 个，失败 ${enriched.failed} 个`
+          )
+        );
+      }
+
+      console.log(
+        chalk.yellow(`\n🤖 [${profile.name}] 使用AI分析 ${profileJobs.length} 个职位...\n`)
+      );
+
+      // 分析结果按完成先后依次保存、过滤并通知，通知串行发送
+      const reportProgress = createProgress(`[${profile.name}] 分析进度`, profileJobs.length);
+      let profileFailed = 0;
+      let notifications: Promise<unknown> = Promise.resolve();
+
+      const outcomes = await analyzeJobs(
+        profileJobs,
+        profile.background,
+        ({ job, analyzed, error, skipped }, completed) => {
+          if (skipped) {
+            stats.skipped++;
+            holdForRetry(job.id, profile.id, '超出费用上限');
+          } else if (analyzed) {
+            stats.analyzed++;
+            const result = finalize(analyzed);
+            saveAnalyzedJob(result);
 
-    for (let i = 0; i < newJobs.length; i++) {
-      const job = newJobs[i];
-      try {
-        console.log(chalk.dim(`[${i + 1}/${newJobs.length}] 分析: ${job.title}...`));
-        const analyzed = await analyzeJob(job);
-        analyzedJobs.push(analyzed);
+            // 6. 达到该档案评分阈值（或在允许列表中）的职位立即通知或加入摘要
+            if (shouldNotify(result)) {
+              notifications = notifications
+                .then(() => deliver(result))
+                .catch((error) => console.error(chalk.red(`✗ 通知失败: ${job.title}`), error));
+            }
+          } else if (isTransientError(error)) {
+            stats.failed++;
+            holdForRetry(
+              job.id,
+              profile.id,
+              error instanceof Error ? error.message : String(error)
+            );
+            profileFailed++;
+            console.error(chalk.yellow(`\n✗ 分析失败，下次运行重试: ${job.title}`));
+          } else {
+            stats.failed++;
+            profileFailed++;
+            console.error(chalk.red(`\n✗ 分析失败: ${job.title}`), error);
+          }
+          reportProgress(completed, profileFailed);
+        }
+      );
+      await notifications;
 
-        // 保存已处理的ID
-        saveProcessedJob(job.id);
-      } catch (error) {
-        console.error(chalk.red(`✗ 分析失败: ${job.title}`), error);
-        // 即使分析失败，也标记为已处理，避免重复尝试
-        saveProcessedJob(job.id);
+      // 按输入顺序收集匹配结果，保证排序稳定
+      for (const { analyzed } of outcomes) {
+        const result = analyzed && finalize(analyzed);
+        if (result && shouldNotify(result)) {
+          matches.push(result);
+        }
       }
     }
 
-    // 5. 过滤高分职位
-    const highScoreJobs = analyzedJobs.filter((job) => job.score >= filterConfig.minScore);
+    // 所有档案分析完毕后，将职位及其他数据源的同一职位标记为已处理
+    // 因临时错误（429、5xx、网络错误）或超出预算未完成的职位留待下次运行，
+    // 其他分析失败的职位也标记为已处理，避免重复尝试
+    for (const job of newJobs) {
+      const retry = retryJobs.get(job.id);
+      if (retry) {
+        const attempts = markJobPending(job.id, retry.profileIds, retry.reason);
+        if (attempts < MAX_PENDING_ATTEMPTS) {
+          stats.pending++;
+          continue;
+        }
+        console.log(chalk.red(`✗ 已重试 ${attempts} 次仍失败，放弃: ${job.title}`));
+      }
+      getListingIds(job).forEach((id) => saveProcessedJob(id));
+    }
+    if (stats.pending > 0) {
+      console.log(chalk.yellow(`⏳ ${stats.pending} 个职位留待下次运行重新分析`));
+    }
 
-    if (highScoreJobs.length === 0) {
-      console.log(chalk.dim('\n✨ 没有评分≥8的职位\n'));
+    // 7. 按档案输出结果（通知已在分析过程中发送）
+    const totalMatches = [...matchesByProfile.values()].reduce((sum, m) => sum + m.length, 0);
+    stats.matched = totalMatches;
+    if (totalMatches === 0) {
+      console.log(chalk.dim('\n✨ 没有达到评分阈值的职位\n'));
       return;
     }
 
-    // 6. 输出结果
-    console.log(chalk.bold.green(`\n🎉 发现 ${highScoreJobs.length} 个高匹配职位！\n`));
+    for (const profile of profiles) {
+      const matches = matchesByProfile.get(profile.id) || [];
+      if (matches.length === 0) {
+        continue;
+      }
 
-    // 按评分排序
-    highScoreJobs.sort((a, b) => b.score - a.score);
+      console.log(
+        chalk.bold.green(`\n🎉 [${profile.name}] 发现 ${matches.length} 个高匹配职位！\n`)
+      );
 
-    for (const job of highScoreJobs) {
-      printJob(job);
-      await sendNotification(job);
+      // 按评分排序（稳定排序，同分时保持输入顺序）
+      matches.sort((a, b) => b.score - a.score);
+
+      for (const job of matches) {
+        printJob(job);
+      }
     }
 
     console.log(chalk.bold.blue('✅ 处理完成！\n'));
   } catch (error) {
     console.error(chalk.red('❌ 处理失败:'), error);
     throw error;
+  } finally {
+    const run: RunRecord = {
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      ...stats,
+      budgetExceeded: isBudgetExceeded(),
+      usage: getUsageSummary(),
+      sources: sourceOutcomes,
+    };
+    printUsageSummary(run);
+    saveRunRecord(run);
+    flushStorageBatch();
+  }
+}
+
+/**
+ * 发送到期的定时摘要
+ */
+async function deliverDigests(): Promise<void> {
+  try {
+    const sent = await sendDueDigests(loadProfiles());
+    if (sent > 0) {
+      console.log(chalk.green(`✓ 已发送 ${sent} 份职位摘要`));
+    }
+  } catch (error) {
+    console.error(chalk.red('❌ 摘要发送失败:'), error);
   }
 }
 
@@ -163,41 +604,157 @@ async function main(): Promise<void> {
   console.log(chalk.bold.cyan('║   AI-Powered Job Hunting Agent    ║'));
   console.log(chalk.bold.cyan('╚════════════════════════════════════╝\n'));
 
-  // 检查环境变量
+  // 检查配置文件
   try {
-    const aiConfig = getAIConfig(); // 验证配置
-    console.log(chalk.dim(`🤖 使用 AI 提供商: ${aiConfig.provider} (模型: ${aiConfig.model})\n`));
+    const configPath = getConfigFilePath();
+    if (configPath) {
+      console.log(chalk.dim(`📄 使用配置文件: ${configPath}\n`));
+    }
   } catch (error) {
-    console.error(chalk.red('❌ 错误: AI API 配置无效'));
-    console.log(
-      chalk.yellow(
-        '请创建 .env 文件并设置 AI_API_KEY 或 DEEPSEEK_API_KEY/OPENAI_API_KEY/ANTHROPIC_API_KEY'
-      )
-    );
-    console.log(chalk.yellow('支持的提供商: deepseek, openai, claude, groq, together, custom'));
+    console.error(chalk.red('❌ 错误: 配置文件无效'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+    }
+    process.exit(1);
+  }
+
+  // 离线模式：只使用缓存的数据源响应，便于复现问题
+  if (process.argv.includes('--offline')) {
+    process.env.HTTP_CACHE = 'offline';
+  }
+
+  // 检查分析模式和 HTTP 缓存模式
+  let freeMode: boolean;
+  try {
+    freeMode = getRelevanceConfig().mode === 'free';
+    getDigestConfig(); // 验证摘要配置
+    if (getHttpCacheConfig().mode === 'offline') {
+      console.log(chalk.dim('📼 离线模式: 只使用缓存的数据源响应\n'));
+    }
+  } catch (error) {
+    console.error(chalk.red(`❌ 错误: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+
+  // 检查环境变量（免费模式不需要 API Key）
+  if (freeMode) {
+    console.log(chalk.dim('🆓 免费模式: 使用本地相关度评分，不调用 AI\n'));
+  } else {
+    try {
+      const aiConfig = getAIConfig(); // 验证配置
+      console.log(chalk.dim(`🤖 使用 AI 提供商: ${aiConfig.provider} (模型: ${aiConfig.model})\n`));
+      if (aiConfig.budget) {
+        console.log(chalk.dim(`💰 每次运行费用上限: ${formatCost(aiConfig.budget)}\n`));
+        if (!findModelPrice(aiConfig.provider, aiConfig.model) && !aiConfig.tokenBudget) {
+          console.log(
+            chalk.yellow(
+              '⚠️ 当前模型不在价格表中，费用上限不会生效，请在配置文件 ai.prices 中设置价格或设置 AI_TOKEN_BUDGET\n'
+            )
+          );
+        }
+      }
+      if (aiConfig.tokenBudget) {
+        console.log(chalk.dim(`💰 每次运行 token 上限: ${aiConfig.tokenBudget}\n`));
+      }
+    } catch (error) {
+      console.error(chalk.red('❌ 错误: AI API 配置无效'));
+      console.log(
+        chalk.yellow(
+          '请创建 .env 文件并设置 AI_API_KEY 或 DEEPSEEK_API_KEY/OPENAI_API_KEY/ANTHROPIC_API_KEY'
+        )
+      );
+      console.log(chalk.yellow('支持的提供商: deepseek, openai, claude, groq, together, custom'));
+      console.log(chalk.yellow('不使用 AI 时可设置 ANALYSIS_MODE=free，仅按本地相关度评分'));
+      if (error instanceof Error) {
+        console.error(chalk.red(`错误详情: ${error.message}`));
+      }
+      process.exit(1);
+    }
+  }
+
+  // 检查候选人档案
+  try {
+    const profiles = loadProfiles();
+    console.log(chalk.dim(`👥 候选人档案: ${profiles.map((p) => p.name).join(', ')}\n`));
+  } catch (error) {
+    console.error(chalk.red('❌ 错误: 候选人档案配置无效'));
     if (error instanceof Error) {
       console.error(chalk.red(`错误详情: ${error.message}`));
     }
     process.exit(1);
   }
 
-  // 执行一次
-  await processJobs();
+  // 导入旧版 processed_jobs.json
+  const migrated = migrateLegacyStorage();
+  if (migrated > 0) {
+    console.log(chalk.dim(`🗄️ 已从 processed_jobs.json 导入 ${migrated} 条记录\n`));
+  }
+
+  // 加载第三方数据源
+  const customSources = await loadSourceModules();
+  if (customSources.length > 0) {
+    console.log(
+      chalk.dim(`📦 已加载自定义数据源: ${customSources.map((s) => s.name).join(', ')}\n`)
+    );
+  }
 
   // 单次运行模式：执行完毕后退出
   if (isOnceMode) {
+    await processJobs();
+    await deliverDigests();
     console.log(chalk.dim('\n🏁 单次运行模式，任务完成，退出程序。'));
     process.exit(0);
   }
 
+  // 守护模式：启动 Telegram 交互机器人
+  if (getBotConfig().enabled) {
+    const botToken = process.env.TELEGRAM_BOT_TOKEN;
+    if (botToken) {
+      void createBot({ botToken, profiles: loadProfiles() }).start();
+      console.log(chalk.dim('💬 Telegram 机器人已启动: /top /today /status /pause /resume\n'));
+    } else {
+      console.log(chalk.yellow('⚠️ 未设置 TELEGRAM_BOT_TOKEN，Telegram 机器人未启动\n'));
+    }
+  }
+
+  // 通过 Telegram /pause 暂停时跳过
+  const runIfActive = async () => {
+    if (isAgentPaused()) {
+      console.log(chalk.yellow('⏸️ 已通过 Telegram 暂停，跳过本次运行'));
+      return;
+    }
+    await processJobs();
+    await deliverDigests();
+  };
+
+  // 执行一次
+  await runIfActive();
+
   // 守护模式：设置定时任务
   const cronSchedule = process.env.CRON_SCHEDULE || '0 */6 * * *';
   console.log(chalk.dim(`\n⏰ 定时任务已设置: ${cronSchedule}`));
   console.log(chalk.dim('按 Ctrl+C 退出\n'));
 
-  schedule(cronSchedule, async () => {
-    await processJobs();
-  });
+  schedule(cronSchedule, runIfActive);
+
+  // 有档案使用摘要时，在配置的时间和时区发送摘要
+  const digestSettings = getDigestConfig();
+  const usesDigest = loadProfiles().some(
+    (profile) => getDeliveryMode(profile, digestSettings) !== 'instant'
+  );
+  if (usesDigest) {
+    const digestCron = getDigestCron(digestSettings);
+    console.log(chalk.dim(`📬 摘要发送时间: ${digestCron} (${digestSettings.timezone})`));
+    schedule(
+      digestCron,
+      async () => {
+        if (!isAgentPaused()) {
+          await deliverDigests();
+        }
+      },
+      { timezone: digestSettings.timezone }
+    );
+  }
 }
 
 // 处理未捕获的错误
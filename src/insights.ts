@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import { JobInsights } from './types.js';
+
+// 单个字段无效时丢弃该字段，不影响评分结果
+const optionalString = z.string().trim().min(1).optional().catch(undefined);
+
+const stringList = z
+  .array(z.string().trim())
+  .transform((items) => items.filter(Boolean))
+  .optional()
+  .catch(undefined);
+
+const salarySchema = z
+  .object({
+    min: z.coerce.number().positive().optional().catch(undefined),
+    max: z.coerce.number().positive().optional().catch(undefined),
+    currency: z
+      .string()
+      .trim()
+      .transform((value) => value.toUpperCase())
+      .pipe(z.string().regex(/^[A-Z]{3}$/)),
+    period: z.enum(['year', 'month', 'hour']).default('year').catch('year'),
+  })
+  .refine((salary) => salary.min !== undefined || salary.max !== undefined)
+  .refine(
+    (salary) => salary.min === undefined || salary.max === undefined || salary.min <= salary.max
+  );
+
+/**
+ * 结构化分析字段 schema（LLM 返回 null 或无效值的字段会被忽略）
+ */
+export const insightsSchema = z.object({
+  seniority: z.enum(['intern', 'junior', 'mid', 'senior', 'lead']).optional().catch(undefined),
+  salary: salarySchema.optional().catch(undefined),
+  remoteType: z.enum(['remote', 'timezone', 'hybrid', 'onsite']).optional().catch(undefined),
+  timezone: optionalString,
+  regions: stringList,
+  techStack: stringList,
+  visaSponsorship: z.boolean().optional().catch(undefined),
+  redFlags: stringList,
+});
+
+/**
+ * 从 LLM 返回的对象中提取结构化字段，没有有效字段时返回 undefined
+ */
+export function parseInsights(raw: Record<string, unknown>): JobInsights | undefined {
+  const cleaned = Object.fromEntries(
+    Object.entries(raw).filter(([, value]) => value !== null && value !== undefined)
+  );
+  const insights = insightsSchema.parse(cleaned);
+  const entries = Object.entries(insights).filter(
+    ([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0)
+  );
+  return entries.length > 0 ? (Object.fromEntries(entries) as JobInsights) : undefined;
+}
+
+/**
+ * 提示词中的结构化字段说明
+ */
+export const INSIGHTS_PROMPT = `同时从职位描述中提取以下字段，描述中没有提到的字段填 null：
+- seniority: 级别，intern / junior / mid / senior / lead
+- salary: 薪资范围 {"min": 数字, "max": 数字, "currency": "USD 等三位货币代码", "period": "year / month / hour"}
+- remoteType: remote（完全远程）/ timezone（远程但限定时区）/ hybrid（混合办公）/ onsite（现场办公）
+- timezone: 限定的时区，例如 "UTC-5 ~ UTC+1"
+- regions: 允许工作的国家或地区列表，不限地区时为空数组
+- techStack: 技术栈列表
+- visaSponsorship: 是否提供签证担保（true / false）
+- redFlags: 值得注意的风险，例如无薪试用、只付股权、职责模糊`;
+
+/**
+ * 结构化字段的 JSON Schema（用于 Anthropic 工具调用）
+ */
+export const insightsJsonSchema: Record<string, unknown> = {
+  seniority: {
+    type: ['string', 'null'],
+    enum: ['intern', 'junior', 'mid', 'senior', 'lead', null],
+  },
+  salary: {
+    type: ['object', 'null'],
+    properties: {
+      min: { type: 'number' },
+      max: { type: 'number' },
+      currency: { type: 'string' },
+      period: { type: 'string', enum: ['year', 'month', 'hour'] },
+    },
+  },
+  remoteType: { type: ['string', 'null'], enum: ['remote', 'timezone', 'hybrid', 'onsite', null] },
+  timezone: { type: ['string', 'null'] },
+  regions: { type: 'array', items: { type: 'string' } },
+  techStack: { type: 'array', items: { type: 'string' } },
+  visaSponsorship: { type: ['boolean', 'null'] },
+  redFlags: { type: 'array', items: { type: 'string' } },
+};
+
+const REMOTE_TYPE_LABELS: Record<NonNullable<JobInsights['remoteType']>, string> = {
+  remote: '完全远程',
+  timezone: '远程（限定时区）',
+  hybrid: '混合办公',
+  onsite: '现场办公',
+};
+
+/**
+ * 将结构化字段格式化为多行文本（用于通知和控制台输出）
+ * 薪资与数据源提供的薪资合并后单独显示，见 salary.ts
+ */
+export function formatInsights(insights?: JobInsights): string[] {
+  if (!insights) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  if (insights.remoteType) {
+    const timezone = insights.timezone ? ` ${insights.timezone}` : '';
+    const regions = insights.regions?.length ? ` (${insights.regions.join(', ')})` : '';
+    lines.push(`🌍 办公: ${REMOTE_TYPE_LABELS[insights.remoteType]}${timezone}${regions}`);
+  } else if (insights.regions?.length) {
+    lines.push(`🌍 地区: ${insights.regions.join(', ')}`);
+  }
+  if (insights.seniority) {
+    lines.push(`📈 级别: ${insights.seniority}`);
+  }
+  if (insights.techStack?.length) {
+    lines.push(`🛠 技术栈: ${insights.techStack.join(', ')}`);
+  }
+  if (insights.visaSponsorship !== undefined) {
+    lines.push(`🛂 签证担保: ${insights.visaSponsorship ? '提供' : '不提供'}`);
+  }
+  if (insights.redFlags?.length) {
+    lines.push(`🚩 注意: ${insights.redFlags.join('；')}`);
+  }
+  return lines;
+}
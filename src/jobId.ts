@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+import { Job, JobSourceId } from './types.js';
+
+// 不影响页面内容的跟踪参数
+const TRACKING_PARAMS = /^(?:utm_\w+|ref|referrer|source|src|fbclid|gclid|mc_cid|mc_eid)$/i;
+
+/**
+ * 生成职位ID所需的信息
+ */
+export interface JobIdParts {
+  nativeId?: string | number | null; // 数据源提供的职位ID
+  url?: string; // 职位详情页链接（数据源未提供时不要传入占位链接）
+  title?: string;
+  company?: string;
+}
+
+/**
+ * 标准化链接：统一 https、去掉 www、锚点、跟踪参数和末尾斜杠，其余查询参数排序
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  if (parsed.protocol === 'http:') {
+    parsed.protocol = 'https:';
+  }
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  parsed.hash = '';
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(key)) {
+      parsed.searchParams.delete(key);
+    }
+  }
+  parsed.searchParams.sort();
+  parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+
+  return parsed.toString().replace(/\/(?=\?|$)/, '');
+}
+
+/**
+ * 生成 64 位（16 个十六进制字符）的哈希，用于没有原生ID的职位
+ */
+export function hashId(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 16);
+}
+
+/**
+ * 生成稳定的职位ID：`${source}-${原生ID}`，没有原生ID时使用标准化链接的哈希，
+ * 连链接也没有时使用标题和公司的哈希。同一职位每次运行得到的ID相同
+ */
+export function createJobId(source: JobSourceId, parts: JobIdParts): string {
+  const nativeId =
+    parts.nativeId !== undefined && parts.nativeId !== null ? `${parts.nativeId}` : '';
+  if (nativeId.trim()) {
+    return `${source}-${nativeId.trim()}`;
+  }
+
+  if (parts.url?.trim()) {
+    return `${source}-${hashId(canonicalizeUrl(parts.url))}`;
+  }
+
+  if (parts.title?.trim()) {
+    const normalize = (text = '') => text.toLowerCase().replace(/\s+/g, ' ').trim();
+    return `${source}-${hashId(`${normalize(parts.title)}|${normalize(parts.company)}`)}`;
+  }
+
+  throw new Error(`无法生成 ${source} 职位ID：缺少原生ID、链接和标题`);
+}
+
+/**
+ * 提取 WWR 链接中的数字职位ID，只匹配完整的数字路径段
+ * （`/remote-jobs/10up-senior-engineer` 中的 10 是公司名的一部分，不是职位ID）
+ */
+export function extractWWRJobNumber(url: string): string | undefined {
+  return url.match(/\/(\d+)(?:[/?#]|$)/)?.[1];
+}
+
+/**
+ * 旧版使用的 32 位字符串哈希，仅用于识别需要迁移的ID
+ */
+function legacyHash(str: string): string {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = (hash << 5) - hash + str.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash).toString(36);
+}
+
+/**
+ * 是否为数据源未提供链接时使用的占位链接（首页、列表页或拼出的 /undefined）
+ */
+function isPlaceholderUrl(url: string): boolean {
+  try {
+    const { pathname } = new URL(url);
+    return /^\/?$|^\/jobs\/?$|\/undefined$/.test(pathname);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * 将旧版ID转换为新ID，稳定的ID保持不变
+ * 旧版会用时间戳、随机数或 32 位哈希生成部分数据源的ID，导致同一职位每次运行ID不同
+ */
+export function migrateJobId(
+  id: string,
+  job: Pick<Job, 'source' | 'url' | 'title' | 'company'>
+): string {
+  const prefix = `${job.source}-`;
+  if (!id.startsWith(prefix)) {
+    return id;
+  }
+
+  const suffix = id.slice(prefix.length);
+  const url = isPlaceholderUrl(job.url) ? undefined : job.url;
+
+  // WWR 链接中没有数字时使用时间戳，Web3.career RSS 使用时间戳加随机小数
+  const wwrNumber = job.source === 'weworkremotely' ? extractWWRJobNumber(job.url) : undefined;
+  const unstable =
+    suffix.includes('.') ||
+    (job.source === 'weworkremotely' && suffix !== wwrNumber) ||
+    suffix === legacyHash(job.url) ||
+    suffix === legacyHash(job.title + job.company) ||
+    suffix === legacyHash(job.title);
+
+  return unstable ? createJobId(job.source, { url, title: job.title, company: job.company }) : id;
+}
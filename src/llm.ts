@@ -0,0 +1,223 @@
+import OpenAI from 'openai';
+import axios from 'axios';
+import { AIConfig, AIProvider } from './config.js';
+
+const DEFAULT_ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * 结构化输出的 JSON Schema
+ */
+export interface OutputSchema {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>; // JSON Schema（type: 'object'）
+}
+
+/**
+ * LLM 请求
+ */
+export interface LLMRequest {
+  system: string;
+  prompt: string;
+  output?: OutputSchema; // 设置后要求模型按 schema 返回 JSON
+}
+
+/**
+ * Token 用量
+ */
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * LLM 响应
+ */
+export interface LLMResponse {
+  content: string; // 文本响应；结构化输出时为 JSON 字符串
+  usage: LLMUsage;
+  model: string;
+}
+
+/**
+ * LLM 服务提供商接口
+ */
+export interface LLMProvider {
+  provider: AIProvider;
+  model: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * 创建 OpenAI 兼容服务的提供商（DeepSeek、OpenAI、Groq、Together、Custom）
+ */
+export function createOpenAICompatibleProvider(aiConfig: AIConfig): LLMProvider {
+  const clientConfig: {
+    apiKey: string;
+    baseURL?: string;
+    maxRetries: number;
+  } = {
+    apiKey: aiConfig.apiKey,
+    maxRetries: 0, // 由 retry.ts 统一重试
+  };
+
+  if (aiConfig.baseURL) {
+    clientConfig.baseURL = aiConfig.baseURL;
+  }
+
+  const client = new OpenAI(clientConfig);
+
+  return {
+    provider: aiConfig.provider,
+    model: aiConfig.model,
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      const completion = await client.chat.completions.create({
+        model: aiConfig.model,
+        messages: [
+          {
+            role: 'system',
+            content: request.system,
+          },
+          {
+            role: 'user',
+            content: request.prompt,
+          },
+        ],
+        temperature: aiConfig.temperature,
+        max_tokens: aiConfig.maxTokens,
+        response_format: { type: 'json_object' },
+      });
+
+      const content = completion.choices[0]?.message?.content || '';
+      if (!content) {
+        throw new Error('AI返回空响应');
+      }
+
+      return {
+        content,
+        usage: {
+          inputTokens: completion.usage?.prompt_tokens ?? 0,
+          outputTokens: completion.usage?.completion_tokens ?? 0,
+        },
+        model: completion.model || aiConfig.model,
+      };
+    },
+  };
+}
+
+/**
+ * Anthropic Messages API 响应内容块
+ */
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; name: string; input: unknown };
+
+/**
+ * 拼接 Anthropic Messages API 地址
+ * baseURL 可以写成 `https://api.anthropic.com` 或 `https://api.anthropic.com/v1`
+ */
+function getAnthropicMessagesURL(baseURL: string = DEFAULT_ANTHROPIC_BASE_URL): string {
+  const trimmed = baseURL.replace(/\/+$/, '');
+  return trimmed.endsWith('/v1') ? `${trimmed}/messages` : `${trimmed}/v1/messages`;
+}
+
+/**
+ * 创建 Anthropic Messages API 提供商
+ * 结构化输出通过强制调用工具实现；没有 schema 时预填充 `{` 让模型直接输出 JSON
+ */
+export function createAnthropicProvider(aiConfig: AIConfig): LLMProvider {
+  const url = getAnthropicMessagesURL(aiConfig.baseURL);
+
+  return {
+    provider: aiConfig.provider,
+    model: aiConfig.model,
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      const prefill = request.output ? '' : '{';
+      const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [
+        { role: 'user', content: request.prompt },
+      ];
+      if (prefill) {
+        messages.push({ role: 'assistant', content: prefill });
+      }
+
+      const body: Record<string, unknown> = {
+        model: aiConfig.model,
+        max_tokens: aiConfig.maxTokens || DEFAULT_MAX_TOKENS,
+        system: request.system,
+        messages,
+        temperature: aiConfig.temperature,
+      };
+
+      if (request.output) {
+        body.tools = [
+          {
+            name: request.output.name,
+            description: request.output.description,
+            input_schema: request.output.schema,
+          },
+        ];
+        body.tool_choice = { type: 'tool', name: request.output.name };
+      }
+
+      const response = await axios.post(url, body, {
+        proxy: false,
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': aiConfig.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        timeout: 60000,
+      });
+
+      const blocks: AnthropicContentBlock[] = response.data?.content || [];
+      let content: string;
+
+      if (request.output) {
+        const toolUse = blocks.find(
+          (block): block is Extract<AnthropicContentBlock, { type: 'tool_use' }> =>
+            block.type === 'tool_use' && block.name === request.output!.name
+        );
+        if (!toolUse) {
+          throw new Error('Claude API 未返回结构化结果');
+        }
+        content = JSON.stringify(toolUse.input);
+      } else {
+        const text = blocks
+          .filter((block): block is Extract<AnthropicContentBlock, { type: 'text' }> => {
+            return block.type === 'text';
+          })
+          .map((block) => block.text)
+          .join('');
+        if (!text) {
+          throw new Error('Claude API 返回空响应');
+        }
+        content = prefill + text;
+      }
+
+      if (response.data?.stop_reason === 'max_tokens') {
+        console.warn(`Claude 响应因 max_tokens 被截断 (${body.max_tokens})`);
+      }
+
+      return {
+        content,
+        usage: {
+          inputTokens: response.data?.usage?.input_tokens ?? 0,
+          outputTokens: response.data?.usage?.output_tokens ?? 0,
+        },
+        model: response.data?.model || aiConfig.model,
+      };
+    },
+  };
+}
+
+/**
+ * 根据 AI 配置创建提供商
+ */
+export function createLLMProvider(aiConfig: AIConfig): LLMProvider {
+  if (aiConfig.provider === 'claude') {
+    return createAnthropicProvider(aiConfig);
+  }
+  return createOpenAICompatibleProvider(aiConfig);
+}
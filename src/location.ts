@@ -0,0 +1,395 @@
+import { AnalyzedJob, CandidateProfile, Job, JobInsights, UserBackground } from './types.js';
+import { PrefilterResult } from './prefilter.js';
+
+/**
+ * 地区定义：别名中含大写字母的按大小写精确匹配（避免把代词 us 当作美国）
+ */
+interface RegionDefinition {
+  aliases: string[];
+  parent?: string; // 上级地区，候选人在子地区时也能申请限定上级地区的职位
+  utcOffset?: number; // 推断候选人时区时使用
+}
+
+const REGIONS: Record<string, RegionDefinition> = {
+  worldwide: { aliases: ['worldwide', 'anywhere', 'global', 'globally', '全球', '不限地区'] },
+  americas: { aliases: ['americas', 'AMER'] },
+  'north-america': { aliases: ['north america'], parent: 'americas' },
+  us: {
+    aliases: ['US', 'USA', 'U.S', 'U.S.A', 'united states', '美国'],
+    parent: 'north-america',
+    utcOffset: -5,
+  },
+  canada: { aliases: ['canada', '加拿大'], parent: 'north-america', utcOffset: -5 },
+  latam: {
+    aliases: ['LATAM', 'latin america', 'south america', '拉美'],
+    parent: 'americas',
+    utcOffset: -3,
+  },
+  brazil: { aliases: ['brazil', '巴西'], parent: 'latam', utcOffset: -3 },
+  mexico: { aliases: ['mexico', '墨西哥'], parent: 'latam', utcOffset: -6 },
+  emea: { aliases: ['EMEA'] },
+  europe: {
+    aliases: ['europe', 'EU', 'EEA', 'european union', '欧洲'],
+    parent: 'emea',
+    utcOffset: 1,
+  },
+  uk: {
+    aliases: ['UK', 'united kingdom', 'great britain', 'england', '英国'],
+    parent: 'europe',
+    utcOffset: 0,
+  },
+  germany: { aliases: ['germany', '德国'], parent: 'europe', utcOffset: 1 },
+  france: { aliases: ['france', '法国'], parent: 'europe', utcOffset: 1 },
+  spain: { aliases: ['spain', '西班牙'], parent: 'europe', utcOffset: 1 },
+  netherlands: { aliases: ['netherlands', '荷兰'], parent: 'europe', utcOffset: 1 },
+  poland: { aliases: ['poland', '波兰'], parent: 'europe', utcOffset: 1 },
+  portugal: { aliases: ['portugal', '葡萄牙'], parent: 'europe', utcOffset: 0 },
+  africa: { aliases: ['africa', '非洲'], parent: 'emea' },
+  apac: { aliases: ['APAC', 'asia pacific', 'asia-pacific', '亚太'] },
+  asia: { aliases: ['asia', '亚洲'], parent: 'apac' },
+  china: { aliases: ['china', 'mainland china', 'PRC', '中国'], parent: 'asia', utcOffset: 8 },
+  'hong-kong': { aliases: ['hong kong', '香港'], parent: 'asia', utcOffset: 8 },
+  taiwan: { aliases: ['taiwan', '台湾'], parent: 'asia', utcOffset: 8 },
+  singapore: { aliases: ['singapore', '新加坡'], parent: 'asia', utcOffset: 8 },
+  japan: { aliases: ['japan', '日本'], parent: 'asia', utcOffset: 9 },
+  india: { aliases: ['india', '印度'], parent: 'asia', utcOffset: 5.5 },
+  australia: { aliases: ['australia', '澳大利亚'], parent: 'apac', utcOffset: 10 },
+  'new-zealand': { aliases: ['new zealand', '新西兰'], parent: 'apac', utcOffset: 12 },
+};
+
+/**
+ * 转义正则特殊字符
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const REGION_PATTERNS = Object.entries(REGIONS).flatMap(([region, { aliases }]) =>
+  aliases.map((alias) => ({
+    region,
+    pattern: new RegExp(
+      `(?<![A-Za-z0-9])${escapeRegExp(alias)}(?![A-Za-z0-9])`,
+      alias === alias.toLowerCase() ? 'gi' : 'g'
+    ),
+  }))
+);
+
+// 引出地区限制的短语，其后到句末的内容视为限定的地区
+const RESTRICTION_TRIGGERS = [
+  /\b(?:must|need to|required to|should)\s+(?:be\s+)?(?:based|located|living|residing|reside)\s+in\b/gi,
+  /\b(?:candidates|applicants)\s+(?:must\s+be\s+)?(?:based|located)\s+in\b/gi,
+  /\b(?:open|available)\s+to\s+(?:candidates|applicants|residents)\s+(?:based\s+|located\s+)?in\b/gi,
+  /\bauthori[sz]ed\s+to\s+work\s+in\b/gi,
+];
+
+// “Remote - US”、“Remote (EU)” 这类写法只有紧跟地区时才视为限制，避免 “Remote - Full time” 误判
+const REMOTE_TRIGGER = /\bremote\s*(?:\(|-|–|,|:|\bin\b)\s*(?:the\s+)?/gi;
+
+// 不带偏移的 UTC / GMT 只在紧邻工作时间段时视为 UTC+0，例如 “9:00-17:00 UTC”
+const TIME = String.raw`\d{1,2}(?::[0-5]\d)?\s*(?:[ap]\.?m\.?)?`;
+const WINDOW = String.raw`${TIME}\s*(?:-|–|to)\s*${TIME}`;
+const UTC_WINDOW_PATTERN = new RegExp(
+  String.raw`\b(?:UTC|GMT)\s*\(?${WINDOW}|${WINDOW}\s*\(?(?:UTC|GMT)\b(?!\s*[+\-−]\s*\d)`,
+  'i'
+);
+
+const WORLDWIDE_PATTERN =
+  /\b(?:work\s+from\s+anywhere|anywhere\s+in\s+the\s+world|remote\s+worldwide|fully\s+remote,?\s+worldwide)\b/i;
+
+// 只检查标题，描述中提到 on-site / hybrid 多为对比说明
+const ONSITE_TITLE_PATTERN = /\b(?:on-?site|in-office|hybrid)\b/i;
+
+// 缩写区分大小写，避免匹配到普通单词（例如西班牙语的 est）
+const TIMEZONE_NAMES: Array<[RegExp, number]> = [
+  [/\bE[SD]T\b|\b[Ee]astern [Tt]ime\b/, -5],
+  [/\bCDT\b|\b[Cc]entral [Tt]ime\b/, -6],
+  [/\bM[SD]T\b|\b[Mm]ountain [Tt]ime\b/, -7],
+  [/\bP[SD]T\b|\b[Pp]acific [Tt]ime\b/, -8],
+  [/\bCES?T\b|\b[Cc]entral [Ee]uropean [Tt]ime\b/, 1],
+  [/\bEES?T\b/, 2],
+  [/\bBST\b|\bWET\b/, 0],
+  [/\bSGT\b|\bHKT\b/, 8],
+  [/\bJST\b/, 9],
+  [/\bAEST\b/, 10],
+];
+
+/**
+ * 职位的地区和时区限制
+ */
+export interface LocationRestriction {
+  worldwide: boolean; // 明确不限地区
+  regions: string[]; // 限定的地区ID，为空表示未提到
+  timezone?: { min: number; max: number }; // 限定的时区范围（UTC 偏移小时数）
+  onsite: boolean; // 需要现场或混合办公
+}
+
+/**
+ * 候选人的地区和时区
+ */
+export interface CandidateLocation {
+  regions: Set<string>; // 候选人所在地区及其上级地区
+  utcOffset?: number;
+  remoteOnly: boolean;
+}
+
+/**
+ * 查找文本中提到的地区，返回去重后的地区ID（按出现顺序）
+ */
+export function findRegions(text: string): string[] {
+  const found: Array<{ region: string; index: number }> = [];
+  for (const { region, pattern } of REGION_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      found.push({ region, index: match.index! });
+    }
+  }
+  found.sort((a, b) => a.index - b.index);
+  return [...new Set(found.map((item) => item.region))];
+}
+
+/**
+ * 文本是否以地区名称开头
+ */
+function startsWithRegion(text: string): boolean {
+  return REGION_PATTERNS.some(({ pattern }) => text.search(pattern) === 0);
+}
+
+/**
+ * 查找 "US only"、"EU-only" 这类限定写法中的地区
+ */
+function findOnlyRegions(text: string): string[] {
+  const regions: string[] = [];
+  for (const { region, pattern } of REGION_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const after = text.slice(match.index! + match[0].length);
+      if (/^[\s-]*only\b/i.test(after)) {
+        regions.push(region);
+      }
+    }
+  }
+  return regions;
+}
+
+/**
+ * 解析文本中提到的时区，返回 UTC 偏移小时数（升序去重）
+ * 支持 UTC+8、GMT-5:30、“9:00-17:00 UTC” 以及 EST、PST、CET 等常见缩写
+ */
+export function parseTimezoneOffsets(text: string): number[] {
+  const offsets: number[] = [];
+  for (const match of text.matchAll(/\b(?:UTC|GMT)\s*([+\-−])\s*(\d{1,2})(?::?([0-5]\d))?/gi)) {
+    const hours = Number(match[2]) + Number(match[3] || 0) / 60;
+    offsets.push(match[1] === '+' ? hours : -hours);
+  }
+  if (UTC_WINDOW_PATTERN.test(text)) {
+    offsets.push(0);
+  }
+  for (const [pattern, offset] of TIMEZONE_NAMES) {
+    if (pattern.test(text)) {
+      offsets.push(offset);
+    }
+  }
+  return [...new Set(offsets)].sort((a, b) => a - b);
+}
+
+/**
+ * 格式化 UTC 偏移
+ */
+function formatOffset(offset: number): string {
+  if (offset === 0) {
+    return 'UTC';
+  }
+  const hours = Math.trunc(Math.abs(offset));
+  const minutes = Math.round((Math.abs(offset) - hours) * 60);
+  return `UTC${offset > 0 ? '+' : '-'}${hours}${minutes > 0 ? `:${minutes}` : ''}`;
+}
+
+/**
+ * 解析职位的地区和时区限制
+ * 依据数据源元数据（job.location）、标题和描述中的限定语，以及 AI 提取的结构化字段
+ */
+export function parseLocationRestriction(job: Job, insights?: JobInsights): LocationRestriction {
+  const regions = new Set<string>();
+  let worldwide = false;
+  const addRegions = (found: string[]) => {
+    for (const region of found) {
+      if (region === 'worldwide') {
+        worldwide = true;
+      } else {
+        regions.add(region);
+      }
+    }
+  };
+
+  // 1. 数据源元数据
+  if (job.location) {
+    addRegions(findRegions(job.location));
+  }
+
+  // 2. 标题和描述中的限定语
+  const text = `${job.title}\n${job.description}`;
+  const clauseAfter = (match: RegExpMatchArray) =>
+    text.slice(match.index! + match[0].length).split(/\.(?=\s|$)|[;\n)]/)[0];
+  for (const trigger of RESTRICTION_TRIGGERS) {
+    for (const match of text.matchAll(trigger)) {
+      addRegions(findRegions(clauseAfter(match)));
+    }
+  }
+  for (const match of text.matchAll(REMOTE_TRIGGER)) {
+    const clause = clauseAfter(match);
+    if (startsWithRegion(clause)) {
+      addRegions(findRegions(clause));
+    }
+  }
+  addRegions(findOnlyRegions(text));
+  if (WORLDWIDE_PATTERN.test(text)) {
+    worldwide = true;
+  }
+  const offsets = parseTimezoneOffsets(`${job.location || ''}\n${text}`);
+  let onsite = ONSITE_TITLE_PATTERN.test(job.title);
+
+  // 3. AI 提取的结构化字段
+  if (insights) {
+    for (const region of insights.regions || []) {
+      addRegions(findRegions(region));
+    }
+    if (insights.timezone) {
+      offsets.push(...parseTimezoneOffsets(insights.timezone));
+    }
+    if (insights.remoteType === 'onsite' || insights.remoteType === 'hybrid') {
+      onsite = true;
+    }
+  }
+
+  return {
+    worldwide,
+    regions: [...regions],
+    timezone:
+      offsets.length > 0 ? { min: Math.min(...offsets), max: Math.max(...offsets) } : undefined,
+    onsite,
+  };
+}
+
+/**
+ * 展开地区及其所有上级地区
+ */
+function withParents(region: string): string[] {
+  const regions: string[] = [];
+  for (let current: string | undefined = region; current; current = REGIONS[current]?.parent) {
+    regions.push(current);
+  }
+  return regions;
+}
+
+/**
+ * 解析候选人的地区和时区
+ * 档案规则中的 regions 可以是地区ID或别名，未设置时根据 background.location 推断
+ */
+export function resolveCandidateLocation(
+  background: UserBackground,
+  rules: CandidateProfile['location']
+): CandidateLocation {
+  const direct = rules.regions?.length
+    ? rules.regions.flatMap((value) => (REGIONS[value] ? [value] : findRegions(value)))
+    : findRegions(background.location);
+  const regions = direct.filter((region) => region !== 'worldwide');
+
+  return {
+    regions: new Set(regions.flatMap(withParents)),
+    utcOffset:
+      rules.utcOffset ??
+      regions.map((region) => REGIONS[region].utcOffset).find((offset) => offset !== undefined),
+    remoteOnly: background.preferences.remoteOnly,
+  };
+}
+
+/**
+ * 检查候选人能否申请该职位，不能时返回原因，无法判断时视为可以申请
+ */
+export function checkLocation(
+  restriction: LocationRestriction,
+  candidate: CandidateLocation,
+  timezoneTolerance: number
+): string | null {
+  if (candidate.remoteOnly && restriction.onsite) {
+    return '需要现场或混合办公';
+  }
+
+  if (
+    !restriction.worldwide &&
+    restriction.regions.length > 0 &&
+    candidate.regions.size > 0 &&
+    !restriction.regions.some((region) => candidate.regions.has(region))
+  ) {
+    return `仅限 ${restriction.regions.join(', ')}`;
+  }
+
+  const { timezone } = restriction;
+  if (
+    timezone &&
+    candidate.utcOffset !== undefined &&
+    (candidate.utcOffset < timezone.min - timezoneTolerance ||
+      candidate.utcOffset > timezone.max + timezoneTolerance)
+  ) {
+    const range =
+      timezone.min === timezone.max
+        ? formatOffset(timezone.min)
+        : `${formatOffset(timezone.min)} ~ ${formatOffset(timezone.max)}`;
+    return `要求 ${range} 时区`;
+  }
+
+  return null;
+}
+
+/**
+ * 检查职位是否对档案开放，不开放时返回原因
+ */
+export function checkJobLocation(
+  job: Job,
+  profile: CandidateProfile,
+  insights?: JobInsights
+): string | null {
+  if (!profile.location.enabled) {
+    return null;
+  }
+
+  return checkLocation(
+    parseLocationRestriction(job, insights),
+    resolveCandidateLocation(profile.background, profile.location),
+    profile.location.timezoneTolerance
+  );
+}
+
+/**
+ * 调用 LLM 前排除地区或时区不符的职位（仅 action 为 drop 时排除）
+ */
+export function filterByLocation(jobs: Job[], profile: CandidateProfile): PrefilterResult {
+  const result: PrefilterResult = { kept: [], rejected: [] };
+
+  for (const job of jobs) {
+    const reason = profile.location.action === 'drop' ? checkJobLocation(job, profile) : null;
+    if (reason) {
+      result.rejected.push({ job, reason });
+    } else {
+      result.kept.push(job);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 根据地区资格调整评分（结合 AI 提取的地区、时区和办公方式）
+ * drop 时评分降为 1，downrank 时扣除 penalty 分，并在理由中注明
+ */
+export function applyLocationRules(job: AnalyzedJob, profile: CandidateProfile): AnalyzedJob {
+  const reason = checkJobLocation(job, profile, job.insights);
+  if (!reason) {
+    return job;
+  }
+
+  const { action, penalty } = profile.location;
+  return {
+    ...job,
+    score: action === 'drop' ? 1 : Math.max(1, job.score - penalty),
+    reason: `${job.reason}（地区不符: ${reason}）`,
+  };
+}
@@ -1,128 +1,107 @@
-import axios from 'axios';
-import { AnalyzedJob } from './types.js';
+import { AnalyzedJob, NotificationTargets } from './types.js';
+import { createNotifiers, formatDigest, Notifier, NotifierSettings } from './notifiers.js';
+import { getDefaultNotificationTargets } from './profiles.js';
 
 /**
- * Telegram 配置
+ * 单个渠道的发送结果
  */
-interface TelegramConfig {
-  botToken: string;
-  chatId: string;
+export interface ChannelResult {
+  channel: string;
+  ok: boolean;
+  error?: string;
 }
 
 /**
- * 获取 Telegram 配置
+ * 向所有渠道并行发送，单个渠道失败不影响其他渠道
  */
-function getTelegramConfig(): TelegramConfig | null {
-  const botToken = process.env.TELEGRAM_BOT_TOKEN;
-  const chatId = process.env.TELEGRAM_CHAT_ID;
-
-  if (!botToken || !chatId) {
-    return null;
-  }
-
-  return { botToken, chatId };
-}
-
-/**
- * 格式化职位信息为 Telegram 消息
- */
-function formatJobMessage(job: AnalyzedJob): string {
-  const scoreEmoji = job.score >= 9 ? '🔥' : job.score >= 8 ? '⭐' : '✨';
-
-  return `${scoreEmoji} *${job.score}/10* | ${job.title}
-
-🏢 公司: ${job.company}
-📝 理由: ${job.reason}
-🔗 链接: ${job.url}
-📍 来源: ${job.source}`;
-}
-
-/**
- * 发送 Telegram 消息
- */
-async function sendTelegramMessage(config: TelegramConfig, message: string): Promise<boolean> {
-  try {
-    const url = `https://api.telegram.org/bot${config.botToken}/sendMessage`;
-
-    await axios.post(
-      url,
-      {
-        chat_id: config.chatId,
-        text: message,
-        parse_mode: 'Markdown',
-        disable_web_page_preview: false,
-      },
-      {
-        proxy: false,
-        timeout: 10000,
+async function fanOut(
+  notifiers: Notifier[],
+  label: string,
+  send: (notifier: Notifier) => Promise<void>
+): Promise<ChannelResult[]> {
+  return Promise.all(
+    notifiers.map(async (notifier) => {
+      try {
+        await send(notifier);
+        console.log(`[${notifier.name}] ✓ 已发送: ${label}`);
+        return { channel: notifier.id, ok: true };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[${notifier.name}] ✗ 发送失败: ${label}`, message);
+        return { channel: notifier.id, ok: false, error: message };
       }
-    );
-
-    return true;
-  } catch (error) {
-    console.error('Telegram 发送失败:', error instanceof Error ? error.message : error);
-    return false;
-  }
+    })
+  );
 }
 
 /**
- * 发送通知
+ * 发送通知到所有已配置的渠道
  * @param job 已分析的职位
+ * @param targets 通知目标（候选人档案的通知配置），未传入时使用环境变量
+ * @returns 各渠道的发送结果
  */
-export async function sendNotification(job: AnalyzedJob): Promise<void> {
+export async function sendNotification(
+  job: AnalyzedJob,
+  targets: NotificationTargets = getDefaultNotificationTargets(),
+  settings?: NotifierSettings
+): Promise<ChannelResult[]> {
   // 控制台输出
   console.log(`[通知] 发现高匹配职位: ${job.title} @ ${job.company} (评分: ${job.score}/10)`);
 
-  // Telegram 通知
-  const telegramConfig = getTelegramConfig();
-  if (telegramConfig) {
-    const message = formatJobMessage(job);
-    const success = await sendTelegramMessage(telegramConfig, message);
-    if (success) {
-      console.log(`[Telegram] ✓ 已发送: ${job.title}`);
-    }
-  }
+  return fanOut(createNotifiers(targets, settings), job.title, (notifier) => notifier.sendJob(job));
 }
 
 /**
- * 批量发送通知
+ * 将多个职位合并为一条按评分分档的摘要发送，避免逐个发送刷屏
  * @param jobs 已分析的职位列表
+ * @param targets 通知目标，未传入时使用环境变量
+ * @param title 摘要标题
+ * @returns 各渠道的发送结果，没有职位时为空
  */
-export async function sendNotifications(jobs: AnalyzedJob[]): Promise<void> {
-  const telegramConfig = getTelegramConfig();
-
-  if (telegramConfig && jobs.length > 0) {
-    // 发送汇总消息
-    const summaryMessage = `🎯 *Job Hunter 发现 ${jobs.length} 个高匹配职位!*
+export async function sendDigest(
+  jobs: AnalyzedJob[],
+  targets: NotificationTargets = getDefaultNotificationTargets(),
+  title: string = '🎯 Job Hunter 职位摘要',
+  settings?: NotifierSettings
+): Promise<ChannelResult[]> {
+  if (jobs.length === 0) {
+    return [];
+  }
 
-${jobs.map((j, i) => `${i + 1}. ${j.title} (${j.score}/10)`).join('\n')}`;
+  console.log(`[通知] 发送摘要: ${jobs.length} 个职位`);
+  return fanOut(createNotifiers(targets, settings), '摘要', (notifier) =>
+    notifier.sendText(formatDigest(jobs, title))
+  );
+}
 
-    await sendTelegramMessage(telegramConfig, summaryMessage);
-  }
+/**
+ * 发送告警（数据源故障等）到环境变量中配置的渠道
+ */
+export async function sendAlert(message: string): Promise<void> {
+  console.log(`[告警] ${message}`);
 
-  // 逐个发送详情
-  for (const job of jobs) {
-    await sendNotification(job);
-    // 避免触发 Telegram 频率限制
-    await new Promise((resolve) => setTimeout(resolve, 500));
-  }
+  const notifiers = createNotifiers(getDefaultNotificationTargets());
+  await fanOut(notifiers, '告警', (notifier) =>
+    notifier.sendText(`⚠️ Job Hunter 告警\n\n${message}`)
+  );
 }
 
 /**
- * 发送测试消息
+ * 向环境变量中配置的所有渠道发送测试消息
+ * @returns 各渠道的发送结果，没有配置任何渠道时为空
  */
-export async function sendTestNotification(): Promise<boolean> {
-  const telegramConfig = getTelegramConfig();
+export async function sendTestNotification(): Promise<ChannelResult[]> {
+  const notifiers = createNotifiers(getDefaultNotificationTargets());
 
-  if (!telegramConfig) {
-    console.log('Telegram 未配置，跳过测试');
-    return false;
+  if (notifiers.length === 0) {
+    console.log('未配置任何通知渠道，跳过测试');
+    return [];
   }
 
-  const testMessage = `🤖 *Job Hunter 测试消息*
+  const testMessage = `🤖 Job Hunter 测试消息
 
-✅ Telegram 通知已成功配置!
+✅ 通知已成功配置!
 ⏰ 时间: ${new Date().toISOString()}`;
 
-  return await sendTelegramMessage(telegramConfig, testMessage);
+  return fanOut(notifiers, '测试消息', (notifier) => notifier.sendText(testMessage));
 }
@@ -0,0 +1,466 @@
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import nodemailer from 'nodemailer';
+import { AnalyzedJob, NotificationTargets } from './types.js';
+import { getJobListings } from './dedup.js';
+import { formatRelevance } from './relevance.js';
+import { formatInsights } from './insights.js';
+import { describeSalary, getJobSalary } from './salary.js';
+import {
+  buildTriageKeyboard,
+  escapeTelegramHtml,
+  sendTelegramMessage,
+  splitTelegramMessage,
+} from './telegram.js';
+
+/**
+ * 通知渠道
+ * 每个渠道负责自己的消息格式，发送失败时抛出错误
+ */
+export interface Notifier {
+  id: string;
+  name: string; // 日志中显示的名称
+  sendJob(job: AnalyzedJob): Promise<void>;
+  sendText(text: string): Promise<void>; // 告警、测试消息等纯文本
+}
+
+/**
+ * SMTP 配置
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // true 时直接使用 TLS（465 端口），否则按服务器支持升级 STARTTLS
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+/**
+ * 通知渠道的全局配置（来自环境变量）
+ */
+export interface NotifierSettings {
+  telegramBotToken?: string;
+  telegramButtons?: boolean; // Telegram 职位消息附带处理按钮（交互机器人运行时）
+  smtp?: SmtpConfig;
+  webhookSecret?: string;
+}
+
+const HTTP_TIMEOUT = 10000;
+const DISCORD_MESSAGE_LIMIT = 2000;
+
+let telegramButtons = false;
+
+/**
+ * 设置 Telegram 职位消息是否附带处理按钮，由交互机器人在启动和停止时调用
+ */
+export function setTelegramButtons(enabled: boolean): void {
+  telegramButtons = enabled;
+}
+
+/**
+ * 从环境变量读取通知渠道配置
+ */
+export function getNotifierSettings(): NotifierSettings {
+  const host = process.env.SMTP_HOST;
+  const port = Number(process.env.SMTP_PORT) || 587;
+
+  return {
+    telegramBotToken: process.env.TELEGRAM_BOT_TOKEN,
+    telegramButtons,
+    smtp: host
+      ? {
+          host,
+          port,
+          secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS,
+          from: process.env.SMTP_FROM || process.env.SMTP_USER || 'jobhacker@localhost',
+        }
+      : undefined,
+    webhookSecret: process.env.WEBHOOK_SECRET,
+  };
+}
+
+/**
+ * 职位的补充信息：公司备注、薪资和结构化分析字段
+ */
+export function formatJobDetails(job: AnalyzedJob): string[] {
+  const salary = getJobSalary(job, job.insights);
+  return [
+    ...(job.companyNote ? [`📌 备注: ${job.companyNote}`] : []),
+    ...(salary ? [`💰 薪资: ${describeSalary(salary)}`] : []),
+    ...formatInsights(job.insights),
+  ];
+}
+
+/**
+ * 评分标记
+ */
+function scoreEmoji(score: number): string {
+  return score >= 9 ? '🔥' : score >= 8 ? '⭐' : '✨';
+}
+
+/**
+ * 相关度说明，未计算时为空
+ */
+function relevanceText(job: AnalyzedJob): string {
+  return job.relevance !== undefined ? ` (相关度 ${formatRelevance(job.relevance)})` : '';
+}
+
+/**
+ * 格式化为 Telegram 消息（HTML），标题、公司、理由等外部文本均已转义
+ */
+export function formatTelegramMessage(job: AnalyzedJob): string {
+  const listings = getJobListings(job);
+
+  return [
+    `${scoreEmoji(job.score)} <b>${job.score}/10</b>${relevanceText(job)} | <b>${escapeTelegramHtml(job.title)}</b>`,
+    '',
+    `🏢 公司: ${escapeTelegramHtml(job.company)}`,
+    `📝 理由: ${escapeTelegramHtml(job.reason)}`,
+    ...formatJobDetails(job).map(escapeTelegramHtml),
+    `🔗 链接: ${escapeTelegramHtml(job.url)}`,
+    ...listings
+      .filter((listing) => listing.id !== job.id)
+      .map((listing) => `🔗 ${listing.source}: ${escapeTelegramHtml(listing.url)}`),
+    `📍 来源: ${listings.map((listing) => listing.source).join(', ')}`,
+  ].join('\n');
+}
+
+/**
+ * 转义 Slack mrkdwn 中的控制字符
+ */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * 转义 Slack `<url|text>` 链接中的地址：`|` 会截断地址，需要百分号编码
+ */
+function escapeSlackUrl(url: string): string {
+  return escapeSlack(url).replace(/\|/g, '%7C');
+}
+
+/**
+ * 格式化为 Slack incoming webhook 消息（Block Kit）
+ */
+export function formatSlackMessage(job: AnalyzedJob): Record<string, unknown> {
+  const listings = getJobListings(job);
+  const lines = [
+    `${scoreEmoji(job.score)} *${job.score}/10*${relevanceText(job)} | *<${escapeSlackUrl(job.url)}|${escapeSlack(job.title)}>*`,
+    `🏢 ${escapeSlack(job.company)}`,
+    `📝 ${escapeSlack(job.reason)}`,
+    ...formatJobDetails(job).map(escapeSlack),
+  ];
+
+  return {
+    text: `${job.score}/10 ${job.title} @ ${job.company}`, // 推送通知中显示的纯文本
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: listings
+              .map((listing) => `<${escapeSlackUrl(listing.url)}|${listing.source}>`)
+              .join(' · '),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * 截断文本以满足 Discord 的长度限制
+ */
+function limit(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * 格式化为 Discord webhook 消息（embed）
+ */
+export function formatDiscordMessage(job: AnalyzedJob): Record<string, unknown> {
+  const listings = getJobListings(job);
+  const color = job.score >= 9 ? 0xe74c3c : job.score >= 8 ? 0xf1c40f : 0x3498db;
+
+  return {
+    embeds: [
+      {
+        title: limit(`${scoreEmoji(job.score)} ${job.score}/10 | ${job.title}`, 256),
+        url: job.url,
+        color,
+        description: limit(
+          [`🏢 ${job.company}`, `📝 ${job.reason}`, ...formatJobDetails(job)].join('\n'),
+          4096
+        ),
+        fields: listings
+          .filter((listing) => listing.id !== job.id)
+          .map((listing) => ({ name: listing.source, value: limit(listing.url, 1024) })),
+        footer: { text: limit(`来源: ${listings.map((l) => l.source).join(', ')}`, 2048) },
+        timestamp: job.postedAt.toISOString(),
+      },
+    ],
+  };
+}
+
+/**
+ * 格式化为通用 webhook 的 JSON 负载
+ */
+export function formatWebhookPayload(job: AnalyzedJob): Record<string, unknown> {
+  return {
+    event: 'job.matched',
+    sentAt: new Date().toISOString(),
+    job: {
+      id: job.id,
+      title: job.title,
+      company: job.company,
+      url: job.url,
+      source: job.source,
+      postedAt: job.postedAt.toISOString(),
+      location: job.location,
+      salary: getJobSalary(job, job.insights),
+      score: job.score,
+      reason: job.reason,
+      relevance: job.relevance,
+      insights: job.insights,
+      companyNote: job.companyNote,
+      profileId: job.profileId,
+      listings: getJobListings(job),
+    },
+  };
+}
+
+/**
+ * 计算 webhook 签名：HMAC-SHA256(`${timestamp}.${body}`)
+ */
+export function signWebhook(body: string, timestamp: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * 转义 HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 格式化为邮件（主题、纯文本和 HTML 正文）
+ */
+export function formatEmail(job: AnalyzedJob): { subject: string; text: string; html: string } {
+  const listings = getJobListings(job);
+  const details = formatJobDetails(job);
+  const lines = [
+    `${job.score}/10${relevanceText(job)} | ${job.title}`,
+    `公司: ${job.company}`,
+    `理由: ${job.reason}`,
+    ...details,
+    ...listings.map((listing) => `${listing.source}: ${listing.url}`),
+  ];
+
+  const html = `<h2><a href="${escapeHtml(job.url)}">${escapeHtml(job.title)}</a></h2>
+<p><strong>${job.score}/10</strong>${escapeHtml(relevanceText(job))} · ${escapeHtml(job.company)}</p>
+<p>${escapeHtml(job.reason)}</p>
+${details.length > 0 ? `<ul>${details.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>` : ''}
+<p>${listings.map((listing) => `<a href="${escapeHtml(listing.url)}">${escapeHtml(listing.source)}</a>`).join(' · ')}</p>`;
+
+  return {
+    subject: `${scoreEmoji(job.score)} ${job.score}/10 ${job.title} @ ${job.company}`,
+    text: lines.join('\n'),
+    html,
+  };
+}
+
+// 摘要中的评分分档（按最低分从高到低）
+const SCORE_BANDS = [
+  { min: 9, label: '🔥 9-10 分' },
+  { min: 8, label: '⭐ 8 分' },
+  { min: 0, label: '✨ 8 分以下' },
+];
+
+/**
+ * 格式化摘要（纯文本）：按评分分档，档内按数据源分组，组内按评分排序
+ */
+export function formatDigest(jobs: AnalyzedJob[], title: string): string {
+  const sections: string[] = [`${title}\n共 ${jobs.length} 个高匹配职位`];
+  const sorted = [...jobs].sort(
+    (a, b) => b.score - a.score || (b.relevance ?? 0) - (a.relevance ?? 0)
+  );
+
+  SCORE_BANDS.forEach((band, index) => {
+    const upper = index > 0 ? SCORE_BANDS[index - 1].min : Infinity;
+    const bandJobs = sorted.filter((job) => job.score >= band.min && job.score < upper);
+    if (bandJobs.length === 0) {
+      return;
+    }
+
+    const bySource = new Map<string, AnalyzedJob[]>();
+    for (const job of bandJobs) {
+      bySource.set(job.source, [...(bySource.get(job.source) || []), job]);
+    }
+
+    const lines = [`${band.label}（${bandJobs.length}）`];
+    for (const [source, sourceJobs] of bySource) {
+      lines.push(`· ${source}`);
+      for (const job of sourceJobs) {
+        lines.push(`  ${job.score}/10 ${job.title} @ ${job.company}`, `  ${job.url}`);
+      }
+    }
+    sections.push(lines.join('\n'));
+  });
+
+  return sections.join('\n\n');
+}
+
+/**
+ * 发送 JSON 请求
+ */
+async function postJson(
+  url: string,
+  payload: unknown,
+  headers: Record<string, string> = {}
+): Promise<void> {
+  await axios.post(url, payload, { proxy: false, timeout: HTTP_TIMEOUT, headers });
+}
+
+/**
+ * Telegram Bot
+ * 长消息自动拆分，HTML 解析失败时改为纯文本重发
+ */
+export function createTelegramNotifier(
+  botToken: string,
+  chatId: string,
+  options: { buttons?: boolean; apiBase?: string } = {}
+): Notifier {
+  const { apiBase } = options;
+
+  return {
+    id: 'telegram',
+    name: 'Telegram',
+    sendJob: (job) =>
+      sendTelegramMessage(botToken, chatId, formatTelegramMessage(job), {
+        html: true,
+        replyMarkup: options.buttons ? buildTriageKeyboard(job) : undefined,
+        apiBase,
+      }),
+    sendText: (text) => sendTelegramMessage(botToken, chatId, text, { apiBase }),
+  };
+}
+
+/**
+ * SMTP 邮件
+ */
+export function createEmailNotifier(smtp: SmtpConfig, to: string[]): Notifier {
+  const transport = nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure,
+    auth: smtp.user ? { user: smtp.user, pass: smtp.pass } : undefined,
+    connectionTimeout: HTTP_TIMEOUT,
+  });
+  const send = async (message: { subject: string; text: string; html?: string }) => {
+    await transport.sendMail({ from: smtp.from, to, ...message });
+  };
+
+  return {
+    id: 'email',
+    name: 'Email',
+    sendJob: (job) => send(formatEmail(job)),
+    sendText: (text) => send({ subject: text.split('\n')[0].slice(0, 100), text }),
+  };
+}
+
+/**
+ * Slack incoming webhook
+ */
+export function createSlackNotifier(webhookUrl: string): Notifier {
+  return {
+    id: 'slack',
+    name: 'Slack',
+    sendJob: (job) => postJson(webhookUrl, formatSlackMessage(job)),
+    sendText: (text) => postJson(webhookUrl, { text: escapeSlack(text) }),
+  };
+}
+
+/**
+ * Discord webhook
+ */
+export function createDiscordNotifier(webhookUrl: string): Notifier {
+  return {
+    id: 'discord',
+    name: 'Discord',
+    sendJob: (job) => postJson(webhookUrl, formatDiscordMessage(job)),
+    // 超长文本（如摘要）按行拆分为多条消息依次发送
+    sendText: async (text) => {
+      for (const chunk of splitTelegramMessage(text, DISCORD_MESSAGE_LIMIT)) {
+        await postJson(webhookUrl, { content: chunk });
+      }
+    },
+  };
+}
+
+/**
+ * 通用 JSON webhook，设置密钥时在 X-JobHacker-Signature 头中附带 HMAC 签名
+ */
+export function createWebhookNotifier(url: string, secret?: string): Notifier {
+  const send = async (payload: unknown) => {
+    const body = JSON.stringify(payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-JobHacker-Timestamp': timestamp,
+    };
+    if (secret) {
+      headers['X-JobHacker-Signature'] = signWebhook(body, timestamp, secret);
+    }
+    // 直接发送序列化后的字符串，保证签名与请求体一致
+    await postJson(url, body, headers);
+  };
+
+  return {
+    id: 'webhook',
+    name: 'Webhook',
+    sendJob: (job) => send(formatWebhookPayload(job)),
+    sendText: (text) => send({ event: 'message', sentAt: new Date().toISOString(), text }),
+  };
+}
+
+/**
+ * 根据通知目标创建已配置的渠道
+ */
+export function createNotifiers(
+  targets: NotificationTargets,
+  settings: NotifierSettings = getNotifierSettings()
+): Notifier[] {
+  const notifiers: Notifier[] = [];
+
+  if (settings.telegramBotToken && targets.telegramChatId) {
+    notifiers.push(
+      createTelegramNotifier(settings.telegramBotToken, targets.telegramChatId, {
+        buttons: settings.telegramButtons,
+      })
+    );
+  }
+  if (settings.smtp && targets.email?.length) {
+    notifiers.push(createEmailNotifier(settings.smtp, targets.email));
+  }
+  if (targets.slackWebhookUrl) {
+    notifiers.push(createSlackNotifier(targets.slackWebhookUrl));
+  }
+  if (targets.discordWebhookUrl) {
+    notifiers.push(createDiscordNotifier(targets.discordWebhookUrl));
+  }
+  if (targets.webhookUrl) {
+    notifiers.push(createWebhookNotifier(targets.webhookUrl, settings.webhookSecret));
+  }
+
+  return notifiers;
+}
@@ -0,0 +1,24 @@
+/**
+ * 以有限的并发数处理任务
+ * 任务按输入顺序领取，结果按输入顺序返回，与完成先后无关。
+ * worker 抛出的错误会使整体失败，需要逐项容错时应在 worker 内部捕获。
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const workerCount = Math.min(Math.max(1, Math.floor(concurrency) || 1), items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: workerCount }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,144 @@
+import { CandidateProfile, Job, PrefilterRules, Seniority } from './types.js';
+import { resolveRubric } from './rubrics.js';
+
+/**
+ * 单个职位的预筛选结果
+ */
+export interface PrefilterDecision {
+  job: Job;
+  reason: string; // 被排除的原因
+}
+
+/**
+ * 预筛选结果
+ */
+export interface PrefilterResult {
+  kept: Job[];
+  rejected: PrefilterDecision[];
+}
+
+const SENIORITY_PATTERNS: Array<[Seniority, RegExp]> = [
+  ['intern', /\b(intern|internship|trainee)\b/i],
+  ['lead', /\b(lead|head of|director|vp|vice president|manager|chief|cto)\b/i],
+  ['senior', /\b(senior|sr\.?|staff|principal)\b/i],
+  ['junior', /\b(junior|jr\.?|entry[- ]level|graduate|associate)\b/i],
+];
+
+/**
+ * 根据标题判断职位级别，没有级别信息时视为 mid
+ */
+export function detectSeniority(title: string): Seniority {
+  for (const [level, pattern] of SENIORITY_PATTERNS) {
+    if (pattern.test(title)) {
+      return level;
+    }
+  }
+  return 'mid';
+}
+
+/**
+ * 转义正则特殊字符
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 查找文本中出现的第一个关键词（不区分大小写，按完整单词匹配，支持 C++、Node.js 等）
+ */
+export function findKeyword(text: string, keywords: string[]): string | undefined {
+  return keywords.find((keyword) =>
+    new RegExp(`(?<![a-z0-9])${escapeRegExp(keyword.trim())}(?![a-z0-9])`, 'i').test(text)
+  );
+}
+
+/**
+ * 获取档案的技能关键词（技能 + 评分模板关键词）
+ */
+function getSkillKeywords(profile: CandidateProfile): string[] {
+  return [...profile.background.skills, ...resolveRubric(profile.background).keywords];
+}
+
+/**
+ * 按档案规则检查单个职位，返回排除原因，通过时返回 null
+ */
+export function checkJob(
+  job: Job,
+  rules: PrefilterRules,
+  skillKeywords: string[] = []
+): string | null {
+  const text = `${job.title}\n${job.description}`;
+
+  const excludedTitle = rules.excludedTitlePatterns?.find((pattern) =>
+    new RegExp(pattern, 'i').test(job.title)
+  );
+  if (excludedTitle) {
+    return `标题匹配排除规则 /${excludedTitle}/`;
+  }
+
+  const excluded = findKeyword(text, rules.excludedKeywords || []);
+  if (excluded) {
+    return `包含排除关键词 "${excluded}"`;
+  }
+
+  if (
+    rules.titlePatterns &&
+    rules.titlePatterns.length > 0 &&
+    !rules.titlePatterns.some((pattern) => new RegExp(pattern, 'i').test(job.title))
+  ) {
+    return '标题不匹配任何规则';
+  }
+
+  if (rules.seniority && rules.seniority.length > 0) {
+    const level = detectSeniority(job.title);
+    if (!rules.seniority.includes(level)) {
+      return `职位级别 ${level} 不在接受范围内`;
+    }
+  }
+
+  if (
+    rules.requiredKeywords &&
+    rules.requiredKeywords.length > 0 &&
+    !findKeyword(text, rules.requiredKeywords)
+  ) {
+    return '不包含必需关键词';
+  }
+
+  if (rules.matchSkills && skillKeywords.length > 0 && !findKeyword(text, skillKeywords)) {
+    return '未提到任何相关技能';
+  }
+
+  return null;
+}
+
+/**
+ * 按档案的预筛选规则拆分职位
+ */
+export function prefilterJobs(jobs: Job[], profile: CandidateProfile): PrefilterResult {
+  const rules = profile.prefilter;
+  if (!rules.enabled) {
+    return { kept: jobs, rejected: [] };
+  }
+
+  const skillKeywords = rules.matchSkills ? getSkillKeywords(profile) : [];
+  const result: PrefilterResult = { kept: [], rejected: [] };
+
+  for (const job of jobs) {
+    const reason = checkJob(job, rules, skillKeywords);
+    if (reason) {
+      result.rejected.push({ job, reason });
+    } else {
+      result.kept.push(job);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 估算预筛选节省的 LLM 调用次数（考虑批量分析）
+ */
+export function estimateSavedCalls(total: number, kept: number, batchSize: number = 1): number {
+  const size = Math.max(1, batchSize);
+  return Math.ceil(total / size) - Math.ceil(kept / size);
+}
@@ -0,0 +1,154 @@
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { CandidateProfile, CompanyRules, Job, NotificationTargets } from './types.js';
+import {
+  getCompanyConfig,
+  getFilterConfig,
+  getLocationConfig,
+  getPrefilterConfig,
+  getSalaryConfig,
+  getUserBackground,
+} from './config.js';
+import { FileProfile, formatIssues, getFileConfig, profileSchema } from './configFile.js';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * 获取档案文件路径
+ */
+function getProfilesPath(): string {
+  return process.env.PROFILES_PATH || join(process.cwd(), 'profiles.json');
+}
+
+/**
+ * 默认通知目标（环境变量 TELEGRAM_CHAT_ID、NOTIFY_EMAIL、SLACK_WEBHOOK_URL、DISCORD_WEBHOOK_URL、WEBHOOK_URL）
+ */
+export function getDefaultNotificationTargets(): NotificationTargets {
+  const email = process.env.NOTIFY_EMAIL?.split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+  return {
+    telegramChatId: process.env.TELEGRAM_CHAT_ID,
+    email: email?.length ? email : undefined,
+    slackWebhookUrl: process.env.SLACK_WEBHOOK_URL || undefined,
+    discordWebhookUrl: process.env.DISCORD_WEBHOOK_URL || undefined,
+    webhookUrl: process.env.WEBHOOK_URL || undefined,
+  };
+}
+
+/**
+ * 默认档案：使用配置中的背景信息和环境变量中的 Telegram Chat ID
+ */
+export function getDefaultProfile(): CandidateProfile {
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: '默认',
+    background: getUserBackground(),
+    minScore: getFilterConfig().minScore,
+    minSalary: getSalaryConfig().minSalary,
+    prefilter: getPrefilterConfig(),
+    location: getLocationConfig(),
+    companies: getCompanyConfig(),
+    notify: getDefaultNotificationTargets(),
+  };
+}
+
+/**
+ * 合并公司名单：档案中的名单追加到全局名单后，备注按公司名称覆盖
+ */
+function mergeCompanyRules(base: CompanyRules, profile: FileProfile['companies']): CompanyRules {
+  return {
+    allow: [...base.allow, ...(profile?.allow || [])],
+    deny: [...base.deny, ...(profile?.deny || [])],
+    notes: { ...base.notes, ...profile?.notes },
+  };
+}
+
+/**
+ * 将校验后的档案补全为 CandidateProfile
+ */
+function toCandidateProfile(profile: FileProfile): CandidateProfile {
+  return {
+    id: profile.id,
+    name: profile.name || profile.id,
+    background: {
+      ...profile.background,
+      location: profile.background.location || getUserBackground().location,
+    },
+    minScore: profile.minScore ?? getFilterConfig().minScore,
+    minSalary: profile.minSalary ?? getSalaryConfig().minSalary,
+    sources: profile.sources,
+    prefilter: { ...getPrefilterConfig(), ...profile.prefilter },
+    location: { ...getLocationConfig(), ...profile.location },
+    companies: mergeCompanyRules(getCompanyConfig(), profile.companies),
+    notify: profile.notify,
+    delivery: profile.delivery,
+  };
+}
+
+/**
+ * 从独立的档案文件读取档案（数组或 `{ profiles: [...] }`）
+ */
+function readProfilesFile(profilesPath: string): FileProfile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(profilesPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `无法读取档案文件 ${profilesPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const rawProfiles = Array.isArray(data) ? data : (data as { profiles?: unknown })?.profiles;
+  const result = z.array(profileSchema).min(1).safeParse(rawProfiles);
+  if (!result.success) {
+    throw new Error(
+      `档案文件 ${profilesPath} 无效:\n${formatIssues(result.error)
+        .map((issue) => `  - profiles.${issue}`)
+        .join('\n')}`
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * 加载候选人档案
+ * 优先使用配置文件中的 profiles，其次是独立的档案文件（PROFILES_PATH，默认 ./profiles.json），
+ * 都没有时只使用默认档案
+ */
+export function loadProfiles(profilesPath: string = getProfilesPath()): CandidateProfile[] {
+  let rawProfiles = getFileConfig().profiles;
+
+  if (!rawProfiles) {
+    if (!existsSync(profilesPath)) {
+      return [getDefaultProfile()];
+    }
+    rawProfiles = readProfilesFile(profilesPath);
+  }
+
+  const profiles = rawProfiles.map(toCandidateProfile);
+  const ids = new Set<string>();
+  for (const profile of profiles) {
+    if (ids.has(profile.id)) {
+      throw new Error(`档案ID重复: ${profile.id}`);
+    }
+    ids.add(profile.id);
+  }
+
+  return profiles;
+}
+
+/**
+ * 检查档案是否接收该职位的数据源
+ */
+export function profileAcceptsJob(profile: CandidateProfile, job: Job): boolean {
+  if (!profile.sources || profile.sources.length === 0) {
+    return true;
+  }
+
+  const sources = job.listings ? job.listings.map((listing) => listing.source) : [job.source];
+  return sources.some((source) => profile.sources!.includes(source));
+}
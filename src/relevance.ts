@@ -0,0 +1,142 @@
+import { Job, UserBackground } from './types.js';
+import { resolveRubric } from './rubrics.js';
+
+const STOPWORDS = new Set([
+  ...'a an and are as at be by for from has have in is it of on or'.split(' '),
+  ...'our that the this to we will with you your'.split(' '),
+]);
+
+/**
+ * 职位相关度
+ */
+export interface JobRelevance {
+  job: Job;
+  relevance: number; // 0-1，职位描述与候选人背景的 TF-IDF 余弦相似度
+  matchedTerms: string[]; // 贡献最大的共同词
+}
+
+/**
+ * 分词：转小写，保留 c++、c#、node.js 等技术词
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*/g) || [])
+    .map((token) => token.replace(/\.+$/, ''))
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * 构建候选人背景的查询文本（技能、评分模板关键词、行业偏好）
+ * 技能和关键词重复两次以提高权重
+ */
+export function buildBackgroundQuery(background: UserBackground): string {
+  const rubric = resolveRubric(background);
+  const terms = [...background.skills, ...rubric.keywords];
+  return [
+    ...terms,
+    ...terms,
+    rubric.role,
+    ...background.preferences.industries,
+    background.experience,
+  ].join(' ');
+}
+
+/**
+ * 统计词频
+ */
+function termFrequency(tokens: string[]): Map<string, number> {
+  const tf = new Map<string, number>();
+  for (const token of tokens) {
+    tf.set(token, (tf.get(token) || 0) + 1);
+  }
+  return tf;
+}
+
+/**
+ * 计算 TF-IDF 向量（对数词频）
+ */
+function toVector(tf: Map<string, number>, idf: Map<string, number>): Map<string, number> {
+  const vector = new Map<string, number>();
+  for (const [term, count] of tf) {
+    vector.set(term, (1 + Math.log(count)) * (idf.get(term) || 0));
+  }
+  return vector;
+}
+
+/**
+ * 向量长度
+ */
+function norm(vector: Map<string, number>): number {
+  let sum = 0;
+  for (const value of vector.values()) {
+    sum += value * value;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * 计算每个职位与候选人背景的相关度，按相关度倒序返回（同分保持输入顺序）
+ * IDF 基于本次的职位集合计算，所有职位都出现的词权重较低
+ */
+export function rankJobs(jobs: Job[], background: UserBackground): JobRelevance[] {
+  const docs = jobs.map((job) =>
+    termFrequency(tokenize(`${job.title} ${job.title} ${job.description}`))
+  );
+  const query = termFrequency(tokenize(buildBackgroundQuery(background)));
+
+  // 文档频率（查询也计入，避免只在查询中出现的词 IDF 无穷大）
+  const df = new Map<string, number>();
+  for (const tf of [...docs, query]) {
+    for (const term of tf.keys()) {
+      df.set(term, (df.get(term) || 0) + 1);
+    }
+  }
+  const total = docs.length + 1;
+  const idf = new Map<string, number>();
+  for (const [term, count] of df) {
+    idf.set(term, Math.log(1 + total / count));
+  }
+
+  const queryVector = toVector(query, idf);
+  const queryNorm = norm(queryVector);
+
+  const ranked = jobs.map((job, index) => {
+    const vector = toVector(docs[index], idf);
+    const contributions: Array<[string, number]> = [];
+    let dot = 0;
+
+    for (const [term, weight] of vector) {
+      const queryWeight = queryVector.get(term);
+      if (queryWeight) {
+        dot += weight * queryWeight;
+        contributions.push([term, weight * queryWeight]);
+      }
+    }
+
+    const denominator = norm(vector) * queryNorm;
+    contributions.sort((a, b) => b[1] - a[1]);
+
+    return {
+      job,
+      relevance: denominator > 0 ? dot / denominator : 0,
+      matchedTerms: contributions.slice(0, 5).map(([term]) => term),
+    };
+  });
+
+  return ranked.sort((a, b) => b.relevance - a.relevance);
+}
+
+/**
+ * 将相关度换算为 1-10 分（免费模式使用）
+ * 余弦相似度通常不会接近 1，达到 saturation 即视为满分
+ */
+export function relevanceToScore(relevance: number, saturation: number = 0.4): number {
+  const ratio = Math.min(1, Math.max(0, relevance) / saturation);
+  return Math.max(1, Math.min(10, Math.round(1 + ratio * 9)));
+}
+
+/**
+ * 格式化相关度
+ */
+export function formatRelevance(relevance: number): string {
+  return relevance.toFixed(2);
+}
@@ -0,0 +1,211 @@
+const TRANSIENT_STATUS = new Set([408, 409, 425, 429]);
+const TRANSIENT_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+]);
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/**
+ * 重试选项
+ */
+export interface RetryOptions {
+  retries: number; // 最大重试次数（不含首次调用）
+  baseDelayMs?: number; // 首次重试的基础等待时间，之后按指数增长
+  maxDelayMs?: number;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * 错误对象中可能包含的 HTTP 信息（兼容 axios 和 OpenAI SDK）
+ */
+interface HttpLikeError {
+  status?: number;
+  code?: string;
+  headers?: unknown;
+  response?: { status?: number; headers?: unknown };
+}
+
+/**
+ * 等待指定毫秒数
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 读取响应头（兼容普通对象和 Headers 实例）
+ */
+function getHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * 获取错误对应的 HTTP 状态码
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const err = error as HttpLikeError | undefined;
+  return err?.status ?? err?.response?.status;
+}
+
+/**
+ * 判断错误是否为临时性错误（429、5xx、超时和网络错误），值得重试
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return TRANSIENT_STATUS.has(status) || status >= 500;
+  }
+
+  const err = error as HttpLikeError & { name?: string };
+  if (err.code && TRANSIENT_CODES.has(err.code)) {
+    return true;
+  }
+
+  // OpenAI SDK 的网络错误没有状态码
+  return err.name === 'APIConnectionError' || err.name === 'APIConnectionTimeoutError';
+}
+
+/**
+ * 从 Retry-After（秒数或 HTTP 日期）或 retry-after-ms 响应头读取等待时间
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  const err = error as HttpLikeError | undefined;
+  const headers = err?.headers ?? err?.response?.headers;
+
+  const retryAfterMs = Number(getHeader(headers, 'retry-after-ms'));
+  if (retryAfterMs > 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = getHeader(headers, 'retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * 计算第 attempt 次重试前的等待时间
+ * 优先使用服务端的 Retry-After，否则使用带随机抖动的指数退避
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  baseDelayMs: number = 1000,
+  maxDelayMs: number = 30_000
+): number {
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, MAX_RETRY_AFTER_MS);
+  }
+
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + (Math.random() * exponential) / 2);
+}
+
+/**
+ * 执行函数，遇到临时性错误时按退避策略重试
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const wait = options.sleep || sleep;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt > options.retries || !isTransientError(error)) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(error, attempt, options.baseDelayMs, options.maxDelayMs);
+      options.onRetry?.(error, attempt, delayMs);
+      await wait(delayMs);
+    }
+  }
+}
+
+/**
+ * 速率限制器
+ */
+export interface RateLimiter {
+  acquire(): Promise<void>;
+}
+
+/**
+ * 创建每分钟请求数限制器（滑动窗口）
+ */
+export function createRateLimiter(
+  requestsPerMinute: number,
+  wait: (ms: number) => Promise<void> = sleep,
+  now: () => number = Date.now
+): RateLimiter {
+  const windowMs = 60_000;
+  const timestamps: number[] = [];
+  let queue: Promise<void> = Promise.resolve();
+
+  const take = async (): Promise<void> => {
+    for (;;) {
+      const current = now();
+      while (timestamps.length > 0 && timestamps[0] <= current - windowMs) {
+        timestamps.shift();
+      }
+      if (timestamps.length < requestsPerMinute) {
+        timestamps.push(current);
+        return;
+      }
+      await wait(timestamps[0] + windowMs - current);
+    }
+  };
+
+  return {
+    acquire(): Promise<void> {
+      // 串行排队，保证并发调用时按顺序获取额度
+      const next = queue.then(take);
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+}
+
+const rateLimiters = new Map<string, { rpm: number; limiter: RateLimiter }>();
+
+/**
+ * 获取提供商共享的速率限制器，未设置 rpm 时不限制
+ */
+export function getRateLimiter(provider: string, rpm?: number): RateLimiter | null {
+  if (!rpm || rpm <= 0) {
+    return null;
+  }
+
+  const existing = rateLimiters.get(provider);
+  if (existing && existing.rpm === rpm) {
+    return existing.limiter;
+  }
+
+  const limiter = createRateLimiter(rpm);
+  rateLimiters.set(provider, { rpm, limiter });
+  return limiter;
+}
@@ -0,0 +1,152 @@
+import { ScoringRubric, UserBackground } from './types.js';
+
+const NON_TECH_ROLES = '完全不是开发岗位（销售、市场、运营、客服等）';
+
+/**
+ * 预设评分模板
+ */
+export const rubricPresets: Record<string, ScoringRubric> = {
+  frontend: {
+    role: '前端开发',
+    keywords: [
+      'Frontend',
+      'React',
+      'Vue',
+      'Angular',
+      'Next.js',
+      'Nuxt',
+      'TypeScript',
+      'JavaScript',
+      'CSS',
+      'HTML',
+      'UI',
+      'Web Developer',
+    ],
+    adjacent: '全栈或后端为主的职位',
+    unrelated: NON_TECH_ROLES,
+  },
+  backend: {
+    role: '后端开发',
+    keywords: [
+      'Backend',
+      'Server',
+      'API',
+      'Node.js',
+      'Go',
+      'Java',
+      'Python',
+      'Rust',
+      'Microservices',
+      'Database',
+      'Distributed Systems',
+    ],
+    adjacent: '全栈、DevOps/SRE 或前端为主的职位',
+    unrelated: NON_TECH_ROLES,
+  },
+  data: {
+    role: '数据/机器学习',
+    keywords: [
+      'Data Engineer',
+      'Data Scientist',
+      'Machine Learning',
+      'ML',
+      'AI',
+      'Analytics',
+      'SQL',
+      'Spark',
+      'Airflow',
+      'dbt',
+      'Python',
+      'LLM',
+    ],
+    adjacent: '偏通用后端或 BI 报表为主的职位',
+    unrelated: NON_TECH_ROLES,
+  },
+  design: {
+    role: '设计',
+    keywords: [
+      'Product Designer',
+      'UI Designer',
+      'UX',
+      'Figma',
+      'Design System',
+      'Visual Design',
+      'Interaction Design',
+      'User Research',
+    ],
+    adjacent: '偏品牌/营销设计或需要大量编码的前端职位',
+    unrelated: '完全不是设计岗位（销售、运营、纯后端开发等）',
+  },
+};
+
+/**
+ * 根据背景信息确定评分模板
+ * 依次使用：自定义模板 → 预设模板ID → 基于技能生成的通用模板
+ */
+export function resolveRubric(background: UserBackground): ScoringRubric {
+  if (background.rubric && typeof background.rubric === 'object') {
+    return background.rubric;
+  }
+
+  if (typeof background.rubric === 'string') {
+    const preset = rubricPresets[background.rubric];
+    if (!preset) {
+      throw new Error(
+        `未知的评分模板: ${background.rubric}，可选值: ${Object.keys(rubricPresets).join(', ')}`
+      );
+    }
+    return preset;
+  }
+
+  return {
+    role: '与候选人技能匹配的',
+    keywords: background.skills,
+    adjacent: '只用到部分候选人技能的职位',
+    unrelated: '与候选人技能完全无关的职位',
+  };
+}
+
+/**
+ * 渲染候选人背景和需求
+ */
+export function renderCandidateSection(background: UserBackground): string {
+  const rubric = resolveRubric(background);
+  const remoteRequirement = background.preferences.remoteOnly
+    ? '支持远程工作'
+    : `远程或可在${background.location}工作`;
+  const industries = background.preferences.industries;
+
+  return `候选人背景：
+- 经验：${background.experience}
+- 技能：${background.skills.join(', ')}
+- 所在地：${background.location}${industries.length > 0 ? `\n- 偏好行业：${industries.join(', ')}` : ''}
+
+候选人需求：
+1. ${rubric.role}相关职位（${rubric.keywords.join(', ')} 等）
+2. ${remoteRequirement}`;
+}
+
+/**
+ * 渲染评分标准
+ */
+export function renderScoringRubric(background: UserBackground): string {
+  const rubric = resolveRubric(background);
+  const remote = background.preferences.remoteOnly ? '支持远程' : '远程或地点合适';
+  const industries = background.preferences.industries;
+
+  const notes = [
+    `只要职位标题或描述包含${rubric.role}相关关键词（${rubric.keywords.join(', ')}），且${remote}，就给 8 分以上！`,
+    `职位要求的技能与候选人技能（${background.skills.join(', ')}）重合越多，分数越高`,
+    ...(industries.length > 0 ? [`${industries.join('、')} 行业的职位可以适当加分`] : []),
+    ...(rubric.notes || []),
+  ];
+
+  return `评分标准（关键规则）：
+- 8-10: 是${rubric.role}相关职位 + ${remote} → 直接给高分
+- 6-7: 是${rubric.role}相关但不确定是否${remote}
+- 4-5: ${rubric.adjacent}
+- 1-3: ${rubric.unrelated}
+
+注意：
+${notes.map((note) => `- ${note}`).join('\n')}`;
+}
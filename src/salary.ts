@@ -0,0 +1,283 @@
+import { getSalaryConfig } from './config.js';
+import { getFileConfig } from './configFile.js';
+import { PrefilterResult } from './prefilter.js';
+import {
+  AnalyzedJob,
+  CandidateProfile,
+  Job,
+  JobInsights,
+  SalaryRange,
+  SalaryRules,
+} from './types.js';
+
+/**
+ * 汇率表：货币代码 → 1 单位折合多少美元
+ */
+export type ExchangeRates = Record<string, number>;
+
+/**
+ * 内置汇率（近似值，离线可用，可在配置文件 salary.rates 中覆盖）
+ */
+export const defaultExchangeRates: ExchangeRates = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  CHF: 1.13,
+  CAD: 0.73,
+  AUD: 0.66,
+  NZD: 0.6,
+  SGD: 0.74,
+  HKD: 0.128,
+  CNY: 0.14,
+  JPY: 0.0067,
+  INR: 0.012,
+  BRL: 0.18,
+  MXN: 0.055,
+  PLN: 0.25,
+  SEK: 0.095,
+};
+
+/**
+ * 获取汇率表（配置文件 salary.rates 中的条目覆盖内置汇率）
+ */
+export function getExchangeRates(): ExchangeRates {
+  return { ...defaultExchangeRates, ...getFileConfig().salary?.rates };
+}
+
+// 每年工作小时数和月数，用于换算年薪
+const HOURS_PER_YEAR = 2080;
+const MONTHS_PER_YEAR = 12;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  CA$: 'CAD',
+  C$: 'CAD',
+  AU$: 'AUD',
+  A$: 'AUD',
+  US$: 'USD',
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+};
+
+const SYMBOL = String.raw`(?:CA|C|AU|A|US)?\$|€|£`;
+const CODE = String.raw`\b(?:${Object.keys(defaultExchangeRates).join('|')})\b`;
+const AMOUNT = String.raw`(\d{1,3}(?:[,.]\d{3})+|\d+(?:\.\d+)?)\s*([kK])?`;
+
+// 分组：1 前置货币，2-3 最低金额，4-5 最高金额，6 后置货币代码
+const SALARY_PATTERN = new RegExp(
+  String.raw`(${SYMBOL}|${CODE})?\s*${AMOUNT}(?:\s*(?:-|–|—|to)\s*(?:${SYMBOL}|${CODE})?\s*${AMOUNT})?(?:\s*(${CODE}))?`,
+  'g'
+);
+
+// 金额前出现这些词时视为薪资（同一句内）
+const SALARY_KEYWORD_PATTERN =
+  /(?:\b(?:salary|salaries|compensation|pay|paying|base|wages?|OTE|earn|earning)\b|薪资|薪酬|年薪|月薪|待遇)[^.;\n]*$/i;
+
+// 金额后出现这些词时不是薪资，例如 "$5,000 signing bonus"、"$1,500 equipment stipend"
+const NON_SALARY_PATTERN =
+  /^[^.;\n\d$€£]{0,30}?\b(?:bonus|stipend|allowance|budget|reimburse(?:d|ment)?|grant|credits?)\b/i;
+
+const PERIOD_PATTERNS: Array<[SalaryRange['period'], RegExp]> = [
+  ['hour', /^\s*(?:\/|per|an?)?\s*(?:hour|hr|h)\b|^\s*hourly\b/i],
+  ['month', /^\s*(?:\/|per|an?)?\s*(?:month|mo)\b|^\s*monthly\b/i],
+  ['year', /^\s*(?:\/|per|an?)?\s*(?:year|yr|annum)\b|^\s*(?:annually|yearly)\b/i],
+];
+
+/**
+ * 解析金额，支持千位分隔符和 k 后缀
+ */
+function parseAmount(raw: string, thousands: boolean): number {
+  const value = Number(raw.replace(/[,.](?=\d{3}(?:\D|$))/g, ''));
+  return thousands ? value * 1000 : value;
+}
+
+/**
+ * 从文本中解析薪资范围，例如 "$120k - $150k"、"€60,000 per year"、"USD 50-70/hour"
+ * 没有货币标记的金额只在传入 defaultCurrency 时识别（例如数据源的薪资字段）
+ * 描述中的单个金额只有带周期或前面提到薪资时才识别，奖金、补贴等金额不视为薪资
+ */
+export function parseSalaryText(text: string, defaultCurrency?: string): SalaryRange | undefined {
+  for (const match of text.matchAll(SALARY_PATTERN)) {
+    const [, prefix, minRaw, minK, maxRaw, maxK, suffix] = match;
+    const marker = prefix || suffix;
+    const currency = marker
+      ? CURRENCY_SYMBOLS[marker] || marker.toUpperCase()
+      : defaultCurrency?.toUpperCase();
+    if (!currency) {
+      continue;
+    }
+
+    const after = text.slice(match.index! + match[0].length);
+    if (/^\s*(?:[mMbB]\b|million|billion)/i.test(after)) {
+      continue; // 融资金额等
+    }
+
+    // "$120-150k" 中的 k 同时作用于最低金额
+    let min = parseAmount(minRaw, Boolean(minK));
+    const max = maxRaw ? parseAmount(maxRaw, Boolean(maxK)) : undefined;
+    if (!minK && maxK && max !== undefined && min < 1000) {
+      min *= 1000;
+    }
+    if (max !== undefined && max < min) {
+      continue;
+    }
+
+    const period = PERIOD_PATTERNS.find(([, pattern]) => pattern.test(after))?.[0];
+    if (!period && (max ?? min) < 1000) {
+      continue; // 没有周期的小金额无法判断含义
+    }
+    if (NON_SALARY_PATTERN.test(after)) {
+      continue;
+    }
+
+    // 数据源的薪资字段直接识别；描述中的单个金额需要周期或薪资关键词
+    const before = text.slice(Math.max(0, match.index! - 60), match.index);
+    if (!defaultCurrency && !period && max === undefined && !SALARY_KEYWORD_PATTERN.test(before)) {
+      continue;
+    }
+
+    return { min, max, currency, period: period || 'year' };
+  }
+
+  return undefined;
+}
+
+/**
+ * 补充职位的薪资：数据源没有提供时从标题和描述中解析
+ */
+export function withSalary(job: Job): Job {
+  if (job.salary) {
+    return job;
+  }
+
+  const salary = parseSalaryText(`${job.title}\n${job.description}`);
+  return salary ? { ...job, salary } : job;
+}
+
+/**
+ * 获取职位薪资（数据源或描述中的薪资优先，其次是 AI 提取的薪资）
+ */
+export function getJobSalary(job: Job, insights?: JobInsights): SalaryRange | undefined {
+  return job.salary || insights?.salary;
+}
+
+/**
+ * 将薪资换算为指定货币的年薪，汇率未知时返回 undefined
+ */
+export function convertSalary(
+  salary: SalaryRange,
+  currency: string,
+  rates: ExchangeRates = getExchangeRates()
+): SalaryRange | undefined {
+  const from = rates[salary.currency];
+  const to = rates[currency];
+  if (!from || !to) {
+    return undefined;
+  }
+
+  const multiplier =
+    (salary.period === 'hour' ? HOURS_PER_YEAR : salary.period === 'month' ? MONTHS_PER_YEAR : 1) *
+    (from / to);
+  const convert = (value?: number) =>
+    value !== undefined ? Math.round(value * multiplier) : undefined;
+
+  return { min: convert(salary.min), max: convert(salary.max), currency, period: 'year' };
+}
+
+/**
+ * 格式化薪资范围
+ */
+export function formatSalary(salary: SalaryRange): string {
+  const format = (value: number) => value.toLocaleString('en-US');
+  const range =
+    salary.min !== undefined && salary.max !== undefined
+      ? `${format(salary.min)}-${format(salary.max)}`
+      : salary.min !== undefined
+        ? `${format(salary.min)}+`
+        : `≤${format(salary.max!)}`;
+  return `${range} ${salary.currency}/${salary.period}`;
+}
+
+/**
+ * 格式化薪资，货币或周期与设置不同时附上换算后的年薪
+ */
+export function describeSalary(
+  salary: SalaryRange,
+  currency: string = getSalaryConfig().currency,
+  rates: ExchangeRates = getExchangeRates()
+): string {
+  const text = formatSalary(salary);
+  if (salary.currency === currency && salary.period === 'year') {
+    return text;
+  }
+
+  const converted = convertSalary(salary, currency, rates);
+  return converted ? `${text}（约 ${formatSalary(converted)}）` : text;
+}
+
+/**
+ * 检查职位薪资是否达到档案的最低年薪，未达到时返回原因
+ * 没有薪资信息或汇率未知的职位视为达到
+ */
+export function checkSalary(
+  salary: SalaryRange | undefined,
+  minSalary: number | undefined,
+  settings: SalaryRules = getSalaryConfig(),
+  rates: ExchangeRates = getExchangeRates()
+): string | null {
+  if (!salary || minSalary === undefined) {
+    return null;
+  }
+
+  const annual = convertSalary(salary, settings.currency, rates);
+  const best = annual && (annual.max ?? annual.min);
+  if (best === undefined || best >= minSalary) {
+    return null;
+  }
+
+  return `薪资 ${formatSalary(annual!)} 低于 ${minSalary.toLocaleString('en-US')} ${settings.currency}`;
+}
+
+/**
+ * 调用 LLM 前排除薪资过低的职位（仅 action 为 drop 时排除）
+ */
+export function filterBySalary(
+  jobs: Job[],
+  profile: CandidateProfile,
+  settings: SalaryRules = getSalaryConfig()
+): PrefilterResult {
+  const result: PrefilterResult = { kept: [], rejected: [] };
+
+  for (const job of jobs) {
+    const reason =
+      settings.action === 'drop' ? checkSalary(job.salary, profile.minSalary, settings) : null;
+    if (reason) {
+      result.rejected.push({ job, reason });
+    } else {
+      result.kept.push(job);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 根据最低年薪调整评分（结合 AI 提取的薪资）
+ * drop 时评分降为 1，downrank 时扣除 penalty 分，并在理由中注明
+ */
+export function applySalaryRules(
+  job: AnalyzedJob,
+  profile: CandidateProfile,
+  settings: SalaryRules = getSalaryConfig()
+): AnalyzedJob {
+  const reason = checkSalary(getJobSalary(job, job.insights), profile.minSalary, settings);
+  if (!reason) {
+    return job;
+  }
+
+  return {
+    ...job,
+    score: settings.action === 'drop' ? 1 : Math.max(1, job.score - settings.penalty),
+    reason: `${job.reason}（${reason}）`,
+  };
+}
@@ -1,7 +1,10 @@
-import axios from 'axios';
 import { XMLParser } from 'fast-xml-parser';
 import { Job } from './types.js';
-import { apiEndpoints } from './config.js';
+import { getApiEndpoints } from './config.js';
+import { httpGet } from './http.js';
+import { createJobId, extractWWRJobNumber } from './jobId.js';
+import { parseSalaryText } from './salary.js';
+import { normalizeDescription, truncateText, htmlToText, MAX_DESCRIPTION_LENGTH } from './html.js';
 
 interface RemoteOKJob {
   id: string;
@@ -10,6 +13,9 @@ interface RemoteOKJob {
   description: string;
   url: string;
   epoch: number;
+  location?: string;
+  salary_min?: number; // 美元年薪，未知时为 0
+  salary_max?: number;
 }
 
 interface WWRItem {
@@ -20,7 +26,7 @@ interface WWRItem {
 }
 
 interface Web3CareerJob {
-  id: number;
+  id?: number | string; // RSS 中没有职位ID
   title: string;
   company: string;
   description?: string;
@@ -32,14 +38,63 @@ interface Web3CareerJob {
   published_at?: string;
 }
 
+interface HNHit {
+  objectID: string;
+  comment_text?: string | null;
+  created_at_i: number;
+}
+
+interface HNSearchResponse {
+  hits?: HNHit[];
+}
+
+interface CryptoJobsListJob {
+  id?: number | string;
+  title?: string;
+  company?: string;
+  companyName?: string;
+  description?: string;
+  url?: string;
+  applyUrl?: string;
+  slug?: string;
+  publishedAt?: string;
+  createdAt?: string;
+}
+
+interface WorkingNomadsJob {
+  id?: number | string;
+  title?: string;
+  company_name?: string;
+  company?: string;
+  description?: string;
+  url?: string;
+  pub_date?: string;
+  published_at?: string;
+  location?: string;
+}
+
+interface RemotiveJob {
+  id?: number | string;
+  title?: string;
+  company_name?: string;
+  category?: string;
+  description?: string;
+  url?: string;
+  publication_date?: string;
+  candidate_required_location?: string;
+  salary?: string | number;
+}
+
+interface RemotiveResponse {
+  jobs?: RemotiveJob[];
+}
+
 /**
  * 从RemoteOK API获取职位数据
  */
 export async function fetchRemoteOKJobs(): Promise<Job[]> {
   try {
-    const response = await axios.get<RemoteOKJob[]>(apiEndpoints.remoteok, {
-      proxy: false, // 禁用代理，直接连接
-    });
+    const response = await httpGet<RemoteOKJob[]>(getApiEndpoints().remoteok);
     const jobs: Job[] = [];
 
     for (const item of response.data) {
@@ -67,8 +122,7 @@ export async function fetchRemoteOKJobs(): Promise<Job[]> {
  */
 export async function fetchWWRJobs(): Promise<Job[]> {
   try {
-    const response = await axios.get<string>(apiEndpoints.weworkremotely, {
-      proxy: false, // 禁用代理，直接连接
+    const response = await httpGet<string>(getApiEndpoints().weworkremotely, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (compatible; JobHacker-AI/1.0)',
       },
@@ -80,9 +134,12 @@ export async function fetchWWRJobs(): Promise<Job[]> {
     });
 
     const parsed = parser.parse(response.data);
+    if (parsed?.rss?.channel === undefined) {
+      throw new Error('WWR RSS 格式无效，无法解析 XML');
+    }
     // 处理单个 item 或 item 数组的情况
     let items: WWRItem[] = [];
-    const rawItems = parsed.rss?.channel?.item;
+    const rawItems = parsed.rss.channel?.item;
     if (rawItems) {
       items = Array.isArray(rawItems) ? rawItems : [rawItems];
     }
@@ -104,18 +161,14 @@ export async function fetchWWRJobs(): Promise<Job[]> {
 
     return jobs;
   } catch (error) {
-    console.error('获取WWR职位失败:', error);
-    // 如果是解析错误，返回空数组而不是抛出错误
-    if (error instanceof Error && error.message.includes('XML')) {
-      return [];
-    }
+    console.error('获取WWR职位失败:', error instanceof Error ? error.message : error);
     throw error;
   }
 }
 
 /**
  * 从Web3.career获取职位数据
- * 尝试多个端点：RSS feed 或 JSON API
+ * 尝试多个端点：RSS feed 或 JSON API，所有端点都失败或无法解析时抛出最后一个错误
  */
 export async function fetchWeb3CareerJobs(): Promise<Job[]> {
   const endpoints = [
@@ -124,11 +177,13 @@ export async function fetchWeb3CareerJobs(): Promise<Job[]> {
     'https://web3.career/feed.rss',
   ];
 
+  let lastError: unknown;
+  let answered = false; // 至少一个端点返回了有效（可能为空）的职位列表
+
   for (const endpoint of endpoints) {
     try {
       const isRss = endpoint.includes('.rss');
-      const response = await axios.get<string>(endpoint, {
-        proxy: false,
+      const response = await httpGet<string>(endpoint, {
         headers: {
           'User-Agent':
             'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
@@ -142,6 +197,7 @@ export async function fetchWeb3CareerJobs(): Promise<Job[]> {
 
       if (response.status >= 400) {
         console.warn(`Web3.career 端点 ${endpoint} 返回 ${response.status}，尝试下一个`);
+        lastError = new Error(`Web3.career 端点 ${endpoint} 返回 ${response.status}`);
         continue;
       }
 
@@ -155,13 +211,17 @@ export async function fetchWeb3CareerJobs(): Promise<Job[]> {
         });
 
         const parsed = parser.parse(response.data);
+        if (parsed?.rss?.channel === undefined) {
+          throw new Error(`Web3.career RSS 格式无效，无法解析 XML: ${endpoint}`);
+        }
+        answered = true;
         let items: Array<{
           title?: string;
           link?: string;
           description?: string;
           pubDate?: string;
         }> = [];
-        const rawItems = parsed.rss?.channel?.item;
+        const rawItems = parsed.rss.channel?.item;
         if (rawItems) {
           items = Array.isArray(rawItems) ? rawItems : [rawItems];
         }
@@ -171,7 +231,6 @@ export async function fetchWeb3CareerJobs(): Promise<Job[]> {
 
           try {
             const web3Job: Web3CareerJob = {
-              id: Date.now() + Math.random(),
               title: item.title,
               company: extractCompanyFromWeb3Title(item.title) || 'Unknown',
               description: item.description || '',
@@ -184,30 +243,31 @@ export async function fetchWeb3CareerJobs(): Promise<Job[]> {
           }
         }
       } else {
-        // 尝试解析 JSON
-        try {
-          const data =
-            typeof response.data === 'string' ? JSON.parse(response.data) : response.data;
-          const jobList = data.jobs || data.data || data || [];
-
-          if (Array.isArray(jobList)) {
-            for (const job of jobList) {
-              if (!job || !job.title) continue;
-
-              const web3Job: Web3CareerJob = {
-                id: job.id || Date.now() + Math.random(),
-                title: job.title,
-                company: job.company || job.company_name || 'Unknown',
-                description: job.description || '',
-                url: job.url || job.apply_url || `https://web3.career/job/${job.slug || job.id}`,
-                published_at: job.published_at || job.created_at,
-              };
-              jobs.push(normalizeJob(web3Job, 'web3career'));
-            }
-          }
-        } catch {
-          // JSON 解析失败，尝试下一个端点
-          continue;
+        // 解析 JSON，格式无效时抛出 SyntaxError
+        const data = typeof response.data === 'string' ? JSON.parse(response.data) : response.data;
+        const jobList = data.jobs || data.data || data || [];
+
+        if (!Array.isArray(jobList)) {
+          throw new Error(`Web3.career JSON 格式无效: ${endpoint}`);
+        }
+        answered = true;
+
+        for (const job of jobList) {
+          if (!job || !job.title) continue;
+
+          const web3Job: Web3CareerJob = {
+            id: job.id,
+            title: job.title,
+            company: job.company || job.company_name || 'Unknown',
+            description: job.description || '',
+            url:
+              job.url ||
+              job.apply_url ||
+              (job.slug || job.id ? `https://web3.career/job/${job.slug || job.id}` : undefined),
+            location: job.location,
+            published_at: job.published_at || job.created_at,
+          };
+          jobs.push(normalizeJob(web3Job, 'web3career'));
         }
       }
 
@@ -220,12 +280,18 @@ export async function fetchWeb3CareerJobs(): Promise<Job[]> {
         `Web3.career 端点 ${endpoint} 失败:`,
         error instanceof Error ? error.message : error
       );
+      lastError = error;
       // 继续尝试下一个端点
     }
   }
 
-  console.warn('Web3.career: 所有端点均失败，返回空数组');
-  return [];
+  if (answered) {
+    console.log('Web3.career: 获取到 0 个职位');
+    return [];
+  }
+
+  console.error('获取Web3.career职位失败: 所有端点均失败');
+  throw lastError instanceof Error ? lastError : new Error('Web3.career 所有端点均失败');
 }
 
 /**
@@ -270,8 +336,7 @@ export async function fetchHNHiringJobs(): Promise<Job[]> {
     const searchUrl =
       'https://hn.algolia.com/api/v1/search_by_date?query=remote&tags=comment,ask_hn&hitsPerPage=100';
 
-    const response = await axios.get(searchUrl, {
-      proxy: false,
+    const response = await httpGet<HNSearchResponse>(searchUrl, {
       timeout: 15000,
       headers: {
         'User-Agent': 'Mozilla/5.0 (compatible; JobHacker-AI/1.0)',
@@ -298,7 +363,8 @@ export async function fetchHNHiringJobs(): Promise<Job[]> {
       if (!isHiring) continue;
 
       // 尝试提取公司名称（通常在开头）
-      const firstLine = text.split('\n')[0] || '';
+      const plainText = htmlToText(text);
+      const firstLine = plainText.split('\n')[0] || '';
       const companyMatch = firstLine.match(/^([^|]+)/);
       const company = companyMatch ? companyMatch[1].trim().substring(0, 50) : 'HN Posting';
 
@@ -306,10 +372,10 @@ export async function fetchHNHiringJobs(): Promise<Job[]> {
       const title = firstLine.substring(0, 100) || 'Hacker News Job';
 
       jobs.push({
-        id: `hnhiring-${hit.objectID}`,
-        title: title.replace(/<[^>]*>/g, ''), // 移除HTML标签
-        company: company.replace(/<[^>]*>/g, ''),
-        description: text.replace(/<[^>]*>/g, '').substring(0, 500),
+        id: createJobId('hnhiring', { nativeId: hit.objectID }),
+        title,
+        company,
+        description: truncateText(plainText, MAX_DESCRIPTION_LENGTH),
         url: `https://news.ycombinator.com/item?id=${hit.objectID}`,
         postedAt: new Date(hit.created_at_i * 1000),
         source: 'hnhiring',
@@ -320,7 +386,7 @@ export async function fetchHNHiringJobs(): Promise<Job[]> {
     return jobs;
   } catch (error) {
     console.error('获取HN Hiring职位失败:', error instanceof Error ? error.message : error);
-    return [];
+    throw error;
   }
 }
 
@@ -329,8 +395,7 @@ export async function fetchHNHiringJobs(): Promise<Job[]> {
  */
 export async function fetchJobicyJobs(): Promise<Job[]> {
   try {
-    const response = await axios.get<string>(apiEndpoints.jobicy, {
-      proxy: false,
+    const response = await httpGet<string>(getApiEndpoints().jobicy, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (compatible; JobHacker-AI/1.0)',
         Accept: 'application/rss+xml, application/xml, text/xml',
@@ -344,8 +409,11 @@ export async function fetchJobicyJobs(): Promise<Job[]> {
     });
 
     const parsed = parser.parse(response.data);
+    if (parsed?.rss?.channel === undefined) {
+      throw new Error('Jobicy RSS 格式无效，无法解析 XML');
+    }
     let items: JobicyItem[] = [];
-    const rawItems = parsed.rss?.channel?.item;
+    const rawItems = parsed.rss.channel?.item;
     if (rawItems) {
       items = Array.isArray(rawItems) ? rawItems : [rawItems];
     }
@@ -359,10 +427,10 @@ export async function fetchJobicyJobs(): Promise<Job[]> {
       const company = extractCompanyFromJobicyTitle(item.title) || item['dc:creator'] || 'Unknown';
 
       jobs.push({
-        id: `jobicy-${hashString(item.link)}`,
+        id: createJobId('jobicy', { url: item.link }),
         title: item.title,
         company: company,
-        description: (item.description || '').replace(/<[^>]*>/g, '').substring(0, 500),
+        description: normalizeDescription(item.description || ''),
         url: item.link,
         postedAt: parseDate(item.pubDate),
         source: 'jobicy',
@@ -373,7 +441,7 @@ export async function fetchJobicyJobs(): Promise<Job[]> {
     return jobs;
   } catch (error) {
     console.error('获取Jobicy职位失败:', error instanceof Error ? error.message : error);
-    return [];
+    throw error;
   }
 }
 
@@ -397,28 +465,38 @@ function extractCompanyFromJobicyTitle(title: string): string | null {
  */
 export async function fetchCryptoJobsListJobs(): Promise<Job[]> {
   try {
-    const response = await axios.get(apiEndpoints.cryptojobslist, {
-      proxy: false,
-      headers: {
-        'User-Agent':
-          'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        Accept: 'application/json',
-      },
-      timeout: 15000,
-    });
+    const response = await httpGet<CryptoJobsListJob[] | { jobs?: CryptoJobsListJob[] }>(
+      getApiEndpoints().cryptojobslist,
+      {
+        headers: {
+          'User-Agent':
+            'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+          Accept: 'application/json',
+        },
+        timeout: 15000,
+      }
+    );
 
     const jobs: Job[] = [];
-    const jobList = response.data?.jobs || response.data || [];
+    const jobList = Array.isArray(response.data) ? response.data : response.data?.jobs || [];
 
     if (Array.isArray(jobList)) {
       for (const job of jobList) {
         if (!job || !job.title) continue;
 
         jobs.push({
-          id: `cryptojobslist-${job.id || hashString(job.title + job.company)}`,
+          id: createJobId('cryptojobslist', {
+            nativeId: job.id,
+            url:
+              job.url ||
+              job.applyUrl ||
+              (job.slug ? `https://cryptojobslist.com/jobs/${job.slug}` : undefined),
+            title: job.title,
+            company: job.company || job.companyName,
+          }),
           title: job.title,
           company: job.company || job.companyName || 'Unknown',
-          description: (job.description || '').substring(0, 500),
+          description: normalizeDescription(job.description || ''),
           url: job.url || job.applyUrl || `https://cryptojobslist.com/jobs/${job.slug || job.id}`,
           postedAt: parseDate(job.publishedAt || job.createdAt || new Date().toISOString()),
           source: 'cryptojobslist',
@@ -430,7 +508,7 @@ export async function fetchCryptoJobsListJobs(): Promise<Job[]> {
     return jobs;
   } catch (error) {
     console.error('获取CryptoJobsList职位失败:', error instanceof Error ? error.message : error);
-    return [];
+    throw error;
   }
 }
 
@@ -439,8 +517,7 @@ export async function fetchCryptoJobsListJobs(): Promise<Job[]> {
  */
 export async function fetchWorkingNomadsJobs(): Promise<Job[]> {
   try {
-    const response = await axios.get(apiEndpoints.workingnomads, {
-      proxy: false,
+    const response = await httpGet<WorkingNomadsJob[]>(getApiEndpoints().workingnomads, {
       headers: {
         'User-Agent':
           'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
@@ -456,13 +533,19 @@ export async function fetchWorkingNomadsJobs(): Promise<Job[]> {
       if (!job || !job.title) continue;
 
       jobs.push({
-        id: `workingnomads-${job.id || hashString(job.url || job.title)}`,
+        id: createJobId('workingnomads', {
+          nativeId: job.id,
+          url: job.url,
+          title: job.title,
+          company: job.company_name || job.company,
+        }),
         title: job.title,
         company: job.company_name || job.company || 'Unknown',
-        description: (job.description || '').replace(/<[^>]*>/g, '').substring(0, 500),
+        description: normalizeDescription(job.description || ''),
         url: job.url || 'https://www.workingnomads.com/jobs',
         postedAt: parseDate(job.pub_date || job.published_at || new Date().toISOString()),
         source: 'workingnomads',
+        location: job.location || undefined,
       });
     }
 
@@ -470,7 +553,7 @@ export async function fetchWorkingNomadsJobs(): Promise<Job[]> {
     return jobs;
   } catch (error) {
     console.error('获取Working Nomads职位失败:', error instanceof Error ? error.message : error);
-    return [];
+    throw error;
   }
 }
 
@@ -480,8 +563,7 @@ export async function fetchWorkingNomadsJobs(): Promise<Job[]> {
 export async function fetchRemotiveJobs(): Promise<Job[]> {
   try {
     // Remotive有官方API
-    const response = await axios.get(apiEndpoints.remotive, {
-      proxy: false,
+    const response = await httpGet<RemotiveResponse>(getApiEndpoints().remotive, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (compatible; JobHacker-AI/1.0)',
         Accept: 'application/json',
@@ -508,13 +590,15 @@ export async function fetchRemotiveJobs(): Promise<Job[]> {
       if (!isDev && jobList.length > 50) continue; // 如果职位很多，只保留开发相关
 
       jobs.push({
-        id: `remotive-${job.id}`,
+        id: createJobId('remotive', { nativeId: job.id, url: job.url, title: job.title }),
         title: job.title,
         company: job.company_name || 'Unknown',
-        description: (job.description || '').replace(/<[^>]*>/g, '').substring(0, 500),
+        description: normalizeDescription(job.description || ''),
         url: job.url || `https://remotive.com/remote-jobs/${job.id}`,
         postedAt: parseDate(job.publication_date || new Date().toISOString()),
         source: 'remotive',
+        location: job.candidate_required_location || undefined,
+        salary: job.salary ? parseSalaryText(String(job.salary), 'USD') : undefined,
       });
     }
 
@@ -522,21 +606,8 @@ export async function fetchRemotiveJobs(): Promise<Job[]> {
     return jobs;
   } catch (error) {
     console.error('获取Remotive职位失败:', error instanceof Error ? error.message : error);
-    return [];
-  }
-}
-
-/**
- * 简单的字符串哈希函数
- */
-function hashString(str: string): string {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash;
+    throw error;
   }
-  return Math.abs(hash).toString(36);
 }
 
 /**
@@ -549,25 +620,37 @@ export function normalizeJob(
   if (source === 'remoteok') {
     const job = rawJob as RemoteOKJob;
     return {
-      id: `remoteok-${job.id}`,
+      id: createJobId('remoteok', { nativeId: job.id }),
       title: job.position || 'Untitled',
       company: job.company || 'Unknown',
-      description: job.description || '',
+      description: normalizeDescription(job.description || ''),
       url: job.url || `https://remoteok.com/remote-jobs/${job.id}`,
       postedAt: new Date(job.epoch * 1000),
       source: 'remoteok',
+      location: job.location || undefined,
+      salary:
+        job.salary_min || job.salary_max
+          ? {
+              min: job.salary_min || undefined,
+              max: job.salary_max || undefined,
+              currency: 'USD',
+              period: 'year',
+            }
+          : undefined,
     };
   } else if (source === 'weworkremotely') {
     const job = rawJob as WWRItem;
-    // 从URL或标题生成唯一ID
-    const urlMatch = job.link.match(/\/(\d+)/);
-    const id = urlMatch ? `weworkremotely-${urlMatch[1]}` : `weworkremotely-${Date.now()}`;
+    // 链接中有数字路径段时作为职位ID，否则使用链接的哈希
+    const id = createJobId('weworkremotely', {
+      nativeId: extractWWRJobNumber(job.link),
+      url: job.link,
+    });
 
     return {
       id,
       title: job.title || 'Untitled',
       company: extractCompanyFromTitle(job.title) || 'Unknown',
-      description: job.description || '',
+      description: normalizeDescription(job.description || ''),
       url: job.link,
       postedAt: parseDate(job.pubDate),
       source: 'weworkremotely',
@@ -576,13 +659,19 @@ export function normalizeJob(
     // web3career
     const job = rawJob as Web3CareerJob;
     return {
-      id: `web3career-${job.id}`,
+      id: createJobId('web3career', {
+        nativeId: job.id,
+        url: job.url || (job.slug ? `https://web3.career/${job.slug}` : undefined),
+        title: job.title,
+        company: job.company,
+      }),
       title: job.title || 'Untitled',
       company: job.company || 'Unknown',
-      description: job.description || '',
-      url: job.url || job.slug ? `https://web3.career/${job.slug}` : 'https://web3.career',
+      description: normalizeDescription(job.description || ''),
+      url: job.url || (job.slug ? `https://web3.career/${job.slug}` : 'https://web3.career'),
       postedAt: parseDate(job.published_at || job.created_at || new Date().toISOString()),
       source: 'web3career',
+      location: job.location || undefined,
     };
   }
 }
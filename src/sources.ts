@@ -0,0 +1,137 @@
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import {
+  fetchRemoteOKJobs,
+  fetchWWRJobs,
+  fetchWeb3CareerJobs,
+  fetchHNHiringJobs,
+  fetchJobicyJobs,
+  fetchCryptoJobsListJobs,
+  fetchWorkingNomadsJobs,
+  fetchRemotiveJobs,
+} from './scraper.js';
+import { getSourceConfig } from './config.js';
+import { JobSource } from './types.js';
+
+/**
+ * 内置数据源
+ */
+export const builtinSources: JobSource[] = [
+  { id: 'remoteok', name: 'RemoteOK', fetch: fetchRemoteOKJobs },
+  { id: 'weworkremotely', name: 'WeWorkRemotely', fetch: fetchWWRJobs },
+  { id: 'web3career', name: 'Web3.career', fetch: fetchWeb3CareerJobs },
+  { id: 'hnhiring', name: 'Hacker News', fetch: fetchHNHiringJobs },
+  { id: 'jobicy', name: 'Jobicy', fetch: fetchJobicyJobs },
+  { id: 'cryptojobslist', name: 'CryptoJobsList', fetch: fetchCryptoJobsListJobs },
+  { id: 'workingnomads', name: 'Working Nomads', fetch: fetchWorkingNomadsJobs },
+  { id: 'remotive', name: 'Remotive', fetch: fetchRemotiveJobs },
+];
+
+const registry = new Map<string, JobSource>(builtinSources.map((source) => [source.id, source]));
+
+/**
+ * 检查对象是否符合 JobSource 接口
+ */
+function isJobSource(value: unknown): value is JobSource {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const source = value as Partial<JobSource>;
+  return (
+    typeof source.id === 'string' &&
+    source.id.length > 0 &&
+    typeof source.name === 'string' &&
+    typeof source.fetch === 'function' &&
+    (source.isEnabled === undefined || typeof source.isEnabled === 'function')
+  );
+}
+
+/**
+ * 注册数据源
+ */
+export function registerSource(source: JobSource): void {
+  if (!isJobSource(source)) {
+    throw new Error('无效的数据源：必须包含 id、name 和 fetch');
+  }
+
+  if (registry.has(source.id)) {
+    throw new Error(`数据源 ${source.id} 已注册`);
+  }
+
+  registry.set(source.id, source);
+}
+
+/**
+ * 注销数据源
+ */
+export function unregisterSource(id: string): boolean {
+  return registry.delete(id);
+}
+
+/**
+ * 获取所有已注册的数据源（按注册顺序）
+ */
+export function getRegisteredSources(): JobSource[] {
+  return [...registry.values()];
+}
+
+/**
+ * 获取当前启用的数据源
+ * 排除配置中禁用的数据源，以及 isEnabled() 返回 false 的数据源
+ */
+export function getEnabledSources(): JobSource[] {
+  const { disabled } = getSourceConfig();
+
+  return getRegisteredSources().filter((source) => {
+    if (disabled.includes(source.id)) {
+      return false;
+    }
+    return source.isEnabled ? source.isEnabled() : true;
+  });
+}
+
+/**
+ * 从本地模块加载第三方数据源
+ * 模块可以默认导出单个数据源或数据源数组，也可以具名导出 `sources`
+ */
+export async function loadSourceModule(modulePath: string): Promise<JobSource[]> {
+  const url = pathToFileURL(resolve(process.cwd(), modulePath)).href;
+  const mod = await import(url);
+  const exported = mod.sources ?? mod.default;
+  const candidates: unknown[] = Array.isArray(exported) ? exported : [exported];
+
+  const sources: JobSource[] = [];
+  for (const candidate of candidates) {
+    if (!isJobSource(candidate)) {
+      throw new Error(`数据源模块 ${modulePath} 导出了无效的数据源`);
+    }
+    registerSource(candidate);
+    sources.push(candidate);
+  }
+
+  return sources;
+}
+
+/**
+ * 加载配置中的所有第三方数据源模块
+ * 单个模块加载失败不影响其他模块
+ */
+export async function loadSourceModules(
+  modulePaths: string[] = getSourceConfig().modules
+): Promise<JobSource[]> {
+  const loaded: JobSource[] = [];
+
+  for (const modulePath of modulePaths) {
+    try {
+      loaded.push(...(await loadSourceModule(modulePath)));
+    } catch (error) {
+      console.error(
+        `加载数据源模块失败 ${modulePath}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  return loaded;
+}
@@ -1,81 +1,589 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from 'fs';
 import { join, dirname } from 'path';
-import { ProcessedJobs } from './types.js';
+import {
+  AnalyzedJob,
+  Job,
+  JobAnalysis,
+  JobDatabase,
+  JobRecord,
+  JobSourceId,
+  JobTriage,
+  PendingAnalysis,
+  ProcessedJobs,
+  RunRecord,
+  StoredJob,
+} from './types.js';
+import { DEFAULT_PROFILE_ID } from './profiles.js';
+import { migrateJobId } from './jobId.js';
 
-const DEFAULT_STORAGE_PATH = join(process.cwd(), 'data', 'processed_jobs.json');
+const DEFAULT_STORAGE_PATH = join(process.cwd(), 'data', 'jobs.json');
+const LEGACY_STORAGE_PATH = join(process.cwd(), 'data', 'processed_jobs.json');
+const DATABASE_VERSION = 3;
+const MAX_RUN_HISTORY = 100;
+const SEEN_RETENTION_DAYS = 30; // 未分析的职位超过该天数未再出现时删除
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const MAX_PENDING_ATTEMPTS = 5;
 
 /**
- * 加载已处理的职位ID列表
+ * 职位查询条件
  */
-export function loadProcessedJobs(storagePath: string = DEFAULT_STORAGE_PATH): string[] {
-  if (!existsSync(storagePath)) {
-    return [];
+export interface JobQuery {
+  profileId?: string; // 配合 minScore 使用，未设置时任一档案达到评分即可
+  minScore?: number;
+  source?: JobSourceId;
+  since?: Date; // 只返回此时间之后见过的职位
+  limit?: number;
+}
+
+/**
+ * 创建空数据库
+ */
+function createEmptyDatabase(): JobDatabase {
+  return {
+    version: DATABASE_VERSION,
+    jobs: {},
+    runs: [],
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+/**
+ * 从职位ID推断数据源（ID 格式为 `${source}-${nativeId}`）
+ */
+function sourceFromId(jobId: string): JobSourceId {
+  const index = jobId.indexOf('-');
+  return index > 0 ? jobId.substring(0, index) : 'unknown';
+}
+
+/**
+ * 将旧版 processed_jobs.json 数据转换为数据库格式
+ */
+function convertLegacyData(data: ProcessedJobs): JobDatabase {
+  const db = createEmptyDatabase();
+  const importedAt = data.lastUpdated || db.lastUpdated;
+
+  for (const jobId of data.jobIds || []) {
+    db.jobs[jobId] = {
+      id: jobId,
+      source: sourceFromId(jobId),
+      firstSeenAt: importedAt,
+      lastSeenAt: importedAt,
+      processedAt: importedAt,
+    };
   }
 
-  try {
-    const content = readFileSync(storagePath, 'utf-8');
-    const data: ProcessedJobs = JSON.parse(content);
-    return data.jobIds || [];
-  } catch (error) {
-    console.warn(`无法读取存储文件 ${storagePath}:`, error);
-    return [];
+  return db;
+}
+
+/**
+ * 合并同一职位的两条记录（旧版不稳定ID导致的重复记录）
+ */
+function mergeRecords(a: JobRecord, b: JobRecord): JobRecord {
+  const [older, newer] = a.firstSeenAt <= b.firstSeenAt ? [a, b] : [b, a];
+  const processedAt = older.processedAt || newer.processedAt;
+
+  return {
+    ...older,
+    ...newer,
+    job: newer.job || older.job,
+    analyses: { ...older.analyses, ...newer.analyses },
+    triage: older.triage || newer.triage ? { ...older.triage, ...newer.triage } : undefined,
+    firstSeenAt: older.firstSeenAt,
+    lastSeenAt: newer.lastSeenAt > older.lastSeenAt ? newer.lastSeenAt : older.lastSeenAt,
+    processedAt,
+    pending: processedAt ? undefined : newer.pending || older.pending,
+  };
+}
+
+/**
+ * 将旧版不稳定的职位ID（时间戳、随机数、32 位哈希）转换为新ID，并合并因此产生的重复记录
+ */
+function migrateRecordIds(jobs: Record<string, JobRecord>): Record<string, JobRecord> {
+  const migrated: Record<string, JobRecord> = {};
+
+  for (const record of Object.values(jobs)) {
+    const job = record.job;
+    let updated = record;
+    if (job) {
+      const id = migrateJobId(record.id, job);
+      updated = {
+        ...record,
+        id,
+        job: {
+          ...job,
+          id,
+          listings: job.listings?.map((listing) => ({
+            ...listing,
+            id: migrateJobId(listing.id, { ...job, source: listing.source, url: listing.url }),
+          })),
+        },
+      };
+    }
+
+    const existing = migrated[updated.id];
+    migrated[updated.id] = existing ? mergeRecords(existing, updated) : updated;
   }
+
+  return migrated;
 }
 
 /**
- * 保存已处理的职位ID
+ * 确保存储目录存在
  */
-export function saveProcessedJob(jobId: string, storagePath: string = DEFAULT_STORAGE_PATH): void {
-  // 确保目录存在
+function ensureDir(storagePath: string): void {
   const dir = dirname(storagePath);
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
   }
+}
+
+/**
+ * 序列化职位数据
+ */
+function serializeJob(job: Job): StoredJob {
+  return { ...job, postedAt: job.postedAt.toISOString() };
+}
 
-  const existingIds = loadProcessedJobs(storagePath);
+/**
+ * 反序列化职位数据
+ */
+function deserializeJob(job: StoredJob): Job {
+  return { ...job, postedAt: new Date(job.postedAt) };
+}
 
-  // 避免重复
-  if (existingIds.includes(jobId)) {
-    return;
+/**
+ * 加载职位数据库
+ * 如果文件是旧版 `{ jobIds }` 格式，会自动转换
+ */
+export function loadJobDatabase(storagePath: string = DEFAULT_STORAGE_PATH): JobDatabase {
+  if (!existsSync(storagePath)) {
+    return createEmptyDatabase();
   }
 
-  const data: ProcessedJobs = {
-    jobIds: [...existingIds, jobId],
+  try {
+    const content = readFileSync(storagePath, 'utf-8');
+    const data = JSON.parse(content);
+
+    if (Array.isArray(data.jobIds)) {
+      return convertLegacyData(data as ProcessedJobs);
+    }
+
+    let jobs: Record<string, JobRecord> = data.jobs || {};
+
+    // v1 只有单个 analysis 字段，归入默认档案
+    if ((data.version || 1) < 2) {
+      for (const record of Object.values(jobs) as Array<JobRecord & { analysis?: JobAnalysis }>) {
+        if (record.analysis) {
+          record.analyses = { [DEFAULT_PROFILE_ID]: record.analysis };
+          delete record.analysis;
+        }
+      }
+    }
+
+    // v3 统一了职位ID规则
+    if ((data.version || 1) < 3) {
+      jobs = migrateRecordIds(jobs);
+    }
+
+    return {
+      version: DATABASE_VERSION,
+      jobs,
+      runs: data.runs || [],
+      lastUpdated: data.lastUpdated || new Date().toISOString(),
+    };
+  } catch (error) {
+    // 不返回空数据库：否则下次保存会覆盖全部历史，所有职位都会被重新分析和通知
+    throw new Error(
+      `无法解析存储文件 ${storagePath}，请修复或移走该文件后重试: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * 清理过期记录：只抓取到、从未分析且 SEEN_RETENTION_DAYS 天未再出现的职位
+ * 有分析结果、处理状态或待重试的记录，以及旧版导入的ID记录都会保留
+ */
+function pruneJobs(jobs: Record<string, JobRecord>, now: number): Record<string, JobRecord> {
+  const cutoff = now - SEEN_RETENTION_DAYS * DAY_MS;
+  return Object.fromEntries(
+    Object.entries(jobs).filter(
+      ([, record]) =>
+        !record.job ||
+        record.analyses ||
+        record.triage ||
+        record.pending ||
+        Date.parse(record.lastSeenAt) >= cutoff
+    )
+  );
+}
+
+/**
+ * 保存职位数据库
+ * 先写入临时文件再重命名，写入中途崩溃不会留下损坏的文件
+ */
+export function saveJobDatabase(db: JobDatabase, storagePath: string = DEFAULT_STORAGE_PATH): void {
+  ensureDir(storagePath);
+
+  const data: JobDatabase = {
+    ...db,
+    jobs: pruneJobs(db.jobs, Date.now()),
+    version: DATABASE_VERSION,
     lastUpdated: new Date().toISOString(),
   };
 
+  const tempPath = `${storagePath}.tmp`;
   try {
-    writeFileSync(storagePath, JSON.stringify(data, null, 2), 'utf-8');
+    writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    renameSync(tempPath, storagePath);
   } catch (error) {
     console.error(`无法写入存储文件 ${storagePath}:`, error);
     throw error;
   }
 }
 
+// 批量写入中的数据库（按文件路径）
+const batches = new Map<string, JobDatabase>();
+
 /**
- * 检查职位是否已处理
+ * 开始批量写入：之后对该文件的读写都在内存中进行，调用 flushStorageBatch 时一次性写入
+ * 一次运行会多次更新数据库，批量写入避免每次更新都重写整个文件
  */
-export function isJobProcessed(jobId: string, storagePath: string = DEFAULT_STORAGE_PATH): boolean {
-  const processedIds = loadProcessedJobs(storagePath);
-  return processedIds.includes(jobId);
+export function beginStorageBatch(storagePath: string = DEFAULT_STORAGE_PATH): void {
+  if (!batches.has(storagePath)) {
+    batches.set(storagePath, loadJobDatabase(storagePath));
+  }
 }
 
 /**
- * 清空已处理的职位列表（用于测试或重置）
+ * 结束批量写入，将内存中的数据库写入文件
  */
-export function clearProcessedJobs(storagePath: string = DEFAULT_STORAGE_PATH): void {
-  const data: ProcessedJobs = {
-    jobIds: [],
-    lastUpdated: new Date().toISOString(),
+export function flushStorageBatch(storagePath: string = DEFAULT_STORAGE_PATH): void {
+  const db = batches.get(storagePath);
+  if (!db) {
+    return;
+  }
+  batches.delete(storagePath);
+  saveJobDatabase(db, storagePath);
+}
+
+/**
+ * 读取数据库（批量写入中时使用内存中的数据库）
+ */
+function readDatabase(storagePath: string): JobDatabase {
+  return batches.get(storagePath) || loadJobDatabase(storagePath);
+}
+
+/**
+ * 写入数据库（批量写入中时只更新内存，结束时统一写入）
+ */
+function writeDatabase(db: JobDatabase, storagePath: string): void {
+  if (batches.get(storagePath) !== db) {
+    saveJobDatabase(db, storagePath);
+  }
+}
+
+/**
+ * 将旧版 processed_jobs.json 导入数据库
+ * 已存在的记录不会被覆盖，返回导入的ID数量
+ */
+export function migrateLegacyStorage(
+  legacyPath: string = LEGACY_STORAGE_PATH,
+  storagePath: string = DEFAULT_STORAGE_PATH
+): number {
+  if (!existsSync(legacyPath)) {
+    return 0;
+  }
+
+  let legacy: JobDatabase;
+  try {
+    legacy = convertLegacyData(JSON.parse(readFileSync(legacyPath, 'utf-8')));
+  } catch (error) {
+    console.warn(`无法读取旧版存储文件 ${legacyPath}:`, error);
+    return 0;
+  }
+
+  const db = readDatabase(storagePath);
+  let imported = 0;
+
+  for (const [jobId, record] of Object.entries(legacy.jobs)) {
+    if (!db.jobs[jobId]) {
+      db.jobs[jobId] = record;
+      imported++;
+    }
+  }
+
+  if (imported > 0) {
+    writeDatabase(db, storagePath);
+  }
+
+  return imported;
+}
+
+/**
+ * 记录本次抓取到的职位（更新首次/最近发现时间）
+ */
+export function recordSeenJobs(jobs: Job[], storagePath: string = DEFAULT_STORAGE_PATH): void {
+  if (jobs.length === 0) {
+    return;
+  }
+
+  const db = readDatabase(storagePath);
+  const now = new Date().toISOString();
+
+  for (const job of jobs) {
+    const existing = db.jobs[job.id];
+    db.jobs[job.id] = {
+      ...existing,
+      id: job.id,
+      source: job.source,
+      job: serializeJob(job),
+      firstSeenAt: existing?.firstSeenAt || now,
+      lastSeenAt: now,
+    };
+  }
+
+  writeDatabase(db, storagePath);
+}
+
+/**
+ * 保存AI分析结果（按 job.profileId 归档），并将职位标记为已处理
+ */
+export function saveAnalyzedJob(
+  job: AnalyzedJob,
+  storagePath: string = DEFAULT_STORAGE_PATH
+): void {
+  const db = readDatabase(storagePath);
+  const now = new Date().toISOString();
+  const existing = db.jobs[job.id];
+  const { score, reason, relevance, insights, profileId = DEFAULT_PROFILE_ID, ...rawJob } = job;
+
+  db.jobs[job.id] = {
+    ...existing,
+    id: job.id,
+    source: job.source,
+    job: serializeJob(rawJob),
+    analyses: {
+      ...existing?.analyses,
+      [profileId]: { score, reason, relevance, insights, analyzedAt: now },
+    },
+    firstSeenAt: existing?.firstSeenAt || now,
+    lastSeenAt: existing?.lastSeenAt || now,
+    processedAt: now,
   };
 
-  const dir = dirname(storagePath);
-  if (!existsSync(dir)) {
-    mkdirSync(dir, { recursive: true });
+  writeDatabase(db, storagePath);
+}
+
+/**
+ * 获取单个职位记录
+ */
+export function getJobRecord(
+  jobId: string,
+  storagePath: string = DEFAULT_STORAGE_PATH
+): JobRecord | undefined {
+  return readDatabase(storagePath).jobs[jobId];
+}
+
+/**
+ * 设置职位的处理状态（按档案保存），传入 null 时清除
+ * @returns 更新后的记录，职位不存在时返回 undefined
+ */
+export function setJobTriage(
+  jobId: string,
+  profileId: string,
+  triage: JobTriage | null,
+  storagePath: string = DEFAULT_STORAGE_PATH
+): JobRecord | undefined {
+  const db = readDatabase(storagePath);
+  const existing = db.jobs[jobId];
+  if (!existing) {
+    return undefined;
+  }
+
+  const { [profileId]: _previous, ...others } = existing.triage || {};
+  const updated: JobRecord = {
+    ...existing,
+    triage: triage ? { ...others, [profileId]: triage } : others,
+  };
+  db.jobs[jobId] = updated;
+
+  writeDatabase(db, storagePath);
+  return updated;
+}
+
+/**
+ * 获取记录的评分：指定档案时取该档案的评分，否则取所有档案中的最高分
+ */
+function getRecordScore(record: JobRecord, profileId?: string): number {
+  const analyses = record.analyses || {};
+  if (profileId) {
+    return analyses[profileId]?.score ?? 0;
+  }
+  return Math.max(0, ...Object.values(analyses).map((analysis) => analysis.score));
+}
+
+/**
+ * 查询职位记录，按最近发现时间倒序
+ */
+export function queryJobs(
+  query: JobQuery = {},
+  storagePath: string = DEFAULT_STORAGE_PATH
+): JobRecord[] {
+  const records = Object.values(readDatabase(storagePath).jobs).filter((record) => {
+    if (query.source && record.source !== query.source) {
+      return false;
+    }
+    if (query.minScore !== undefined && getRecordScore(record, query.profileId) < query.minScore) {
+      return false;
+    }
+    if (query.since && new Date(record.lastSeenAt).getTime() < query.since.getTime()) {
+      return false;
+    }
+    return true;
+  });
+
+  records.sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+
+  return query.limit !== undefined ? records.slice(0, query.limit) : records;
+}
+
+/**
+ * 将带分析结果的记录还原为 AnalyzedJob
+ */
+export function toAnalyzedJob(
+  record: JobRecord,
+  profileId: string = DEFAULT_PROFILE_ID
+): AnalyzedJob | null {
+  const analysis = record.analyses?.[profileId];
+  if (!record.job || !analysis) {
+    return null;
+  }
+
+  return {
+    ...deserializeJob(record.job),
+    score: analysis.score,
+    reason: analysis.reason,
+    relevance: analysis.relevance,
+    insights: analysis.insights,
+    profileId,
+  };
+}
+
+/**
+ * 保存运行记录（只保留最近 100 条）
+ */
+export function saveRunRecord(run: RunRecord, storagePath: string = DEFAULT_STORAGE_PATH): void {
+  const db = readDatabase(storagePath);
+  db.runs = [...(db.runs || []), run].slice(-MAX_RUN_HISTORY);
+  writeDatabase(db, storagePath);
+}
+
+/**
+ * 获取运行记录，最近的在前
+ */
+export function getRunHistory(
+  limit?: number,
+  storagePath: string = DEFAULT_STORAGE_PATH
+): RunRecord[] {
+  const runs = [...(readDatabase(storagePath).runs || [])].reverse();
+  return limit !== undefined ? runs.slice(0, limit) : runs;
+}
+
+/**
+ * 加载已处理的职位ID列表
+ */
+export function loadProcessedJobs(storagePath: string = DEFAULT_STORAGE_PATH): string[] {
+  return Object.values(readDatabase(storagePath).jobs)
+    .filter((record) => record.processedAt)
+    .map((record) => record.id);
+}
+
+/**
+ * 保存已处理的职位ID（同时清除待重试状态）
+ */
+export function saveProcessedJob(jobId: string, storagePath: string = DEFAULT_STORAGE_PATH): void {
+  const db = readDatabase(storagePath);
+  const existing = db.jobs[jobId];
+
+  // 避免重复
+  if (existing?.processedAt && !existing.pending) {
+    return;
   }
 
+  const now = new Date().toISOString();
+  db.jobs[jobId] = {
+    ...existing,
+    pending: undefined,
+    id: jobId,
+    source: existing?.source || sourceFromId(jobId),
+    firstSeenAt: existing?.firstSeenAt || now,
+    lastSeenAt: existing?.lastSeenAt || now,
+    processedAt: now,
+  };
+
+  writeDatabase(db, storagePath);
+}
+
+/**
+ * 将职位标记为待重试（清除已处理状态），返回累计尝试次数
+ */
+export function markJobPending(
+  jobId: string,
+  profileIds: string[],
+  reason: string,
+  storagePath: string = DEFAULT_STORAGE_PATH
+): number {
+  const db = readDatabase(storagePath);
+  const existing = db.jobs[jobId];
+  const now = new Date().toISOString();
+  const pending: PendingAnalysis = {
+    profileIds,
+    attempts: (existing?.pending?.attempts || 0) + 1,
+    lastError: reason,
+    since: existing?.pending?.since || now,
+  };
+
+  db.jobs[jobId] = {
+    ...existing,
+    id: jobId,
+    source: existing?.source || sourceFromId(jobId),
+    firstSeenAt: existing?.firstSeenAt || now,
+    lastSeenAt: existing?.lastSeenAt || now,
+    processedAt: undefined,
+    pending,
+  };
+
+  writeDatabase(db, storagePath);
+  return pending.attempts;
+}
+
+/**
+ * 加载待重试的职位及需要重新分析的档案
+ */
+export function loadPendingJobs(
+  storagePath: string = DEFAULT_STORAGE_PATH
+): Array<{ job: Job; profileIds: string[] }> {
+  return Object.values(readDatabase(storagePath).jobs)
+    .filter((record) => record.pending && record.job)
+    .map((record) => ({
+      job: deserializeJob(record.job!),
+      profileIds: record.pending!.profileIds,
+    }));
+}
+
+/**
+ * 检查职位是否已处理
+ */
+export function isJobProcessed(jobId: string, storagePath: string = DEFAULT_STORAGE_PATH): boolean {
+  return Boolean(readDatabase(storagePath).jobs[jobId]?.processedAt);
+}
+
+/**
+ * 清空职位数据库（用于测试或重置）
+ */
+export function clearProcessedJobs(storagePath: string = DEFAULT_STORAGE_PATH): void {
   try {
-    writeFileSync(storagePath, JSON.stringify(data, null, 2), 'utf-8');
+    saveJobDatabase(createEmptyDatabase(), storagePath);
   } catch (error) {
     console.error(`无法清空存储文件 ${storagePath}:`, error);
     throw error;
@@ -0,0 +1,216 @@
+import axios from 'axios';
+import { AnalyzedJob, TriageStatus } from './types.js';
+import { DEFAULT_PROFILE_ID } from './profiles.js';
+import { decodeEntities } from './html.js';
+
+/**
+ * Telegram 单条消息的最大长度（字符）
+ */
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+/**
+ * Telegram Bot API 地址
+ */
+export const TELEGRAM_API_BASE = 'https://api.telegram.org';
+
+const TELEGRAM_TIMEOUT = 10000;
+
+// callback_data 的最大字节数
+const CALLBACK_DATA_LIMIT = 64;
+
+/**
+ * 处理按钮：状态、按钮文字和 callback_data 中的代号
+ */
+export const TRIAGE_BUTTONS: { status: TriageStatus; label: string; code: string }[] = [
+  { status: 'interested', label: '👍 感兴趣', code: 'i' },
+  { status: 'applied', label: '📨 已投递', code: 'a' },
+  { status: 'dismissed', label: '🙅 不合适', code: 'd' },
+  { status: 'snoozed', label: '⏰ 稍后提醒', code: 's' },
+];
+
+/**
+ * 转义 Telegram HTML 模式中的特殊字符
+ */
+export function escapeTelegramHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * 将 HTML 消息转换为纯文本（去掉标签并解码实体），用于解析失败时重发
+ */
+export function stripTelegramHtml(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ''));
+}
+
+/**
+ * 找到不会切断 HTML 标签、实体或 UTF-16 代理对（如 emoji）的截断位置
+ */
+function safeCut(text: string, limit: number): number {
+  const cut = text.slice(0, limit);
+  let end = limit;
+  const tagStart = cut.lastIndexOf('<');
+  const entityStart = cut.lastIndexOf('&');
+  if (tagStart > cut.lastIndexOf('>')) {
+    end = tagStart || limit;
+  } else if (entityStart > cut.lastIndexOf(';')) {
+    end = entityStart || limit;
+  }
+
+  // 截断位置落在代理对中间时后退一个码元
+  const code = text.charCodeAt(end - 1);
+  return end > 1 && code >= 0xd800 && code <= 0xdbff ? end - 1 : end;
+}
+
+/**
+ * 将长消息拆分为不超过 limit 的多条，优先在换行处拆分，过长的行在标签和实体之外截断
+ */
+export function splitTelegramMessage(
+  text: string,
+  limit: number = TELEGRAM_MESSAGE_LIMIT
+): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (let line of text.split('\n')) {
+    const candidate = current ? `${current}\n${line}` : line;
+    if (candidate.length <= limit) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) {
+      chunks.push(current);
+    }
+    while (line.length > limit) {
+      const cut = safeCut(line, limit);
+      chunks.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+    current = line;
+  }
+
+  if (current || chunks.length === 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * 是否为 Telegram 的消息解析错误（例如 "can't parse entities"）
+ */
+function isParseError(error: unknown): boolean {
+  const response = (error as { response?: { status?: number; data?: { description?: string } } })
+    ?.response;
+  return response?.status === 400 && /parse/i.test(response.data?.description || '');
+}
+
+/**
+ * 按钮键盘（inline keyboard）
+ */
+export interface InlineKeyboard {
+  inline_keyboard: { text: string; callback_data: string }[][];
+}
+
+/**
+ * 发送消息的选项
+ */
+export interface TelegramSendOptions {
+  html?: boolean; // 使用 HTML 模式（文本中的外部内容需已转义）
+  replyMarkup?: InlineKeyboard; // 附加在最后一条消息上
+  apiBase?: string;
+}
+
+/**
+ * 调用 Telegram Bot API，返回 result 字段
+ */
+export async function callTelegram<T = unknown>(
+  botToken: string,
+  method: string,
+  payload: Record<string, unknown>,
+  options: { apiBase?: string; timeout?: number } = {}
+): Promise<T> {
+  const response = await axios.post<{ ok: boolean; result: T }>(
+    `${options.apiBase || TELEGRAM_API_BASE}/bot${botToken}/${method}`,
+    payload,
+    { proxy: false, timeout: options.timeout ?? TELEGRAM_TIMEOUT }
+  );
+  return response.data.result;
+}
+
+/**
+ * 生成职位的处理按钮，已选中的状态带 ✅ 标记
+ * callback_data 格式为 `代号:档案ID:职位ID`，超过 64 字节时不附带按钮
+ */
+export function buildTriageKeyboard(
+  job: Pick<AnalyzedJob, 'id' | 'profileId'>,
+  selected?: TriageStatus
+): InlineKeyboard | undefined {
+  const profileId = job.profileId || DEFAULT_PROFILE_ID;
+  if (profileId.includes(':')) {
+    return undefined;
+  }
+
+  const buttons = TRIAGE_BUTTONS.map((button) => ({
+    text: button.status === selected ? `✅ ${button.label}` : button.label,
+    callback_data: `${button.code}:${profileId}:${job.id}`,
+  }));
+  if (buttons.some((button) => Buffer.byteLength(button.callback_data) > CALLBACK_DATA_LIMIT)) {
+    return undefined;
+  }
+
+  return { inline_keyboard: [buttons.slice(0, 2), buttons.slice(2)] };
+}
+
+/**
+ * 解析处理按钮的 callback_data，格式不符时返回 null
+ */
+export function parseTriageCallback(
+  data: string
+): { status: TriageStatus; profileId: string; jobId: string } | null {
+  const match = data.match(/^(\w):([^:]+):(.+)$/);
+  const button = match && TRIAGE_BUTTONS.find((item) => item.code === match[1]);
+  return button ? { status: button.status, profileId: match[2], jobId: match[3] } : null;
+}
+
+/**
+ * 发送 Telegram 消息
+ * 超长消息自动拆分为多条；HTML 解析失败时改为纯文本重发，其他错误直接抛出
+ */
+export async function sendTelegramMessage(
+  botToken: string,
+  chatId: string,
+  text: string,
+  options: TelegramSendOptions = {}
+): Promise<void> {
+  const chunks = splitTelegramMessage(text);
+  const post = (chunk: string, index: number, parseMode?: 'HTML') =>
+    callTelegram(
+      botToken,
+      'sendMessage',
+      {
+        chat_id: chatId,
+        text: chunk,
+        parse_mode: parseMode,
+        disable_web_page_preview: false,
+        reply_markup: index === chunks.length - 1 ? options.replyMarkup : undefined,
+      },
+      options
+    );
+
+  for (const [index, chunk] of chunks.entries()) {
+    if (!options.html) {
+      await post(chunk, index);
+      continue;
+    }
+
+    try {
+      await post(chunk, index, 'HTML');
+    } catch (error) {
+      if (!isParseError(error)) {
+        throw error;
+      }
+      console.warn('Telegram 无法解析消息格式，改为纯文本发送');
+      await post(stripTelegramHtml(chunk), index);
+    }
+  }
+}
@@ -1,3 +1,21 @@
+/**
+ * 内置数据源ID
+ */
+export type BuiltinSourceId =
+  | 'remoteok'
+  | 'weworkremotely'
+  | 'web3career'
+  | 'hnhiring'
+  | 'jobicy'
+  | 'cryptojobslist'
+  | 'workingnomads'
+  | 'remotive';
+
+/**
+ * 数据源ID（内置数据源或通过模块加载的第三方数据源）
+ */
+export type JobSourceId = BuiltinSourceId | (string & {});
+
 /**
  * 职位数据接口
  */
@@ -8,15 +26,82 @@ export interface Job {
   description: string;
   url: string;
   postedAt: Date;
-  source:
-    | 'remoteok'
-    | 'weworkremotely'
-    | 'web3career'
-    | 'hnhiring'
-    | 'jobicy'
-    | 'cryptojobslist'
-    | 'workingnomads'
-    | 'remotive';
+  source: JobSourceId;
+  location?: string; // 数据源提供的地区限制，例如 RemoteOK 的 location、Remotive 的 candidate_required_location
+  salary?: SalaryRange; // 数据源提供或从描述中解析的薪资
+  listings?: JobListing[]; // 跨数据源合并后，同一职位在各数据源的发布（包括自身）
+}
+
+/**
+ * 职位在某个数据源上的发布信息
+ */
+export interface JobListing {
+  id: string;
+  source: JobSourceId;
+  url: string;
+}
+
+/**
+ * 职位数据源接口
+ */
+export interface JobSource {
+  id: JobSourceId;
+  name: string; // 显示名称
+  fetch: () => Promise<Job[]>;
+  isEnabled?: () => boolean; // 可选的启用检查，返回 false 时跳过该数据源
+}
+
+/**
+ * 单次运行中数据源的抓取结果
+ */
+export interface SourceOutcome {
+  sourceId: JobSourceId;
+  ok: boolean;
+  jobs: number;
+  latencyMs: number;
+  errorClass?: string; // 失败类型：timeout、network、http-503、parse 等
+  error?: string;
+}
+
+/**
+ * 数据源健康状态（跨运行累计）
+ */
+export interface SourceHealth {
+  consecutiveFailures: number;
+  consecutiveEmpty: number; // 连续成功但返回 0 个职位的次数
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  lastError?: string;
+  openUntil?: string; // 熔断到期时间，之前的运行跳过该数据源
+}
+
+/**
+ * 薪资范围
+ */
+export interface SalaryRange {
+  min?: number;
+  max?: number;
+  currency: string; // 三位货币代码，例如 USD
+  period: 'year' | 'month' | 'hour';
+}
+
+/**
+ * 办公方式：完全远程 / 远程但限定时区 / 混合办公 / 现场办公
+ */
+export type RemoteType = 'remote' | 'timezone' | 'hybrid' | 'onsite';
+
+/**
+ * AI 从职位描述中提取的结构化信息，描述中没有提到的字段为空
+ */
+export interface JobInsights {
+  seniority?: Seniority;
+  salary?: SalaryRange;
+  remoteType?: RemoteType;
+  timezone?: string; // 限定的时区，例如 "UTC-5 ~ UTC+1"
+  regions?: string[]; // 允许工作的国家或地区
+  techStack?: string[];
+  visaSponsorship?: boolean;
+  redFlags?: string[];
 }
 
 /**
@@ -25,6 +110,21 @@ export interface Job {
 export interface AnalyzedJob extends Job {
   score: number; // 1-10 评分
   reason: string; // 匹配理由
+  profileId?: string; // 评分所依据的候选人档案
+  relevance?: number; // 0-1 本地相关度，作为 LLM 评分之外的第二信号
+  insights?: JobInsights;
+  companyNote?: string; // 档案中对该公司的备注
+}
+
+/**
+ * 评分标准模板
+ */
+export interface ScoringRubric {
+  role: string; // 目标方向，例如 '前端开发'
+  keywords: string[]; // 该方向的职位关键词
+  adjacent: string; // 4-5 分：相邻但不完全匹配的职位
+  unrelated: string; // 1-3 分：完全不相关的职位
+  notes?: string[]; // 额外评分规则
 }
 
 /**
@@ -34,6 +134,7 @@ export interface UserBackground {
   experience: string;
   skills: string[];
   location: string;
+  rubric?: string | ScoringRubric; // 预设评分模板ID或自定义模板，未设置时根据技能生成
   preferences: {
     remoteOnly: boolean;
     industries: string[];
@@ -41,9 +142,206 @@ export interface UserBackground {
 }
 
 /**
- * 已处理职位存储格式
+ * 职位级别
+ */
+export type Seniority = 'intern' | 'junior' | 'mid' | 'senior' | 'lead';
+
+/**
+ * 预筛选规则：在调用 LLM 之前用关键词和规则排除明显不匹配的职位
+ */
+export interface PrefilterRules {
+  enabled: boolean;
+  matchSkills: boolean; // 标题和描述中至少出现一项技能或评分模板关键词
+  requiredKeywords?: string[]; // 至少出现一个
+  excludedKeywords?: string[]; // 出现任一即排除
+  titlePatterns?: string[]; // 标题正则（不区分大小写），设置后至少匹配一个
+  excludedTitlePatterns?: string[]; // 标题匹配任一即排除
+  seniority?: Seniority[]; // 接受的职位级别，标题中没有级别信息的职位视为 mid
+  autoScore?: number; // 设置后，被排除的职位以该评分保存，否则只标记为已处理
+}
+
+/**
+ * 地区资格规则：检查远程职位是否对候选人所在地区和时区开放
+ */
+export interface LocationRules {
+  enabled: boolean;
+  action: 'drop' | 'downrank'; // drop: 不符合的职位不调用 LLM 也不通知；downrank: 评分扣除 penalty
+  penalty: number;
+  regions?: string[]; // 候选人可以工作的地区，未设置时根据 background.location 推断
+  utcOffset?: number; // 候选人所在时区（UTC 偏移小时数），未设置时根据地区推断
+  timezoneTolerance: number; // 职位限定时区时，允许与候选人时区相差的小时数
+}
+
+/**
+ * 薪资规则：低于档案 minSalary 的职位降分或排除
+ */
+export interface SalaryRules {
+  currency: string; // minSalary 以及换算显示使用的货币
+  minSalary?: number; // 默认的最低年薪，档案中的 minSalary 会覆盖
+  action: 'drop' | 'downrank'; // drop: 不调用 LLM 也不通知；downrank: 评分扣除 penalty
+  penalty: number;
+}
+
+/**
+ * 公司名单：按标准化后的公司名称模糊匹配
+ */
+export interface CompanyRules {
+  allow: string[]; // 允许列表：跳过预筛选等规则，总是通知
+  deny: string[]; // 拒绝列表：不调用 LLM，也不通知
+  notes: Record<string, string>; // 公司名称 → 备注，显示在通知中
+}
+
+/**
+ * 通知目标
+ */
+export interface NotificationTargets {
+  telegramChatId?: string;
+  email?: string[]; // 收件人，需要配置 SMTP_HOST
+  slackWebhookUrl?: string;
+  discordWebhookUrl?: string;
+  webhookUrl?: string; // 通用 JSON webhook，设置 WEBHOOK_SECRET 时附带 HMAC 签名
+}
+
+/**
+ * 通知方式：instant 立即通知每个职位，digest 汇总到定时摘要，
+ * hybrid 高分职位立即通知、其他职位进入摘要
+ */
+export type DeliveryMode = 'instant' | 'digest' | 'hybrid';
+
+/**
+ * 候选人档案
+ * 同一部署可以配置多个档案，每个职位会针对每个档案分别评分
+ */
+export interface CandidateProfile {
+  id: string;
+  name: string;
+  background: UserBackground;
+  minScore: number; // 达到该评分才通知
+  minSalary?: number; // 最低年薪（salary.currency），未设置时不按薪资过滤
+  sources?: JobSourceId[]; // 数据源白名单，未设置时使用所有数据源
+  prefilter: PrefilterRules;
+  location: LocationRules;
+  companies: CompanyRules;
+  notify: NotificationTargets;
+  delivery?: DeliveryMode; // 未设置时使用 digest.mode
+}
+
+/**
+ * 已处理职位存储格式（旧版 processed_jobs.json，仅用于迁移）
  */
 export interface ProcessedJobs {
   jobIds: string[];
   lastUpdated: string;
 }
+
+/**
+ * 序列化后的职位数据（日期以 ISO 字符串存储）
+ */
+export type StoredJob = Omit<Job, 'postedAt'> & { postedAt: string };
+
+/**
+ * AI 分析结果
+ */
+export interface JobAnalysis {
+  score: number;
+  reason: string;
+  relevance?: number;
+  insights?: JobInsights;
+  analyzedAt: string;
+}
+
+/**
+ * 因临时错误待重试的分析
+ */
+export interface PendingAnalysis {
+  profileIds: string[]; // 需要重新分析的档案
+  attempts: number;
+  lastError: string;
+  since: string;
+}
+
+/**
+ * 用户对职位的处理状态：感兴趣、已投递、不合适、稍后提醒
+ */
+export type TriageStatus = 'interested' | 'applied' | 'dismissed' | 'snoozed';
+
+/**
+ * 用户对职位的处理结果（通过 Telegram 按钮设置）
+ */
+export interface JobTriage {
+  status: TriageStatus;
+  updatedAt: string;
+  snoozedUntil?: string; // status 为 snoozed 时，到期后重新推送
+}
+
+/**
+ * 职位数据库记录
+ */
+export interface JobRecord {
+  id: string;
+  source: JobSourceId;
+  job?: StoredJob; // 从旧版 ID 列表迁移的记录没有职位详情
+  analyses?: Record<string, JobAnalysis>; // 按候选人档案ID保存的分析结果
+  firstSeenAt: string;
+  lastSeenAt: string;
+  processedAt?: string; // 设置后表示职位已处理，不再重复分析
+  pending?: PendingAnalysis; // 设置后表示下次运行需要重新分析
+  triage?: Record<string, JobTriage>; // 按候选人档案ID保存的处理状态
+}
+
+/**
+ * 单个提供商/模型的 token 用量
+ */
+export interface ModelUsage {
+  provider: string;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost?: number; // 美元，价格表中没有该模型时为空
+}
+
+/**
+ * 一次运行的 token 用量和费用汇总
+ */
+export interface UsageSummary {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // 美元，仅包含已知价格的模型
+  unpricedCalls: number; // 价格未知的调用次数
+  models: ModelUsage[];
+}
+
+/**
+ * 运行记录
+ */
+export interface RunRecord {
+  startedAt: string;
+  finishedAt: string;
+  fetched: number;
+  newJobs: number;
+  analyzed: number;
+  failed: number;
+  prefiltered: number; // 被预筛选排除、未调用 LLM 的职位数
+  shortlistSkipped: number; // 相关度排名未进入前 K 的职位数
+  locationFiltered: number; // 地区或时区不符、未调用 LLM 的职位数
+  salaryFiltered: number; // 薪资低于 minSalary、未调用 LLM 的职位数
+  companyFiltered: number; // 公司在拒绝列表中、未调用 LLM 的职位数
+  skipped: number; // 因超出预算未分析的职位数
+  pending: number; // 留待下次运行重新分析的职位数
+  matched: number;
+  budgetExceeded: boolean;
+  usage: UsageSummary;
+  sources?: SourceOutcome[]; // 各数据源的抓取结果（不含熔断跳过的数据源）
+}
+
+/**
+ * 职位数据库存储格式
+ */
+export interface JobDatabase {
+  version: number;
+  jobs: Record<string, JobRecord>;
+  runs?: RunRecord[]; // 最近的运行记录，按时间顺序
+  lastUpdated: string;
+}
@@ -0,0 +1,171 @@
+import { AIProvider } from './config.js';
+import { getFileConfig } from './configFile.js';
+import { LLMUsage } from './llm.js';
+import { ModelUsage, UsageSummary } from './types.js';
+
+/**
+ * 模型价格（美元 / 百万 token）
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * 价格表：提供商 → 模型 → 价格，模型名 `*` 表示该提供商的默认价格
+ */
+export type PriceTable = Partial<Record<AIProvider, Record<string, ModelPrice>>>;
+
+/**
+ * 内置价格表（按各服务公开的标准价格，可能随时调整，可在配置文件 ai.prices 中覆盖）
+ */
+export const defaultPrices: PriceTable = {
+  deepseek: {
+    'deepseek-chat': { input: 0.27, output: 1.1 },
+    'deepseek-reasoner': { input: 0.55, output: 2.19 },
+  },
+  openai: {
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4': { input: 30, output: 60 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  },
+  groq: {
+    'llama-3.1-70b-versatile': { input: 0.59, output: 0.79 },
+    'mixtral-8x7b-32768': { input: 0.24, output: 0.24 },
+  },
+  together: {
+    'meta-llama/Llama-3-70b-chat-hf': { input: 0.88, output: 0.88 },
+  },
+  claude: {
+    'claude-sonnet-4-20250514': { input: 3, output: 15 },
+    'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+    'claude-3-opus-20240229': { input: 15, output: 75 },
+  },
+};
+
+/**
+ * 获取价格表（配置文件 ai.prices 中的条目覆盖内置价格）
+ */
+export function getPriceTable(): PriceTable {
+  const filePrices = getFileConfig().ai?.prices || {};
+  const table: PriceTable = { ...defaultPrices };
+
+  for (const [provider, prices] of Object.entries(filePrices)) {
+    const key = provider as AIProvider;
+    table[key] = { ...table[key], ...prices };
+  }
+
+  return table;
+}
+
+/**
+ * 查找模型价格，找不到时使用该提供商的 `*` 条目
+ */
+export function findModelPrice(
+  provider: AIProvider,
+  model: string,
+  table: PriceTable = getPriceTable()
+): ModelPrice | undefined {
+  const prices = table[provider];
+  return prices?.[model] || prices?.['*'];
+}
+
+/**
+ * 按价格估算费用（美元）
+ */
+export function estimateCost(usage: LLMUsage, price: ModelPrice): number {
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * 每次运行的用量上限
+ */
+export interface UsageLimits {
+  budget?: number; // 费用上限（美元），只计入价格已知的调用
+  tokenBudget?: number; // 输入+输出 token 总数上限，价格未知的模型也能生效
+}
+
+/**
+ * 当前运行的用量统计
+ */
+interface UsageRun {
+  limits: UsageLimits;
+  prices: PriceTable;
+  models: Map<string, ModelUsage>;
+}
+
+let currentRun: UsageRun = { limits: {}, prices: defaultPrices, models: new Map() };
+
+/**
+ * 开始新一轮用量统计
+ * @param limits 本轮费用 / token 上限，未设置时不限制
+ */
+export function startUsageRun(
+  limits: UsageLimits = {},
+  prices: PriceTable = getPriceTable()
+): void {
+  currentRun = { limits, prices, models: new Map() };
+}
+
+/**
+ * 记录一次 LLM 调用的用量
+ */
+export function recordUsage(provider: AIProvider, model: string, usage: LLMUsage): void {
+  const key = `${provider}/${model}`;
+  const entry = currentRun.models.get(key) || {
+    provider,
+    model,
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+  };
+
+  entry.calls++;
+  entry.inputTokens += usage.inputTokens;
+  entry.outputTokens += usage.outputTokens;
+
+  const price = findModelPrice(provider, model, currentRun.prices);
+  if (price) {
+    entry.cost = (entry.cost || 0) + estimateCost(usage, price);
+  }
+
+  currentRun.models.set(key, entry);
+}
+
+/**
+ * 获取当前运行的用量汇总
+ */
+export function getUsageSummary(): UsageSummary {
+  const models = [...currentRun.models.values()].map((entry) => ({ ...entry }));
+
+  return {
+    calls: models.reduce((sum, entry) => sum + entry.calls, 0),
+    inputTokens: models.reduce((sum, entry) => sum + entry.inputTokens, 0),
+    outputTokens: models.reduce((sum, entry) => sum + entry.outputTokens, 0),
+    cost: models.reduce((sum, entry) => sum + (entry.cost || 0), 0),
+    unpricedCalls: models
+      .filter((entry) => entry.cost === undefined)
+      .reduce((sum, entry) => sum + entry.calls, 0),
+    models,
+  };
+}
+
+/**
+ * 检查当前运行是否已超出费用或 token 上限
+ */
+export function isBudgetExceeded(): boolean {
+  const { budget, tokenBudget } = currentRun.limits;
+  const summary = getUsageSummary();
+  return (
+    (budget !== undefined && summary.cost >= budget) ||
+    (tokenBudget !== undefined && summary.inputTokens + summary.outputTokens >= tokenBudget)
+  );
+}
+
+/**
+ * 格式化费用
+ */
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 0.01 ? 4 : 2)}`;
+}
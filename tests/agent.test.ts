@@ -1,8 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import OpenAI from 'openai';
-import { analyzeJob, buildPrompt, parseAIResponse } from '../src/agent.js';
+import {
+  analyzeJob,
+  analyzeJobs,
+  buildPrompt,
+  buildBatchPrompt,
+  parseAIResponse,
+  parseBatchResponse,
+} from '../src/agent.js';
 import { Job } from '../src/types.js';
 import { userBackground } from '../src/config.js';
+import { getUsageSummary, startUsageRun } from '../src/usage.js';
 
 // Mock OpenAI
 vi.mock('openai', () => {
@@ -38,6 +46,74 @@ describe('Agent Module', () => {
       expect(prompt).toContain('JSON格式');
       expect(prompt).toContain('8-10');
     });
+
+    it('应该把完整描述放入提示词', () => {
+      const description = `${'React '.repeat(800)}Must have GraphQL`;
+      const job: Job = {
+        id: '1',
+        title: 'Frontend Engineer',
+        company: 'Tech Corp',
+        description,
+        url: 'https://example.com',
+        postedAt: new Date(),
+        source: 'remoteok',
+      };
+
+      expect(buildPrompt(job, userBackground)).toContain(description);
+      expect(buildBatchPrompt([job], userBackground)).toContain(description);
+    });
+
+    it('应该使用候选人背景和对应的评分模板', () => {
+      const job: Job = {
+        id: '1',
+        title: 'Backend Engineer',
+        company: 'Tech Corp',
+        description: 'Go microservices',
+        url: 'https://example.com',
+        postedAt: new Date(),
+        source: 'remoteok',
+      };
+
+      const prompt = buildPrompt(job, {
+        experience: '5年后端经验',
+        skills: ['Go', 'PostgreSQL'],
+        location: '新加坡',
+        rubric: 'backend',
+        preferences: { remoteOnly: false, industries: ['FinTech'] },
+      });
+
+      expect(prompt).toContain('5年后端经验');
+      expect(prompt).toContain('Go, PostgreSQL');
+      expect(prompt).toContain('FinTech');
+      expect(prompt).toContain('后端开发相关职位');
+      expect(prompt).toContain('远程或可在新加坡工作');
+      expect(prompt).not.toContain('前端开发');
+    });
+
+    it('未设置模板时应该根据技能生成评分标准', () => {
+      const job: Job = {
+        id: '1',
+        title: 'Designer',
+        company: 'Tech Corp',
+        description: 'Figma',
+        url: 'https://example.com',
+        postedAt: new Date(),
+        source: 'remoteok',
+      };
+
+      const prompt = buildPrompt(job, {
+        ...userBackground,
+        rubric: undefined,
+        skills: ['Figma', 'Sketch'],
+      });
+      expect(prompt).toContain('Figma, Sketch');
+      expect(prompt).not.toContain('前端开发相关职位');
+    });
+
+    it('未知的评分模板应该报错', () => {
+      const job = { id: '1' } as Job;
+      expect(() => buildPrompt(job, { ...userBackground, rubric: 'unknown' })).toThrow();
+    });
   });
 
   describe('parseAIResponse', () => {
@@ -139,4 +215,159 @@ describe('Agent Module', () => {
       await expect(analyzeJob(job, userBackground)).rejects.toThrow();
     });
   });
+
+  describe('batch analysis', () => {
+    const jobs: Job[] = ['a', 'b', 'c'].map((id) => ({
+      id: `remoteok-${id}`,
+      title: `Frontend Engineer ${id}`,
+      company: 'Tech Corp',
+      description: 'React developer',
+      url: `https://example.com/${id}`,
+      postedAt: new Date(),
+      source: 'remoteok',
+    }));
+
+    beforeEach(() => {
+      process.env.AI_API_KEY = 'test-key';
+      process.env.AI_PROVIDER = 'deepseek';
+      process.env.AI_BATCH_SIZE = '3';
+    });
+
+    afterEach(() => {
+      delete process.env.AI_API_KEY;
+      delete process.env.AI_PROVIDER;
+      delete process.env.AI_BATCH_SIZE;
+      delete process.env.AI_CONCURRENCY;
+      startUsageRun({}, {});
+    });
+
+    it('批量提示词应该包含所有职位ID', () => {
+      const prompt = buildBatchPrompt(jobs, userBackground);
+      for (const job of jobs) {
+        expect(prompt).toContain(`[ID: ${job.id}]`);
+      }
+      expect(prompt).toContain('results');
+    });
+
+    it('应该解析数组和 results 对象两种格式', () => {
+      const fromArray = parseBatchResponse('[{"id": "x", "score": 7, "reason": "ok"}]');
+      expect(fromArray.get('x')).toEqual({ score: 7, reason: 'ok' });
+
+      const fromObject = parseBatchResponse(
+        '{"results": [{"id": "y", "score": 9, "reason": "great"}, {"id": "z", "score": 99}]}'
+      );
+      expect(fromObject.get('y')?.score).toBe(9);
+      expect(fromObject.has('z')).toBe(false);
+    });
+
+    it('应该一次调用分析多个职位，并对缺失的ID回退到逐个分析', async () => {
+      const create = vi
+        .fn()
+        .mockResolvedValueOnce({
+          choices: [
+            {
+              message: {
+                content: JSON.stringify({
+                  results: [
+                    { id: 'remoteok-a', score: 9, reason: '匹配' },
+                    { id: 'remoteok-b', score: 3, reason: '不匹配' },
+                  ],
+                }),
+              },
+            },
+          ],
+        })
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: '{"score": 6, "reason": "单独分析"}' } }],
+        });
+
+      (OpenAI as any).mockImplementation(() => ({ chat: { completions: { create } } }));
+
+      const onOutcome = vi.fn();
+      const outcomes = await analyzeJobs(jobs, userBackground, onOutcome);
+
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(outcomes.map((o) => o.analyzed?.score)).toEqual([9, 3, 6]);
+      expect(outcomes[2].analyzed?.reason).toBe('单独分析');
+      expect(onOutcome).toHaveBeenCalledTimes(3);
+    });
+
+    it('批量请求失败时应该整批记录错误，不逐个重试', async () => {
+      const error = new Error('batch failed');
+      const create = vi.fn().mockRejectedValue(error);
+
+      (OpenAI as any).mockImplementation(() => ({ chat: { completions: { create } } }));
+
+      const onOutcome = vi.fn();
+      const outcomes = await analyzeJobs(jobs, userBackground, onOutcome);
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(outcomes.map((o) => o.error)).toEqual([error, error, error]);
+      expect(onOutcome).toHaveBeenCalledTimes(3);
+    });
+
+    it('批量响应无法解析时应该逐个分析并记录错误', async () => {
+      const create = vi
+        .fn()
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'not json' } }] })
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: '{"score": 8, "reason": "a"}' } }],
+        })
+        .mockRejectedValueOnce(new Error('API Error'))
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: '{"score": 5, "reason": "c"}' } }],
+        });
+
+      (OpenAI as any).mockImplementation(() => ({ chat: { completions: { create } } }));
+
+      const outcomes = await analyzeJobs(jobs, userBackground);
+      expect(create).toHaveBeenCalledTimes(4);
+      expect(outcomes[0].analyzed?.score).toBe(8);
+      expect(outcomes[1].error).toBeInstanceOf(Error);
+      expect(outcomes[2].analyzed?.score).toBe(5);
+    });
+
+    it('超出费用上限后应该跳过剩余职位并记录用量', async () => {
+      process.env.AI_BATCH_SIZE = '1';
+      process.env.AI_CONCURRENCY = '1';
+      startUsageRun({ budget: 0.001 }, { deepseek: { 'deepseek-chat': { input: 1, output: 1 } } });
+
+      const create = vi.fn().mockResolvedValue({
+        choices: [{ message: { content: '{"score": 7, "reason": "ok"}' } }],
+        usage: { prompt_tokens: 900, completion_tokens: 100 },
+      });
+      (OpenAI as any).mockImplementation(() => ({ chat: { completions: { create } } }));
+
+      const outcomes = await analyzeJobs(jobs, userBackground);
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(outcomes[0].analyzed?.score).toBe(7);
+      expect(outcomes.slice(1).every((o) => o.skipped)).toBe(true);
+
+      const usage = getUsageSummary();
+      expect(usage.calls).toBe(1);
+      expect(usage.inputTokens).toBe(900);
+      expect(usage.cost).toBeCloseTo(0.001);
+    });
+
+    it('并发分析时结果应该按输入顺序返回', async () => {
+      process.env.AI_BATCH_SIZE = '1';
+      process.env.AI_CONCURRENCY = '3';
+
+      // 第一个职位最后完成
+      const delays: Record<string, number> = { a: 30, b: 10, c: 0 };
+      const create = vi.fn().mockImplementation(async ({ messages }) => {
+        const id = (messages[1].content as string).match(/Frontend Engineer (\w)/)![1];
+        await new Promise((resolve) => setTimeout(resolve, delays[id]));
+        return { choices: [{ message: { content: `{"score": 5, "reason": "${id}"}` } }] };
+      });
+      (OpenAI as any).mockImplementation(() => ({ chat: { completions: { create } } }));
+
+      const completedOrder: string[] = [];
+      const outcomes = await analyzeJobs(jobs, userBackground, ({ analyzed }) => {
+        completedOrder.push(analyzed!.reason);
+      });
+
+      expect(completedOrder).toEqual(['c', 'b', 'a']);
+      expect(outcomes.map((o) => o.analyzed?.reason)).toEqual(['a', 'b', 'c']);
+    });
+  });
 });
@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createBot, isAgentPaused, loadBotState } from '../src/bot.js';
+import { buildTriageKeyboard, parseTriageCallback } from '../src/telegram.js';
+import { getJobRecord, saveAnalyzedJob, setJobTriage } from '../src/storage.js';
+import { userBackground } from '../src/config.js';
+import { getNotifierSettings } from '../src/notifiers.js';
+import { AnalyzedJob, CandidateProfile } from '../src/types.js';
+
+const profile: CandidateProfile = {
+  id: 'default',
+  name: '默认',
+  background: userBackground,
+  minScore: 7,
+  prefilter: { enabled: true, matchSkills: true },
+  location: { enabled: false, action: 'downrank', penalty: 3, timezoneTolerance: 3 },
+  companies: { allow: [], deny: [], notes: {} },
+  notify: { telegramChatId: '42' },
+};
+
+function createJob(id: string, score: number, title: string): AnalyzedJob {
+  return {
+    id,
+    title,
+    company: 'Tech & Co',
+    description: 'React',
+    url: `https://example.com/jobs/${id}`,
+    postedAt: new Date(),
+    source: 'remoteok',
+    score,
+    reason: '技能匹配',
+    profileId: 'default',
+  };
+}
+
+interface ApiCall {
+  method: string;
+  payload: Record<string, unknown>;
+}
+
+describe('Telegram 按钮', () => {
+  it('callback_data 应该能还原状态、档案和职位', () => {
+    const keyboard = buildTriageKeyboard({ id: 'remoteok-1', profileId: 'default' }, 'applied');
+    const buttons = keyboard!.inline_keyboard.flat();
+
+    expect(buttons).toHaveLength(4);
+    expect(buttons[1].text).toBe('✅ 📨 已投递');
+    expect(parseTriageCallback(buttons[1].callback_data)).toEqual({
+      status: 'applied',
+      profileId: 'default',
+      jobId: 'remoteok-1',
+    });
+    expect(parseTriageCallback('x:default:remoteok-1')).toBeNull();
+  });
+
+  it('callback_data 超过 64 字节时不附带按钮', () => {
+    expect(buildTriageKeyboard({ id: `custom-${'x'.repeat(60)}` })).toBeUndefined();
+  });
+});
+
+describe('Telegram Bot', () => {
+  let server: Server;
+  let apiBase: string;
+  let calls: ApiCall[] = [];
+  let updates: unknown[] = [];
+  let dir: string;
+  let storagePath: string;
+  let statePath: string;
+
+  beforeAll(async () => {
+    // 模拟 Telegram API：getUpdates 返回排队的更新，发往 Chat "fail" 的消息返回错误，其他方法只记录请求
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const method = (req.url || '').split('/').pop() || '';
+        const payload = JSON.parse(body);
+        res.setHeader('Content-Type', 'application/json');
+        if (method === 'getUpdates') {
+          const result = updates.filter(
+            (update) => (update as { update_id: number }).update_id >= payload.offset
+          );
+          updates = [];
+          res.end(JSON.stringify({ ok: true, result }));
+          return;
+        }
+        calls.push({ method, payload });
+        if (payload.chat_id === 'fail') {
+          res.statusCode = 400;
+          res.end(JSON.stringify({ ok: false, description: 'Bad Request: chat not found' }));
+          return;
+        }
+        res.end(JSON.stringify({ ok: true, result: true }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    apiBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    calls = [];
+    updates = [];
+    dir = mkdtempSync(join(tmpdir(), 'jobhacker-bot-'));
+    storagePath = join(dir, 'jobs.json');
+    statePath = join(dir, 'bot-state.json');
+    saveAnalyzedJob(createJob('remoteok-1', 8, 'Frontend <Engineer>'), storagePath);
+    saveAnalyzedJob(createJob('remoteok-2', 9, 'Backend Engineer'), storagePath);
+    saveAnalyzedJob(createJob('remoteok-3', 5, 'Designer'), storagePath);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const bot = (profiles = [profile]) =>
+    createBot({
+      botToken: 'token',
+      profiles,
+      settings: { enabled: true, snoozeHours: 24, pollTimeoutSeconds: 0 },
+      apiBase,
+      statePath,
+      storagePath,
+    });
+
+  const callback = (updateId: number, data: string, chatId = 42) => ({
+    update_id: updateId,
+    callback_query: { id: `q${updateId}`, data, message: { message_id: 7, chat: { id: chatId } } },
+  });
+
+  const command = (updateId: number, text: string, chatId = 42) => ({
+    update_id: updateId,
+    message: { chat: { id: chatId }, text },
+  });
+
+  it('按钮应该更新职位的处理状态并标记选中的按钮', async () => {
+    updates = [callback(1, 'a:default:remoteok-1')];
+
+    expect(await bot().poll()).toBe(1);
+
+    expect(getJobRecord('remoteok-1', storagePath)?.triage?.default.status).toBe('applied');
+    expect(calls[0]).toMatchObject({
+      method: 'answerCallbackQuery',
+      payload: { text: '已标记为: 📨 已投递' },
+    });
+    expect(calls[1].method).toBe('editMessageReplyMarkup');
+    expect(JSON.stringify(calls[1].payload)).toContain('✅ 📨 已投递');
+    expect(loadBotState(statePath).offset).toBe(2);
+  });
+
+  it('应该忽略未配置的 Chat 发来的按钮和命令', async () => {
+    updates = [callback(1, 'd:default:remoteok-1', 99), command(2, '/pause', 99)];
+
+    await bot().poll();
+
+    expect(getJobRecord('remoteok-1', storagePath)?.triage).toBeUndefined();
+    expect(calls).toHaveLength(1);
+    expect(calls[0].payload.text).toBe('无效的操作');
+    expect(isAgentPaused(loadBotState(statePath))).toBe(false);
+  });
+
+  it('/top 应该按评分列出匹配职位，排除不合适的职位', async () => {
+    setJobTriage(
+      'remoteok-2',
+      'default',
+      { status: 'dismissed', updatedAt: new Date().toISOString() },
+      storagePath
+    );
+    saveAnalyzedJob(createJob('remoteok-4', 10, 'Staff Engineer'), storagePath);
+    updates = [command(1, '/top')];
+
+    await bot().poll();
+
+    const text = calls[0].payload.text as string;
+    expect(calls[0].payload.parse_mode).toBe('HTML');
+    expect(text).toContain('Frontend &lt;Engineer&gt;');
+    expect(text.indexOf('Staff Engineer')).toBeLessThan(text.indexOf('Frontend'));
+    expect(text).not.toContain('Backend Engineer');
+    expect(text).not.toContain('Designer');
+  });
+
+  it('/pause 和 /resume 应该控制定时运行', async () => {
+    updates = [command(1, '/pause 2')];
+    await bot().poll();
+
+    const state = loadBotState(statePath);
+    expect(isAgentPaused(state)).toBe(true);
+    expect(isAgentPaused(state, new Date(Date.now() + 3 * 60 * 60 * 1000))).toBe(false);
+
+    updates = [command(2, '/resume')];
+    await bot().poll();
+    expect(isAgentPaused(loadBotState(statePath))).toBe(false);
+  });
+
+  it('/status 应该显示处理状态统计', async () => {
+    updates = [callback(1, 'i:default:remoteok-1'), command(2, '/status')];
+
+    await bot().poll();
+
+    const status = calls.find((call) => call.method === 'sendMessage')!.payload.text as string;
+    expect(status).toContain('▶️ 运行中');
+    expect(status).toContain('👍 感兴趣 1');
+  });
+
+  it('稍后提醒到期后应该重新推送职位', async () => {
+    setJobTriage(
+      'remoteok-1',
+      'default',
+      {
+        status: 'snoozed',
+        updatedAt: new Date().toISOString(),
+        snoozedUntil: new Date(Date.now() - 1000).toISOString(),
+      },
+      storagePath
+    );
+
+    await bot().poll();
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].payload.chat_id).toBe('42');
+    expect(calls[0].payload.text).toContain('⏰ 提醒');
+    expect(calls[0].payload.reply_markup).toBeDefined();
+    expect(getJobRecord('remoteok-1', storagePath)?.triage?.default).toBeUndefined();
+    expect(loadBotState(statePath).snoozed).toEqual([]);
+  });
+
+  it('稍后提醒按钮应该单独记录提醒时间，改为其他状态时移除', async () => {
+    updates = [callback(1, 's:default:remoteok-1')];
+    await bot().poll();
+
+    const [entry] = loadBotState(statePath).snoozed!;
+    expect(entry).toMatchObject({ jobId: 'remoteok-1', profileId: 'default' });
+    expect(entry.remindAt).toBe(
+      getJobRecord('remoteok-1', storagePath)?.triage?.default.snoozedUntil
+    );
+
+    updates = [callback(2, 'i:default:remoteok-1')];
+    await bot().poll();
+    expect(loadBotState(statePath).snoozed).toEqual([]);
+  });
+
+  it('重新推送失败时应该退避重试，不在每次轮询时重发', async () => {
+    setJobTriage(
+      'remoteok-1',
+      'default',
+      {
+        status: 'snoozed',
+        updatedAt: new Date().toISOString(),
+        snoozedUntil: new Date(Date.now() - 1000).toISOString(),
+      },
+      storagePath
+    );
+    const failing = bot([{ ...profile, notify: { telegramChatId: 'fail' } }]);
+
+    await failing.poll();
+    await failing.poll();
+
+    expect(calls.filter((call) => call.method === 'sendMessage')).toHaveLength(1);
+    const [entry] = loadBotState(statePath).snoozed!;
+    expect(entry.attempts).toBe(1);
+    expect(Date.parse(entry.remindAt)).toBeGreaterThan(Date.now());
+    expect(getJobRecord('remoteok-1', storagePath)?.triage?.default.status).toBe('snoozed');
+  });
+
+  it('只有机器人运行时职位消息才附带按钮', async () => {
+    expect(getNotifierSettings().telegramButtons).toBe(false);
+
+    const running = bot();
+    const loop = running.start();
+    expect(getNotifierSettings().telegramButtons).toBe(true);
+
+    running.stop();
+    await loop;
+    expect(getNotifierSettings().telegramButtons).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { companyMatches, findCompany, findCompanyNote, screenCompanies } from '../src/companies.js';
+import { Job } from '../src/types.js';
+
+function createJob(id: string, company: string): Job {
+  return {
+    id,
+    title: 'Frontend Engineer',
+    company,
+    description: 'React',
+    url: `https://example.com/${id}`,
+    postedAt: new Date(),
+    source: 'remoteok',
+  };
+}
+
+describe('Companies Module', () => {
+  describe('companyMatches', () => {
+    it('应该忽略大小写、标点和公司后缀', () => {
+      expect(companyMatches('Acme, Inc.', 'acme')).toBe(true);
+      expect(companyMatches('ACME Labs Ltd', 'Acme Labs')).toBe(true);
+      expect(companyMatches('Cross Over', 'Crossover')).toBe(true);
+    });
+
+    it('应该按完整单词和相近拼写匹配', () => {
+      expect(companyMatches('Acme Labs', 'Acme')).toBe(true);
+      expect(companyMatches('Acmera', 'Acme')).toBe(false);
+      expect(companyMatches('Crossovr', 'Crossover')).toBe(true);
+      expect(companyMatches('Meta', 'Beta')).toBe(false);
+      expect(companyMatches('Unknown', '')).toBe(false);
+    });
+  });
+
+  it('应该返回匹配的名单条目和备注', () => {
+    expect(findCompany('Acme Labs', ['Globex', 'Acme'])).toBe('Acme');
+    expect(findCompanyNote('Globex Corporation', { globex: '面试流程很长' })).toBe('面试流程很长');
+    expect(findCompanyNote('Initech', { globex: '面试流程很长' })).toBeUndefined();
+  });
+
+  describe('screenCompanies', () => {
+    it('应该拆分允许、拒绝和其他职位，允许列表优先', () => {
+      const jobs = [
+        createJob('1', 'Acme Inc'),
+        createJob('2', 'Globex'),
+        createJob('3', 'Initech'),
+        createJob('4', 'Umbrella'),
+      ];
+
+      const result = screenCompanies(jobs, {
+        allow: ['Acme', 'Umbrella'],
+        deny: ['Globex', 'Umbrella'],
+        notes: {},
+      });
+
+      expect(result.allowed.map((job) => job.id)).toEqual(['1', '4']);
+      expect(result.kept.map((job) => job.id)).toEqual(['3']);
+      expect(result.rejected).toEqual([{ job: jobs[1], reason: '公司在拒绝列表中: Globex' }]);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { loadConfigFile, interpolateEnv, resetFileConfig } from '../src/configFile.js';
+import { getAIConfig, getFilterConfig, getUserBackground, userBackground } from '../src/config.js';
+
+const ENV_KEYS = [
+  'JOBHACKER_CONFIG',
+  'AI_API_KEY',
+  'AI_PROVIDER',
+  'AI_MODEL',
+  'DEEPSEEK_API_KEY',
+  'OPENAI_API_KEY',
+  'ANTHROPIC_API_KEY',
+  'TEST_KEY',
+  'AI_TEMPERATURE',
+  'AI_MAX_RETRIES',
+];
+
+describe('Config File Module', () => {
+  let dir: string;
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'jobhacker-config-'));
+    resetFileConfig();
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    resetFileConfig();
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = savedEnv[key];
+      }
+    }
+  });
+
+  function writeConfig(name: string, content: string): string {
+    const filePath = join(dir, name);
+    writeFileSync(filePath, content, 'utf-8');
+    return filePath;
+  }
+
+  describe('interpolateEnv', () => {
+    it('应该替换环境变量并支持默认值', () => {
+      process.env.TEST_KEY = 'secret';
+      expect(interpolateEnv({ a: '${TEST_KEY}', b: ['${MISSING_VAR:-fallback}'] })).toEqual({
+        a: 'secret',
+        b: ['fallback'],
+      });
+    });
+
+    it('应该记录未设置的环境变量', () => {
+      const missing: string[] = [];
+      interpolateEnv({ ai: { apiKey: '${MISSING_VAR}' } }, [], missing);
+      expect(missing).toEqual(['ai.apiKey: 环境变量 MISSING_VAR 未设置']);
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    it('应该加载 YAML 配置并插值环境变量', () => {
+      process.env.TEST_KEY = 'sk-test';
+      const filePath = writeConfig(
+        'jobhacker.config.yaml',
+        `
+background:
+  experience: 5年后端经验
+  skills: [Go, PostgreSQL]
+  rubric: backend
+filter:
+  minScore: 7
+ai:
+  provider: openai
+  apiKey: \${TEST_KEY}
+`
+      );
+
+      const config = loadConfigFile(filePath);
+      expect(config.background?.skills).toEqual(['Go', 'PostgreSQL']);
+      expect(config.background?.preferences.remoteOnly).toBe(true);
+      expect(config.filter?.minScore).toBe(7);
+      expect(config.ai?.apiKey).toBe('sk-test');
+    });
+
+    it('布尔字段应该接受插值得到的字符串', () => {
+      process.env.TEST_KEY = 'false';
+      const filePath = writeConfig(
+        'jobhacker.config.yaml',
+        `
+background:
+  skills: [Go]
+  preferences:
+    remoteOnly: \${TEST_KEY}
+prefilter:
+  enabled: \${MISSING_VAR:-true}
+`
+      );
+
+      const config = loadConfigFile(filePath);
+      expect(config.background?.preferences.remoteOnly).toBe(false);
+      expect(config.prefilter?.enabled).toBe(true);
+    });
+
+    it('应该加载 JSON 配置', () => {
+      const filePath = writeConfig(
+        'jobhacker.config.json',
+        JSON.stringify({ filter: { minScore: 6 } })
+      );
+      expect(loadConfigFile(filePath).filter?.minScore).toBe(6);
+    });
+
+    it('应该列出所有校验错误及其路径', () => {
+      const filePath = writeConfig(
+        'jobhacker.config.yaml',
+        `
+filter:
+  minScore: 20
+ai:
+  provider: unknown
+unknownKey: true
+`
+      );
+
+      expect(() => loadConfigFile(filePath)).toThrow(/filter\.minScore/);
+      expect(() => loadConfigFile(filePath)).toThrow(/ai\.provider/);
+      expect(() => loadConfigFile(filePath)).toThrow(/unknownKey/);
+    });
+
+    it('未知的评分模板名称应该在加载时报错', () => {
+      const filePath = writeConfig(
+        'jobhacker.config.yaml',
+        `
+background:
+  skills: [React]
+  rubric: fronted
+`
+      );
+
+      expect(() => loadConfigFile(filePath)).toThrow(/background\.rubric: 未知的评分模板: fronted/);
+    });
+  });
+
+  describe('合并顺序', () => {
+    it('没有配置文件时使用内置默认值', () => {
+      process.env.JOBHACKER_CONFIG = join(dir, 'missing.yaml');
+      expect(() => getFilterConfig()).toThrow(/文件不存在/);
+
+      delete process.env.JOBHACKER_CONFIG;
+      resetFileConfig();
+      expect(getUserBackground()).toEqual(userBackground);
+    });
+
+    it('环境变量优先于配置文件，配置文件优先于预设', () => {
+      process.env.JOBHACKER_CONFIG = writeConfig(
+        'jobhacker.config.yaml',
+        `
+ai:
+  provider: groq
+  apiKey: file-key
+  model: file-model
+  presets:
+    groq:
+      batchSize: 3
+`
+      );
+
+      const fromFile = getAIConfig();
+      expect(fromFile.provider).toBe('groq');
+      expect(fromFile.apiKey).toBe('file-key');
+      expect(fromFile.model).toBe('file-model');
+      expect(fromFile.batchSize).toBe(3);
+      expect(fromFile.baseURL).toBe('https://api.groq.com/openai/v1');
+
+      process.env.AI_API_KEY = 'env-key';
+      process.env.AI_MODEL = 'env-model';
+      const fromEnv = getAIConfig();
+      expect(fromEnv.apiKey).toBe('env-key');
+      expect(fromEnv.model).toBe('env-model');
+    });
+
+    it('数字环境变量为 0 时不应回退到默认值', () => {
+      process.env.AI_API_KEY = 'env-key';
+      process.env.AI_TEMPERATURE = '0';
+      process.env.AI_MAX_RETRIES = '0';
+
+      const config = getAIConfig();
+      expect(config.temperature).toBe(0);
+      expect(config.maxRetries).toBe(0);
+    });
+  });
+});
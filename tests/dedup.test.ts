@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeCompany,
+  normalizeTitle,
+  fingerprintJob,
+  descriptionSimilarity,
+  deduplicateJobs,
+  getListingIds,
+} from '../src/dedup.js';
+import { Job } from '../src/types.js';
+
+function createJob(overrides: Partial<Job>): Job {
+  return {
+    id: 'remoteok-1',
+    title: 'Senior Frontend Engineer',
+    company: 'Acme Inc.',
+    description: 'We are looking for a React and TypeScript engineer to build our dashboard',
+    url: 'https://remoteok.com/remote-jobs/1',
+    postedAt: new Date('2026-01-02T00:00:00.000Z'),
+    source: 'remoteok',
+    ...overrides,
+  };
+}
+
+describe('Dedup Module', () => {
+  describe('normalize', () => {
+    it('应该去掉公司名称的法律后缀和标点', () => {
+      expect(normalizeCompany('Acme, Inc.')).toBe('acme');
+      expect(normalizeCompany('ACME LLC')).toBe('acme');
+      expect(normalizeCompany('Café Labs GmbH')).toBe('cafe labs');
+    });
+
+    it('应该去掉标题中的修饰词和公司后缀', () => {
+      expect(normalizeTitle('Senior Frontend Engineer (Remote)')).toBe('senior frontend engineer');
+      expect(normalizeTitle('Senior Frontend Engineer at Acme')).toBe('senior frontend engineer');
+      expect(normalizeTitle('Remote - Senior Frontend Engineer')).toBe('senior frontend engineer');
+    });
+
+    it('公司未知时不生成指纹', () => {
+      expect(fingerprintJob(createJob({ company: 'Unknown' }))).toBeNull();
+    });
+  });
+
+  describe('descriptionSimilarity', () => {
+    it('相同描述相似度为1，不同描述相似度较低', () => {
+      const text = 'React TypeScript engineer building dashboards';
+      expect(descriptionSimilarity(text, text)).toBe(1);
+      expect(descriptionSimilarity(text, 'Sales manager for enterprise accounts')).toBeLessThan(
+        0.2
+      );
+    });
+  });
+
+  describe('deduplicateJobs', () => {
+    it('应该合并不同数据源的同一职位并保留所有链接', () => {
+      const jobs = [
+        createJob({}),
+        createJob({
+          id: 'remotive-456',
+          source: 'remotive',
+          title: 'Senior Frontend Engineer (Remote)',
+          company: 'ACME',
+          url: 'https://remotive.com/remote-jobs/456',
+          description:
+            'We are looking for a React and TypeScript engineer to build our dashboard and design system',
+          postedAt: new Date('2026-01-01T00:00:00.000Z'),
+        }),
+        createJob({ id: 'jobicy-9', source: 'jobicy', title: 'Backend Engineer' }),
+      ];
+
+      const result = deduplicateJobs(jobs);
+      expect(result.mergedCount).toBe(1);
+      expect(result.jobs).toHaveLength(2);
+
+      const merged = result.jobs[0];
+      expect(merged.id).toBe('remotive-456'); // 描述更完整的发布作为主记录
+      expect(getListingIds(merged)).toEqual(['remoteok-1', 'remotive-456']);
+      expect(merged.listings?.map((l) => l.url)).toContain('https://remoteok.com/remote-jobs/1');
+      expect(merged.postedAt).toEqual(new Date('2026-01-01T00:00:00.000Z'));
+    });
+
+    it('描述差异较大时不应合并', () => {
+      const jobs = [
+        createJob({}),
+        createJob({
+          id: 'remotive-456',
+          source: 'remotive',
+          description: 'Payments team, Go and Kubernetes, on-call rotation required',
+        }),
+      ];
+
+      const result = deduplicateJobs(jobs);
+      expect(result.mergedCount).toBe(0);
+      expect(result.jobs).toHaveLength(2);
+    });
+
+    it('未合并的职位不应添加 listings', () => {
+      const result = deduplicateJobs([createJob({})]);
+      expect(result.jobs[0].listings).toBeUndefined();
+      expect(getListingIds(result.jobs[0])).toEqual(['remoteok-1']);
+    });
+  });
+});
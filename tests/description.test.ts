@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { enrichDescriptions, extractMainContent } from '../src/description.js';
+import { DescriptionConfig } from '../src/config.js';
+import { Job } from '../src/types.js';
+
+const TEST_CACHE_PATH = join(process.cwd(), 'data', 'test_descriptions.json');
+
+const settings: DescriptionConfig = { fetchFull: true, cacheTtlDays: 30, concurrency: 2 };
+
+function createJob(id: string, description: string): Job {
+  return {
+    id,
+    title: 'Frontend Engineer',
+    company: 'Tech Corp',
+    description,
+    url: `https://example.com/jobs/${id}`,
+    postedAt: new Date(),
+    source: 'remoteok',
+  };
+}
+
+const page = `
+  <html><head><title>Job</title></head>
+  <body>
+    <nav>Home | Jobs</nav>
+    <main><h1>Frontend Engineer</h1><p>Build React apps with TypeScript.</p></main>
+    <footer>© Tech Corp</footer>
+  </body></html>
+`;
+
+describe('Description Module', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      unlinkSync(TEST_CACHE_PATH);
+    }
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      unlinkSync(TEST_CACHE_PATH);
+    }
+  });
+
+  describe('extractMainContent', () => {
+    it('应该提取正文并去掉导航和页脚', () => {
+      const content = extractMainContent(page);
+      expect(content).toContain('Build React apps');
+      expect(content).not.toContain('Home | Jobs');
+      expect(content).not.toContain('Tech Corp');
+    });
+
+    it('应该优先使用 JSON-LD 中的职位描述', () => {
+      const html = `<script type="application/ld+json">${JSON.stringify({
+        '@type': 'JobPosting',
+        description: '&lt;p&gt;Full description&lt;/p&gt;',
+      })}</script><main>Other</main>`;
+      expect(extractMainContent(html)).toBe('<p>Full description</p>');
+    });
+  });
+
+  describe('enrichDescriptions', () => {
+    it('应该抓取完整描述并按链接缓存', async () => {
+      const urls: string[] = [];
+      const fetcher = async (url: string) => {
+        urls.push(url);
+        return page;
+      };
+
+      const first = await enrichDescriptions(
+        [createJob('1', 'React')],
+        settings,
+        fetcher,
+        TEST_CACHE_PATH
+      );
+      expect(first).toMatchObject({ fetched: 1, cached: 0, failed: 0 });
+      expect(first.jobs[0].description).toBe(
+        '## Frontend Engineer\n\nBuild React apps with TypeScript.'
+      );
+
+      const second = await enrichDescriptions(
+        [createJob('1', 'React')],
+        settings,
+        fetcher,
+        TEST_CACHE_PATH
+      );
+      expect(second).toMatchObject({ fetched: 0, cached: 1 });
+      expect(second.jobs[0].description).toBe(first.jobs[0].description);
+      expect(urls).toEqual(['https://example.com/jobs/1']);
+    });
+
+    it('缓存过期后应该重新抓取', async () => {
+      writeFileSync(
+        TEST_CACHE_PATH,
+        JSON.stringify({
+          'https://example.com/jobs/1': { text: 'old', fetchedAt: '2020-01-01T00:00:00.000Z' },
+        })
+      );
+
+      const result = await enrichDescriptions(
+        [createJob('1', '')],
+        settings,
+        async () => page,
+        TEST_CACHE_PATH
+      );
+      expect(result.fetched).toBe(1);
+      const cache = JSON.parse(readFileSync(TEST_CACHE_PATH, 'utf-8'));
+      expect(cache['https://example.com/jobs/1'].text).toContain('Build React apps');
+    });
+
+    it('抓取失败或内容更短时应该保留原描述', async () => {
+      const long = 'A detailed description that is longer than the fetched page text. '.repeat(3);
+      const jobs = [createJob('1', 'Short'), createJob('2', long)];
+      const fetcher = async (url: string) => {
+        if (url.endsWith('/1')) {
+          throw new Error('404');
+        }
+        return page;
+      };
+
+      const result = await enrichDescriptions(jobs, settings, fetcher, TEST_CACHE_PATH);
+      expect(result).toMatchObject({ fetched: 1, failed: 1 });
+      expect(result.jobs.map((job) => job.description)).toEqual(['Short', long]);
+    });
+  });
+});
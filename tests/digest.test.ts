@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  getDigestCron,
+  getLastDigestTime,
+  loadDigestQueue,
+  queueDigestJob,
+  sendDueDigests,
+  shouldNotifyInstantly,
+} from '../src/digest.js';
+import { formatDigest } from '../src/notifiers.js';
+import { saveAnalyzedJob, setJobTriage } from '../src/storage.js';
+import { DigestConfig, userBackground } from '../src/config.js';
+import { AnalyzedJob, CandidateProfile } from '../src/types.js';
+
+const settings: DigestConfig = {
+  mode: 'digest',
+  frequency: 'daily',
+  time: '09:00',
+  weekday: 1,
+  timezone: 'Asia/Shanghai',
+  instantMinScore: 9,
+};
+
+const profile: CandidateProfile = {
+  id: 'default',
+  name: '默认',
+  background: userBackground,
+  minScore: 7,
+  prefilter: { enabled: true, matchSkills: true },
+  location: { enabled: false, action: 'downrank', penalty: 3, timezoneTolerance: 3 },
+  companies: { allow: [], deny: [], notes: {} },
+  notify: {},
+};
+
+function createJob(id: string, score: number, source = 'remoteok'): AnalyzedJob {
+  return {
+    id,
+    title: `Engineer ${id}`,
+    company: 'Tech Corp',
+    description: 'React',
+    url: `https://example.com/jobs/${id}`,
+    postedAt: new Date('2026-01-01T00:00:00.000Z'),
+    source,
+    score,
+    reason: '技能匹配',
+    profileId: 'default',
+  };
+}
+
+describe('shouldNotifyInstantly', () => {
+  it('应该按档案的通知方式决定是否立即通知', () => {
+    const job = createJob('remoteok-1', 8);
+
+    expect(shouldNotifyInstantly(job, profile, settings)).toBe(false);
+    expect(shouldNotifyInstantly(job, { ...profile, delivery: 'instant' }, settings)).toBe(true);
+    expect(shouldNotifyInstantly(job, { ...profile, delivery: 'hybrid' }, settings)).toBe(false);
+    expect(
+      shouldNotifyInstantly({ ...job, score: 9 }, { ...profile, delivery: 'hybrid' }, settings)
+    ).toBe(true);
+  });
+});
+
+describe('getLastDigestTime', () => {
+  it('应该按时区计算最近一次每日发送时间', () => {
+    // 上海 09:00 = UTC 01:00
+    expect(getLastDigestTime(new Date('2026-03-10T02:00:00Z'), settings).toISOString()).toBe(
+      '2026-03-10T01:00:00.000Z'
+    );
+    expect(getLastDigestTime(new Date('2026-03-10T00:30:00Z'), settings).toISOString()).toBe(
+      '2026-03-09T01:00:00.000Z'
+    );
+  });
+
+  it('应该考虑夏令时', () => {
+    const newYork = { ...settings, timezone: 'America/New_York' };
+
+    expect(getLastDigestTime(new Date('2026-01-15T20:00:00Z'), newYork).toISOString()).toBe(
+      '2026-01-15T14:00:00.000Z'
+    );
+    expect(getLastDigestTime(new Date('2026-07-15T20:00:00Z'), newYork).toISOString()).toBe(
+      '2026-07-15T13:00:00.000Z'
+    );
+  });
+
+  it('每周摘要应该落在配置的星期', () => {
+    // 2026-03-11 是周三，上一个周一是 03-09
+    const weekly = { ...settings, frequency: 'weekly' as const };
+    expect(getLastDigestTime(new Date('2026-03-11T12:00:00Z'), weekly).toISOString()).toBe(
+      '2026-03-09T01:00:00.000Z'
+    );
+    expect(getDigestCron(weekly)).toBe('0 9 * * 1');
+    expect(getDigestCron(settings)).toBe('0 9 * * *');
+  });
+});
+
+describe('formatDigest', () => {
+  it('应该按评分分档、档内按数据源分组', () => {
+    const digest = formatDigest(
+      [
+        createJob('remoteok-1', 8),
+        createJob('hn-1', 10, 'hnhiring'),
+        createJob('remoteok-2', 9),
+        createJob('remoteok-3', 7),
+      ],
+      '📬 摘要'
+    );
+    const lines = digest.split('\n');
+
+    expect(lines[0]).toBe('📬 摘要');
+    expect(lines[1]).toBe('共 4 个高匹配职位');
+    expect(digest).toContain('🔥 9-10 分（2）\n· hnhiring\n  10/10 Engineer hn-1');
+    expect(digest.indexOf('· remoteok\n  9/10')).toBeLessThan(digest.indexOf('⭐ 8 分（1）'));
+    expect(digest.indexOf('⭐ 8 分（1）')).toBeLessThan(digest.indexOf('✨ 8 分以下（1）'));
+  });
+});
+
+describe('sendDueDigests', () => {
+  let server: Server;
+  let webhookUrl: string;
+  let received: string[] = [];
+  let dir: string;
+  let queuePath: string;
+  let storagePath: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push(JSON.parse(body).text);
+        res.end('ok');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/slack`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    received = [];
+    dir = mkdtempSync(join(tmpdir(), 'jobhacker-digest-'));
+    queuePath = join(dir, 'digest.json');
+    storagePath = join(dir, 'jobs.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('应该合并发送时间之前加入的职位，之后加入的留到下一次', async () => {
+    const slackProfile = { ...profile, notify: { slackWebhookUrl: webhookUrl } };
+    for (const job of [createJob('remoteok-1', 8), createJob('remoteok-2', 9)]) {
+      saveAnalyzedJob(job, storagePath);
+      queueDigestJob(job, queuePath, new Date('2026-03-09T12:00:00Z'));
+    }
+    queueDigestJob(createJob('remoteok-1', 8), queuePath, new Date('2026-03-09T13:00:00Z'));
+    saveAnalyzedJob(createJob('remoteok-3', 7), storagePath);
+    queueDigestJob(createJob('remoteok-3', 7), queuePath, new Date('2026-03-10T01:30:00Z'));
+    setJobTriage(
+      'remoteok-2',
+      'default',
+      { status: 'dismissed', updatedAt: '2026-03-09T14:00:00Z' },
+      storagePath
+    );
+
+    const sent = await sendDueDigests(
+      [slackProfile],
+      new Date('2026-03-10T02:00:00Z'),
+      settings,
+      queuePath,
+      storagePath
+    );
+
+    expect(sent).toBe(1);
+    expect(received).toHaveLength(1);
+    expect(received[0]).toContain('📬 Job Hunter 每日摘要');
+    expect(received[0]).toContain('Engineer remoteok-1');
+    expect(received[0]).not.toContain('remoteok-2');
+    expect(loadDigestQueue(queuePath).map((entry) => entry.jobId)).toEqual(['remoteok-3']);
+  });
+
+  it('发送时间之前没有职位时不发送', async () => {
+    saveAnalyzedJob(createJob('remoteok-1', 8), storagePath);
+    queueDigestJob(createJob('remoteok-1', 8), queuePath, new Date('2026-03-10T01:30:00Z'));
+
+    const sent = await sendDueDigests(
+      [{ ...profile, notify: { slackWebhookUrl: webhookUrl } }],
+      new Date('2026-03-10T02:00:00Z'),
+      settings,
+      queuePath,
+      storagePath
+    );
+
+    expect(sent).toBe(0);
+    expect(received).toHaveLength(0);
+    expect(loadDigestQueue(queuePath)).toHaveLength(1);
+  });
+
+  it('应该丢弃已删除档案的条目', async () => {
+    saveAnalyzedJob(createJob('remoteok-1', 8), storagePath);
+    queueDigestJob({ ...createJob('remoteok-1', 8), profileId: 'removed' }, queuePath);
+    queueDigestJob(createJob('remoteok-1', 8), queuePath, new Date('2026-03-10T01:30:00Z'));
+
+    await sendDueDigests(
+      [{ ...profile, notify: { slackWebhookUrl: webhookUrl } }],
+      new Date('2026-03-10T02:00:00Z'),
+      settings,
+      queuePath,
+      storagePath
+    );
+
+    expect(loadDigestQueue(queuePath)).toEqual([
+      expect.objectContaining({ jobId: 'remoteok-1', profileId: 'default' }),
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import {
+  classifyError,
+  HealthState,
+  isCircuitOpen,
+  loadSourceHealth,
+  recordSourceOutcome,
+  runSource,
+  saveSourceHealth,
+} from '../src/health.js';
+import { HealthConfig } from '../src/config.js';
+import { JobSource, SourceOutcome } from '../src/types.js';
+
+const TEST_HEALTH_PATH = join(process.cwd(), 'data', 'test_source_health.json');
+
+const settings: HealthConfig = { alertThreshold: 2, breakerThreshold: 3, cooldownHours: 12 };
+
+const source: JobSource = { id: 'remotive', name: 'Remotive', fetch: async () => [] };
+
+const failure: SourceOutcome = {
+  sourceId: 'remotive',
+  ok: false,
+  jobs: 0,
+  latencyMs: 10,
+  errorClass: 'http-503',
+  error: 'Request failed with status code 503',
+};
+
+const empty: SourceOutcome = { sourceId: 'remotive', ok: true, jobs: 0, latencyMs: 10 };
+
+describe('Health Module', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_HEALTH_PATH)) {
+      unlinkSync(TEST_HEALTH_PATH);
+    }
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_HEALTH_PATH)) {
+      unlinkSync(TEST_HEALTH_PATH);
+    }
+  });
+
+  it('应该归类常见的抓取错误', () => {
+    expect(classifyError({ response: { status: 503 }, code: 'ERR_BAD_RESPONSE' })).toBe('http-503');
+    expect(classifyError({ code: 'ECONNABORTED' })).toBe('timeout');
+    expect(classifyError({ code: 'ENOTFOUND' })).toBe('network');
+    expect(classifyError(new SyntaxError('Unexpected token'))).toBe('parse');
+    expect(classifyError(new TypeError('x is undefined'))).toBe('TypeError');
+  });
+
+  it('应该记录数据源的职位数和失败类型', async () => {
+    const ok = await runSource({ ...source, fetch: async () => [] });
+    expect(ok.outcome).toMatchObject({ sourceId: 'remotive', ok: true, jobs: 0 });
+
+    const failed = await runSource({
+      ...source,
+      fetch: async () => {
+        throw Object.assign(new Error('timeout of 15000ms exceeded'), { code: 'ECONNABORTED' });
+      },
+    });
+    expect(failed.jobs).toEqual([]);
+    expect(failed.outcome).toMatchObject({
+      ok: false,
+      errorClass: 'timeout',
+      error: 'timeout of 15000ms exceeded',
+    });
+  });
+
+  it('连续失败达到阈值时应该告警并熔断', () => {
+    const state: HealthState = {};
+    const now = new Date('2026-01-01T00:00:00.000Z');
+
+    expect(recordSourceOutcome(state, source, failure, settings, now)).toBeNull();
+    expect(recordSourceOutcome(state, source, failure, settings, now)).toBe(
+      'Remotive 连续失败 2 次（http-503）'
+    );
+    expect(recordSourceOutcome(state, source, failure, settings, now)).toBe(
+      'Remotive 连续失败 3 次（http-503），暂停 12 小时'
+    );
+
+    expect(state.remotive.openUntil).toBe('2026-01-01T12:00:00.000Z');
+    expect(isCircuitOpen(state.remotive, new Date('2026-01-01T06:00:00.000Z'))).toBe(true);
+    expect(isCircuitOpen(state.remotive, new Date('2026-01-01T12:00:01.000Z'))).toBe(false);
+
+    // 熔断到期后再次失败时重新熔断，但不重复告警
+    const later = new Date('2026-01-01T13:00:00.000Z');
+    expect(recordSourceOutcome(state, source, failure, settings, later)).toBeNull();
+    expect(isCircuitOpen(state.remotive, later)).toBe(true);
+
+    expect(recordSourceOutcome(state, source, { ...empty, jobs: 5 }, settings, later)).toBe(
+      'Remotive 已恢复（此前连续失败 4 次）'
+    );
+    expect(state.remotive).toMatchObject({ consecutiveFailures: 0, openUntil: undefined });
+  });
+
+  it('连续返回 0 个职位时应该告警', () => {
+    const state: HealthState = {};
+    expect(recordSourceOutcome(state, source, empty, settings)).toBeNull();
+    expect(recordSourceOutcome(state, source, empty, settings)).toBe(
+      'Remotive 连续 2 次没有返回职位'
+    );
+    expect(isCircuitOpen(state.remotive)).toBe(false);
+  });
+
+  it('应该保存和读取健康状态', () => {
+    expect(loadSourceHealth(TEST_HEALTH_PATH)).toEqual({});
+
+    const state: HealthState = {};
+    recordSourceOutcome(state, source, failure, settings);
+    saveSourceHealth(state, TEST_HEALTH_PATH);
+
+    expect(loadSourceHealth(TEST_HEALTH_PATH).remotive).toMatchObject({
+      consecutiveFailures: 1,
+      lastError: 'http-503: Request failed with status code 503',
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { decodeEntities, htmlToText, normalizeDescription, truncateText } from '../src/html.js';
+import { normalizeJob } from '../src/scraper.js';
+
+describe('HTML Module', () => {
+  it('应该解码命名实体和数字实体', () => {
+    expect(decodeEntities('Tom &amp; Jerry &#8211; &#x27;hi&#x27; &nbsp;&foo;')).toBe(
+      "Tom & Jerry – 'hi'  &foo;"
+    );
+  });
+
+  describe('htmlToText', () => {
+    it('应该保留段落、标题和列表', () => {
+      const html = `
+        <h2>About <b>us</b></h2>
+        <p>We build&nbsp;tools.<br>Remote first.</p>
+        <ul><li><p>React</p></li><li>Node.js</li></ul>
+        <ol><li>Apply</li><li>Interview</li></ol>
+        <script>alert(1)</script><style>p { color: red }</style>
+      `;
+      expect(htmlToText(html)).toBe(
+        [
+          '## About us',
+          '',
+          'We build tools.',
+          'Remote first.',
+          '',
+          '- React',
+          '- Node.js',
+          '',
+          '1. Apply',
+          '2. Interview',
+        ].join('\n')
+      );
+    });
+
+    it('应该先解码转义过的 HTML', () => {
+      expect(
+        htmlToText(
+          '&lt;p&gt;Hello &amp;amp; welcome&lt;/p&gt;&lt;ul&gt;&lt;li&gt;React&lt;/li&gt;&lt;/ul&gt;'
+        )
+      ).toBe('Hello & welcome\n\n- React');
+      expect(htmlToText('Salary &lt; $100k')).toBe('Salary < $100k');
+    });
+  });
+
+  it('应该在单词边界处截断', () => {
+    expect(truncateText('short', 10)).toBe('short');
+    expect(normalizeDescription('<p>alpha beta gamma delta</p>', 19)).toBe('alpha beta gamma…');
+    // 边界离截断位置太远时直接截断
+    expect(truncateText('one two three four', 12)).toBe('one two thre…');
+  });
+
+  it('RemoteOK 的描述应该转换为纯文本', () => {
+    const job = normalizeJob(
+      {
+        id: '1',
+        position: 'Frontend Engineer',
+        company: 'Tech Corp',
+        description: '&lt;p&gt;Build &lt;strong&gt;React&lt;/strong&gt; apps&lt;/p&gt;',
+        url: 'https://remoteok.com/1',
+        epoch: 1700000000,
+      },
+      'remoteok'
+    );
+    expect(job.description).toBe('Build React apps');
+  });
+});
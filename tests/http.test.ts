@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { httpGet } from '../src/http.js';
+import { HttpCacheConfig } from '../src/config.js';
+
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios, true);
+
+const URL = 'https://example.com/feed.json';
+
+describe('HTTP Module', () => {
+  let settings: HttpCacheConfig;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    settings = { mode: 'on', ttlMinutes: 60, dir: mkdtempSync(join(tmpdir(), 'http-cache-')) };
+  });
+
+  afterEach(() => {
+    rmSync(settings.dir, { recursive: true, force: true });
+  });
+
+  it('缓存未过期时应该直接返回缓存', async () => {
+    mockedAxios.get.mockResolvedValueOnce({ data: { jobs: [1] }, status: 200, headers: {} });
+
+    const first = await httpGet(URL, {}, settings);
+    const second = await httpGet(URL, {}, settings);
+
+    expect(first).toEqual({ data: { jobs: [1] }, status: 200, fromCache: false });
+    expect(second).toEqual({ data: { jobs: [1] }, status: 200, fromCache: true });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('缓存过期后应该发送条件请求，304 时沿用缓存', async () => {
+    mockedAxios.get
+      .mockResolvedValueOnce({
+        data: 'feed',
+        status: 200,
+        headers: { etag: '"v1"', 'last-modified': 'Mon, 01 Jan 2026 00:00:00 GMT' },
+      })
+      .mockResolvedValueOnce({ data: '', status: 304, headers: {} });
+
+    const expired = { ...settings, ttlMinutes: 0 };
+    await httpGet(URL, { headers: { Accept: 'text/xml' } }, expired);
+    const result = await httpGet(URL, { headers: { Accept: 'text/xml' } }, expired);
+
+    expect(result).toEqual({ data: 'feed', status: 200, fromCache: true });
+    const options = mockedAxios.get.mock.calls[1][1]!;
+    expect(options.headers).toEqual({
+      Accept: 'text/xml',
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Mon, 01 Jan 2026 00:00:00 GMT',
+    });
+    expect(options.validateStatus!(304)).toBe(true);
+  });
+
+  it('不应该缓存错误响应', async () => {
+    mockedAxios.get
+      .mockResolvedValueOnce({ data: '', status: 404, headers: {} })
+      .mockResolvedValueOnce({ data: 'ok', status: 200, headers: {} });
+
+    const options = { validateStatus: (status: number) => status < 500 };
+    expect((await httpGet(URL, options, settings)).status).toBe(404);
+    expect((await httpGet(URL, options, settings)).data).toBe('ok');
+  });
+
+  it('离线模式应该只读取缓存', async () => {
+    mockedAxios.get.mockResolvedValueOnce({ data: 'feed', status: 200, headers: {} });
+    await httpGet(URL, {}, settings);
+
+    const offline = { ...settings, mode: 'offline' as const, ttlMinutes: 0 };
+    expect(await httpGet(URL, {}, offline)).toEqual({ data: 'feed', status: 200, fromCache: true });
+    await expect(httpGet('https://example.com/other', {}, offline)).rejects.toThrow(
+      '离线模式下没有缓存'
+    );
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('关闭缓存时应该直接请求', async () => {
+    mockedAxios.get.mockResolvedValue({ data: 'feed', status: 200, headers: {} });
+
+    await httpGet(URL, {}, { ...settings, mode: 'off' });
+    await httpGet(URL, {}, { ...settings, mode: 'off' });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+  });
+});
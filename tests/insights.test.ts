@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { formatInsights, parseInsights } from '../src/insights.js';
+import { parseAIResponse, parseBatchResponse } from '../src/agent.js';
+
+describe('Insights Module', () => {
+  describe('parseInsights', () => {
+    it('应该提取并规范化结构化字段', () => {
+      const insights = parseInsights({
+        score: 8,
+        reason: 'ok',
+        seniority: 'senior',
+        salary: { min: '120000', max: 150000, currency: 'usd' },
+        remoteType: 'timezone',
+        timezone: 'UTC-5 ~ UTC+1',
+        regions: ['US', 'EU', ''],
+        techStack: ['React', 'TypeScript'],
+        visaSponsorship: false,
+        redFlags: [],
+      });
+
+      expect(insights).toEqual({
+        seniority: 'senior',
+        salary: { min: 120000, max: 150000, currency: 'USD', period: 'year' },
+        remoteType: 'timezone',
+        timezone: 'UTC-5 ~ UTC+1',
+        regions: ['US', 'EU'],
+        techStack: ['React', 'TypeScript'],
+        visaSponsorship: false,
+      });
+    });
+
+    it('应该丢弃无效字段而不影响其他字段', () => {
+      const insights = parseInsights({
+        seniority: 'rockstar',
+        salary: { min: 200, max: 100, currency: 'USD' },
+        remoteType: null,
+        techStack: 'React',
+        visaSponsorship: true,
+      });
+      expect(insights).toEqual({ visaSponsorship: true });
+    });
+
+    it('没有任何字段时应该返回 undefined', () => {
+      expect(parseInsights({ score: 5, reason: 'ok', salary: null })).toBeUndefined();
+    });
+  });
+
+  describe('agent 解析', () => {
+    it('单个和批量响应都应该带上结构化字段', () => {
+      const single = parseAIResponse(
+        '{"score": 9, "reason": "匹配", "remoteType": "remote", "redFlags": ["只付股权"]}'
+      );
+      expect(single.insights).toEqual({ remoteType: 'remote', redFlags: ['只付股权'] });
+
+      const batch = parseBatchResponse(
+        '{"results": [{"id": "a", "score": 7, "reason": "ok", "seniority": "mid"}]}'
+      );
+      expect(batch.get('a')?.insights).toEqual({ seniority: 'mid' });
+    });
+  });
+
+  describe('formatInsights', () => {
+    it('应该格式化办公方式和风险', () => {
+      const lines = formatInsights({
+        salary: { min: 100000, max: 120000, currency: 'USD', period: 'year' },
+        remoteType: 'remote',
+        regions: ['Worldwide'],
+        redFlags: ['无薪试用'],
+      });
+      expect(lines).toEqual(['🌍 办公: 完全远程 (Worldwide)', '🚩 注意: 无薪试用']);
+      expect(formatInsights(undefined)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalizeUrl, createJobId, hashId, migrateJobId } from '../src/jobId.js';
+import { normalizeJob } from '../src/scraper.js';
+
+describe('Job ID Module', () => {
+  it('应该标准化链接', () => {
+    expect(canonicalizeUrl('http://WWW.Example.com/jobs/42/?utm_source=rss&b=2&a=1#apply')).toBe(
+      'https://example.com/jobs/42?a=1&b=2'
+    );
+    expect(canonicalizeUrl('https://example.com/')).toBe('https://example.com');
+    expect(canonicalizeUrl('not a url ')).toBe('not a url');
+  });
+
+  describe('createJobId', () => {
+    it('应该优先使用原生ID，其次是链接和标题', () => {
+      expect(createJobId('remoteok', { nativeId: 123, url: 'https://remoteok.com/1' })).toBe(
+        'remoteok-123'
+      );
+      expect(createJobId('jobicy', { url: 'https://jobicy.com/jobs/1?utm_medium=rss' })).toBe(
+        `jobicy-${hashId('https://jobicy.com/jobs/1')}`
+      );
+      expect(createJobId('workingnomads', { nativeId: '', title: 'Dev', company: 'Acme' })).toBe(
+        `workingnomads-${hashId('dev|acme')}`
+      );
+      expect(() => createJobId('remotive', {})).toThrow('无法生成 remotive 职位ID');
+    });
+
+    it('同一职位每次生成的ID应该相同', () => {
+      const item = {
+        title: 'Frontend Engineer at Acme',
+        link: 'https://weworkremotely.com/remote-jobs/acme-frontend-engineer',
+        description: '',
+        pubDate: new Date().toUTCString(),
+      };
+      const first = normalizeJob(item, 'weworkremotely');
+      const second = normalizeJob({ ...item }, 'weworkremotely');
+
+      expect(first.id).toMatch(/^weworkremotely-[0-9a-f]{16}$/);
+      expect(second.id).toBe(first.id);
+      expect(normalizeJob({ ...item, link: `${item.link}/123` }, 'weworkremotely').id).toBe(
+        'weworkremotely-123'
+      );
+    });
+
+    it('公司名以数字开头时不应该把数字当作职位ID', () => {
+      const item = {
+        title: 'Senior Engineer at 10up',
+        link: 'https://weworkremotely.com/remote-jobs/10up-senior-engineer',
+        description: '',
+        pubDate: new Date().toUTCString(),
+      };
+      const first = normalizeJob(item, 'weworkremotely');
+      const second = normalizeJob(
+        { ...item, link: 'https://weworkremotely.com/remote-jobs/10up-frontend-engineer' },
+        'weworkremotely'
+      );
+
+      expect(first.id).toBe(`weworkremotely-${hashId(item.link)}`);
+      expect(second.id).not.toBe(first.id);
+      // 旧版按数字前缀生成的冲突ID迁移为链接的哈希
+      const stored = { ...item, source: 'weworkremotely', url: item.link, company: '10up' };
+      expect(migrateJobId('weworkremotely-10', stored)).toBe(first.id);
+      expect(migrateJobId(first.id, stored)).toBe(first.id);
+    });
+  });
+
+  describe('migrateJobId', () => {
+    const job = {
+      source: 'web3career',
+      url: 'https://web3.career/solidity-dev',
+      title: 'Solidity Dev',
+      company: 'Acme',
+    };
+
+    it('应该转换不稳定的旧版ID', () => {
+      const expected = `web3career-${hashId('https://web3.career/solidity-dev')}`;
+      expect(migrateJobId('web3career-1767225600000.123', job)).toBe(expected);
+      expect(
+        migrateJobId('weworkremotely-1767225600000', {
+          ...job,
+          source: 'weworkremotely',
+          url: 'https://weworkremotely.com/remote-jobs/acme-dev',
+        })
+      ).toBe(`weworkremotely-${hashId('https://weworkremotely.com/remote-jobs/acme-dev')}`);
+
+      // 旧版用链接的 32 位哈希
+      const jobicy = { ...job, source: 'jobicy', url: 'https://jobicy.com/jobs/1' };
+      const migrated = migrateJobId('jobicy-okty65', jobicy);
+      expect(migrated).toBe(`jobicy-${hashId('https://jobicy.com/jobs/1')}`);
+    });
+
+    it('稳定的ID应该保持不变', () => {
+      expect(migrateJobId('web3career-789', job)).toBe('web3career-789');
+      expect(migrateJobId('remoteok-123', { ...job, source: 'remoteok' })).toBe('remoteok-123');
+      expect(migrateJobId('remotive-5', job)).toBe('remotive-5');
+
+      const stable = createJobId('web3career', { url: job.url });
+      expect(migrateJobId(stable, job)).toBe(stable);
+    });
+  });
+});
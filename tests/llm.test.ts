@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, Server, IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+import { createAnthropicProvider, createLLMProvider, OutputSchema } from '../src/llm.js';
+import { AIConfig } from '../src/config.js';
+
+const output: OutputSchema = {
+  name: 'submit_job_analysis',
+  description: '提交职位匹配分析结果',
+  schema: {
+    type: 'object',
+    properties: { score: { type: 'number' }, reason: { type: 'string' } },
+    required: ['score', 'reason'],
+  },
+};
+
+describe('LLM Module', () => {
+  let server: Server;
+  let baseURL: string;
+  let lastRequest: { url?: string; headers: IncomingHttpHeaders; body: any };
+  let nextResponse: unknown;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        lastRequest = { url: req.url, headers: req.headers, body: JSON.parse(raw) };
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(nextResponse));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    nextResponse = undefined;
+  });
+
+  function claudeConfig(overrides: Partial<AIConfig> = {}): AIConfig {
+    return {
+      provider: 'claude',
+      apiKey: 'test-key',
+      baseURL,
+      model: 'claude-test',
+      temperature: 0.7,
+      ...overrides,
+    };
+  }
+
+  describe('createAnthropicProvider', () => {
+    it('应该使用 baseURL 并通过工具调用返回结构化结果和用量', async () => {
+      nextResponse = {
+        model: 'claude-test',
+        content: [
+          { type: 'text', text: '分析如下' },
+          { type: 'tool_use', name: output.name, input: { score: 8, reason: '匹配' } },
+        ],
+        usage: { input_tokens: 120, output_tokens: 30 },
+      };
+
+      const provider = createAnthropicProvider(claudeConfig({ maxTokens: 2048 }));
+      const response = await provider.complete({ system: '系统', prompt: '职位', output });
+
+      expect(lastRequest.url).toBe('/v1/messages');
+      expect(lastRequest.headers['x-api-key']).toBe('test-key');
+      expect(lastRequest.body.max_tokens).toBe(2048);
+      expect(lastRequest.body.system).toBe('系统');
+      expect(lastRequest.body.tools[0].input_schema).toEqual(output.schema);
+      expect(lastRequest.body.tool_choice).toEqual({ type: 'tool', name: output.name });
+      expect(JSON.parse(response.content)).toEqual({ score: 8, reason: '匹配' });
+      expect(response.usage).toEqual({ inputTokens: 120, outputTokens: 30 });
+    });
+
+    it('没有 schema 时应该预填充 { 并拼接所有文本块', async () => {
+      nextResponse = {
+        content: [
+          { type: 'text', text: '"score": 6, ' },
+          { type: 'text', text: '"reason": "一般"}' },
+        ],
+        usage: { input_tokens: 10, output_tokens: 5 },
+      };
+
+      const provider = createAnthropicProvider(claudeConfig({ baseURL: `${baseURL}/v1/` }));
+      const response = await provider.complete({ system: '系统', prompt: '职位' });
+
+      expect(lastRequest.url).toBe('/v1/messages');
+      expect(lastRequest.body.messages).toEqual([
+        { role: 'user', content: '职位' },
+        { role: 'assistant', content: '{' },
+      ]);
+      expect(lastRequest.body.max_tokens).toBe(4096);
+      expect(JSON.parse(response.content)).toEqual({ score: 6, reason: '一般' });
+    });
+
+    it('缺少工具调用结果时应该抛出错误', async () => {
+      nextResponse = { content: [{ type: 'text', text: '无法分析' }] };
+
+      const provider = createAnthropicProvider(claudeConfig());
+      await expect(provider.complete({ system: '系统', prompt: '职位', output })).rejects.toThrow(
+        '未返回结构化结果'
+      );
+    });
+  });
+
+  describe('createLLMProvider', () => {
+    it('应该根据 provider 选择实现', () => {
+      expect(createLLMProvider(claudeConfig()).provider).toBe('claude');
+      const openai = createLLMProvider({ ...claudeConfig(), provider: 'openai', model: 'gpt' });
+      expect(openai.provider).toBe('openai');
+      expect(openai.model).toBe('gpt');
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyLocationRules,
+  checkLocation,
+  filterByLocation,
+  findRegions,
+  parseLocationRestriction,
+  parseTimezoneOffsets,
+  resolveCandidateLocation,
+} from '../src/location.js';
+import { userBackground } from '../src/config.js';
+import { AnalyzedJob, CandidateProfile, Job } from '../src/types.js';
+
+function createJob(title: string, description: string, location?: string): Job {
+  return {
+    id: 'remoteok-1',
+    title,
+    company: 'Tech Corp',
+    description,
+    url: 'https://example.com/1',
+    postedAt: new Date(),
+    source: 'remoteok',
+    location,
+  };
+}
+
+const profile: CandidateProfile = {
+  id: 'default',
+  name: '默认',
+  background: userBackground,
+  minScore: 7,
+  prefilter: { enabled: true, matchSkills: true },
+  location: { enabled: true, action: 'downrank', penalty: 3, timezoneTolerance: 3 },
+  companies: { allow: [], deny: [], notes: {} },
+  notify: {},
+};
+
+const candidate = resolveCandidateLocation(userBackground, profile.location);
+
+describe('Location Module', () => {
+  describe('findRegions', () => {
+    it('应该识别地区别名，缩写区分大小写', () => {
+      expect(findRegions('Remote - US or Canada')).toEqual(['us', 'canada']);
+      expect(findRegions('Join us in building the future')).toEqual([]);
+      expect(findRegions('Must be located in the U.S.')).toEqual(['us']);
+      expect(findRegions('中国')).toEqual(['china']);
+    });
+  });
+
+  describe('parseTimezoneOffsets', () => {
+    it('应该解析 UTC 偏移和时区缩写', () => {
+      expect(parseTimezoneOffsets('Overlap with UTC-5 to UTC+1')).toEqual([-5, 1]);
+      expect(parseTimezoneOffsets('Core hours 9-5 EST')).toEqual([-5]);
+      expect(parseTimezoneOffsets('GMT+5:30')).toEqual([5.5]);
+      expect(parseTimezoneOffsets('El equipo est muy bien')).toEqual([]);
+    });
+
+    it('不带偏移的 UTC 只在紧邻工作时间段时视为 UTC+0', () => {
+      expect(parseTimezoneOffsets('Core hours 9:00-17:00 UTC')).toEqual([0]);
+      expect(parseTimezoneOffsets('Available UTC 9am - 1pm')).toEqual([0]);
+      expect(parseTimezoneOffsets('All our logs and dashboards use UTC')).toEqual([]);
+      expect(parseTimezoneOffsets('Deploys happen at 14:00 UTC every day')).toEqual([]);
+    });
+  });
+
+  describe('parseLocationRestriction', () => {
+    it('应该从数据源元数据、标题和描述中解析限制', () => {
+      expect(
+        parseLocationRestriction(createJob('Frontend Engineer', '', 'USA Only')).regions
+      ).toEqual(['us']);
+      expect(
+        parseLocationRestriction(createJob('Frontend Engineer (EU-only)', '')).regions
+      ).toEqual(['europe']);
+      expect(
+        parseLocationRestriction(
+          createJob(
+            'Frontend Engineer',
+            'Candidates must be based in the UK or Germany. We use React.'
+          )
+        ).regions
+      ).toEqual(['uk', 'germany']);
+      expect(
+        parseLocationRestriction(createJob('Frontend Engineer', 'Work from anywhere', 'Worldwide'))
+          .worldwide
+      ).toBe(true);
+      expect(
+        parseLocationRestriction(createJob('Frontend Engineer (Remote - US or Canada)', '')).regions
+      ).toEqual(['us', 'canada']);
+    });
+
+    it('Remote 后面没有紧跟地区时不视为地区限制', () => {
+      const check = (description: string) =>
+        checkLocation(
+          parseLocationRestriction(createJob('Frontend Engineer', description)),
+          candidate,
+          3
+        );
+
+      expect(check('Remote - Full time, working with our US customers')).toBeNull();
+      expect(check('Remote, async team spread across Europe')).toBeNull();
+      expect(check('Remote: all meetings are scheduled in UTC')).toBeNull();
+    });
+
+    it('应该结合 AI 提取的地区和办公方式', () => {
+      const restriction = parseLocationRestriction(createJob('Frontend Engineer', ''), {
+        regions: ['United States'],
+        remoteType: 'hybrid',
+        timezone: 'PST',
+      });
+      expect(restriction).toEqual({
+        worldwide: false,
+        regions: ['us'],
+        timezone: { min: -8, max: -8 },
+        onsite: true,
+      });
+    });
+  });
+
+  describe('checkLocation', () => {
+    it('应该根据候选人所在地区和时区判断', () => {
+      expect(candidate.regions.has('apac')).toBe(true);
+      expect(candidate.utcOffset).toBe(8);
+
+      const check = (job: Job) => checkLocation(parseLocationRestriction(job), candidate, 3);
+      expect(check(createJob('Frontend Engineer', '', 'US'))).toBe('仅限 us');
+      expect(check(createJob('Frontend Engineer', '', 'APAC'))).toBeNull();
+      expect(check(createJob('Frontend Engineer', '', 'US, Worldwide'))).toBeNull();
+      expect(check(createJob('Frontend Engineer', 'Overlap with CET business hours'))).toBe(
+        '要求 UTC+1 时区'
+      );
+      expect(check(createJob('Frontend Engineer', 'Team spans UTC+5 ~ UTC+9'))).toBeNull();
+      expect(check(createJob('Frontend Engineer (Hybrid)', ''))).toBe('需要现场或混合办公');
+      expect(check(createJob('Frontend Engineer', 'React and TypeScript'))).toBeNull();
+    });
+  });
+
+  describe('filterByLocation / applyLocationRules', () => {
+    const usJob = createJob('Frontend Engineer', '', 'USA Only');
+
+    it('drop 时应该在调用 LLM 前排除', () => {
+      const downrank = filterByLocation([usJob], profile);
+      expect(downrank.kept).toHaveLength(1);
+
+      const drop = filterByLocation([usJob], {
+        ...profile,
+        location: { ...profile.location, action: 'drop' },
+      });
+      expect(drop.rejected).toEqual([{ job: usJob, reason: '仅限 us' }]);
+    });
+
+    it('downrank 时应该扣分并注明原因', () => {
+      const analyzed: AnalyzedJob = { ...usJob, score: 9, reason: '匹配' };
+      const result = applyLocationRules(analyzed, profile);
+      expect(result.score).toBe(6);
+      expect(result.reason).toBe('匹配（地区不符: 仅限 us）');
+
+      const disabled = applyLocationRules(analyzed, {
+        ...profile,
+        location: { ...profile.location, enabled: false },
+      });
+      expect(disabled).toBe(analyzed);
+    });
+  });
+});
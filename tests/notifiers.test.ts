@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { createServer as createTcpServer, Server as TcpServer, AddressInfo } from 'net';
+import {
+  createDiscordNotifier,
+  formatDiscordMessage,
+  formatEmail,
+  formatSlackMessage,
+  formatWebhookPayload,
+  NotifierSettings,
+  signWebhook,
+} from '../src/notifiers.js';
+import { sendNotification } from '../src/notification.js';
+import { AnalyzedJob } from '../src/types.js';
+
+const job: AnalyzedJob = {
+  id: 'remoteok-1',
+  title: 'Frontend <Engineer>',
+  company: 'Tech & Co',
+  description: 'React',
+  url: 'https://example.com/jobs/1',
+  postedAt: new Date('2026-01-01T00:00:00.000Z'),
+  source: 'remoteok',
+  score: 9,
+  reason: '技能匹配',
+  companyNote: '朋友推荐',
+};
+
+interface ReceivedRequest {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * 本地 HTTP 服务，模拟 Slack、Discord 和通用 webhook，/fail 返回 500
+ */
+function startHttpServer(requests: ReceivedRequest[]): Promise<Server> {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ path: req.url || '', headers: req.headers, body });
+      res.statusCode = req.url === '/fail' ? 500 : 200;
+      res.end('ok');
+    });
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+/**
+ * 最简单的 SMTP 服务，只记录收到的邮件内容
+ */
+function startSmtpServer(messages: string[]): Promise<TcpServer> {
+  const server = createTcpServer((socket) => {
+    let buffer = '';
+    let data: string[] | null = null;
+    socket.write('220 localhost ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (data) {
+          if (line === '.') {
+            messages.push(data.join('\n'));
+            data = null;
+            socket.write('250 OK\r\n');
+          } else {
+            data.push(line);
+          }
+        } else if (/^(EHLO|HELO)/i.test(line)) {
+          socket.write('250 localhost\r\n');
+        } else if (/^DATA/i.test(line)) {
+          data = [];
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('Notifiers Module', () => {
+  describe('消息格式', () => {
+    it('Slack 消息应该转义控制字符并带链接', () => {
+      const message = formatSlackMessage(job) as {
+        text: string;
+        blocks: Array<{ text?: { text: string } }>;
+      };
+      expect(message.text).toBe('9/10 Frontend <Engineer> @ Tech & Co');
+      expect(message.blocks[0].text?.text).toContain(
+        '*<https://example.com/jobs/1|Frontend &lt;Engineer&gt;>*'
+      );
+      expect(message.blocks[0].text?.text).toContain('🏢 Tech &amp; Co');
+    });
+
+    it('Slack 链接地址应该转义 &、<、> 并编码 |', () => {
+      const message = formatSlackMessage({
+        ...job,
+        url: 'https://example.com/jobs?a=1&b=<x>|y',
+      }) as { blocks: Array<{ text?: { text: string }; elements?: Array<{ text: string }> }> };
+
+      const link = '<https://example.com/jobs?a=1&amp;b=&lt;x&gt;%7Cy|';
+      expect(message.blocks[0].text?.text).toContain(`*${link}Frontend &lt;Engineer&gt;>*`);
+      expect(message.blocks[1].elements?.[0].text).toBe(`${link}remoteok>`);
+    });
+
+    it('Discord 消息应该使用 embed', () => {
+      const { embeds } = formatDiscordMessage(job) as {
+        embeds: Array<{ title: string; url: string; description: string }>;
+      };
+      expect(embeds[0].title).toBe('🔥 9/10 | Frontend <Engineer>');
+      expect(embeds[0].url).toBe(job.url);
+      expect(embeds[0].description).toContain('📌 备注: 朋友推荐');
+    });
+
+    it('邮件和 webhook 负载应该包含职位信息', () => {
+      const email = formatEmail(job);
+      expect(email.subject).toBe('🔥 9/10 Frontend <Engineer> @ Tech & Co');
+      expect(email.html).toContain('Frontend &lt;Engineer&gt;');
+      expect(email.text).toContain('理由: 技能匹配');
+
+      const payload = formatWebhookPayload(job) as { event: string; job: Record<string, unknown> };
+      expect(payload.event).toBe('job.matched');
+      expect(payload.job).toMatchObject({ id: 'remoteok-1', score: 9, companyNote: '朋友推荐' });
+    });
+  });
+
+  describe('sendNotification', () => {
+    const requests: ReceivedRequest[] = [];
+    const messages: string[] = [];
+    let http: Server;
+    let smtp: TcpServer;
+    let baseUrl: string;
+    let settings: NotifierSettings;
+
+    beforeAll(async () => {
+      http = await startHttpServer(requests);
+      smtp = await startSmtpServer(messages);
+      baseUrl = `http://127.0.0.1:${(http.address() as AddressInfo).port}`;
+      settings = {
+        smtp: {
+          host: '127.0.0.1',
+          port: (smtp.address() as AddressInfo).port,
+          secure: false,
+          from: 'bot@example.com',
+        },
+        webhookSecret: 'secret',
+      };
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => http.close(resolve));
+      await new Promise((resolve) => smtp.close(resolve));
+    });
+
+    beforeEach(() => {
+      requests.length = 0;
+      messages.length = 0;
+    });
+
+    it('应该发送到所有已配置的渠道并报告各渠道结果', async () => {
+      const results = await sendNotification(
+        job,
+        {
+          email: ['alice@example.com'],
+          slackWebhookUrl: `${baseUrl}/slack`,
+          discordWebhookUrl: `${baseUrl}/fail`,
+          webhookUrl: `${baseUrl}/hook`,
+        },
+        settings
+      );
+
+      expect(results).toEqual([
+        { channel: 'email', ok: true },
+        { channel: 'slack', ok: true },
+        { channel: 'discord', ok: false, error: 'Request failed with status code 500' },
+        { channel: 'webhook', ok: true },
+      ]);
+      expect(requests.map((request) => request.path).sort()).toEqual(['/fail', '/hook', '/slack']);
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toContain('To: alice@example.com');
+      expect(messages[0]).toContain('https://example.com/jobs/1');
+    });
+
+    it('webhook 应该附带可验证的 HMAC 签名', async () => {
+      await sendNotification(job, { webhookUrl: `${baseUrl}/hook` }, settings);
+
+      const [request] = requests;
+      const timestamp = request.headers['x-jobhacker-timestamp'] as string;
+      expect(request.headers['x-jobhacker-signature']).toBe(
+        signWebhook(request.body, timestamp, 'secret')
+      );
+      expect(JSON.parse(request.body).job.id).toBe('remoteok-1');
+    });
+
+    it('Discord 超长文本应该拆分为多条消息', async () => {
+      const lines = Array.from({ length: 100 }, (_, i) => `${i + 1}. ${'x'.repeat(40)}`);
+
+      await createDiscordNotifier(`${baseUrl}/discord`).sendText(lines.join('\n'));
+
+      const contents = requests.map((request) => JSON.parse(request.body).content as string);
+      expect(contents.length).toBeGreaterThan(1);
+      expect(contents.every((content) => content.length <= 2000)).toBe(true);
+      expect(contents.join('\n')).toBe(lines.join('\n'));
+    });
+
+    it('没有配置渠道时不应该发送', async () => {
+      expect(await sendNotification(job, {}, {})).toEqual([]);
+    });
+  });
+});
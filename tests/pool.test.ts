@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { runWithConcurrency } from '../src/pool.js';
+
+describe('Pool Module', () => {
+  it('应该限制同时运行的任务数并按输入顺序返回结果', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await runWithConcurrency([30, 10, 20, 0, 5], 2, async (delay, index) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('应该处理空列表和无效的并发数', async () => {
+    expect(await runWithConcurrency([], 4, async (item) => item)).toEqual([]);
+    expect(await runWithConcurrency([1, 2], 0, async (item) => item * 2)).toEqual([2, 4]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkJob,
+  detectSeniority,
+  estimateSavedCalls,
+  findKeyword,
+  prefilterJobs,
+} from '../src/prefilter.js';
+import { userBackground } from '../src/config.js';
+import { CandidateProfile, Job } from '../src/types.js';
+
+function createJob(id: string, title: string, description: string): Job {
+  return {
+    id,
+    title,
+    company: 'Tech Corp',
+    description,
+    url: `https://example.com/${id}`,
+    postedAt: new Date(),
+    source: 'remoteok',
+  };
+}
+
+const profile: CandidateProfile = {
+  id: 'default',
+  name: '默认',
+  background: userBackground,
+  minScore: 7,
+  prefilter: { enabled: true, matchSkills: true },
+  location: { enabled: false, action: 'downrank', penalty: 3, timezoneTolerance: 3 },
+  companies: { allow: [], deny: [], notes: {} },
+  notify: {},
+};
+
+describe('Prefilter Module', () => {
+  describe('detectSeniority', () => {
+    it('应该根据标题识别职位级别', () => {
+      expect(detectSeniority('Senior Frontend Engineer')).toBe('senior');
+      expect(detectSeniority('Sr. React Developer')).toBe('senior');
+      expect(detectSeniority('Junior Web Developer')).toBe('junior');
+      expect(detectSeniority('Engineering Manager')).toBe('lead');
+      expect(detectSeniority('Software Engineering Intern')).toBe('intern');
+      expect(detectSeniority('Frontend Engineer')).toBe('mid');
+    });
+  });
+
+  describe('findKeyword', () => {
+    it('应该按完整单词匹配关键词', () => {
+      expect(findKeyword('We use Go and PostgreSQL', ['Go'])).toBe('Go');
+      expect(findKeyword('Google Ads specialist', ['Go'])).toBeUndefined();
+      expect(findKeyword('Experience with C++ and Node.js', ['node.js', 'C++'])).toBe('node.js');
+    });
+  });
+
+  describe('checkJob', () => {
+    const job = createJob('1', 'Senior Sales Executive', 'Sell our SaaS product to enterprises');
+
+    it('应该按排除规则、标题规则和级别排除职位', () => {
+      expect(
+        checkJob(job, { enabled: true, matchSkills: false, excludedTitlePatterns: ['sales'] })
+      ).toContain('排除规则');
+      expect(
+        checkJob(job, { enabled: true, matchSkills: false, excludedKeywords: ['SaaS'] })
+      ).toContain('SaaS');
+      expect(
+        checkJob(job, { enabled: true, matchSkills: false, titlePatterns: ['engineer'] })
+      ).toBe('标题不匹配任何规则');
+      expect(checkJob(job, { enabled: true, matchSkills: false, seniority: ['mid'] })).toContain(
+        'senior'
+      );
+      expect(checkJob(job, { enabled: true, matchSkills: false })).toBeNull();
+    });
+
+    it('应该要求出现必需关键词或技能', () => {
+      expect(
+        checkJob(job, { enabled: true, matchSkills: false, requiredKeywords: ['remote'] })
+      ).toBe('不包含必需关键词');
+      expect(checkJob(job, { enabled: true, matchSkills: true }, ['React'])).toBe(
+        '未提到任何相关技能'
+      );
+    });
+  });
+
+  describe('prefilterJobs', () => {
+    it('应该保留提到技能的职位并排除其他职位', () => {
+      const jobs = [
+        createJob('1', 'Frontend Engineer', 'Build UIs with React and TypeScript'),
+        createJob('2', 'Account Executive', 'Close deals and manage the sales pipeline'),
+        createJob('3', 'Customer Support Specialist', 'Help customers via email and chat'),
+      ];
+
+      const { kept, rejected } = prefilterJobs(jobs, profile);
+      expect(kept.map((job) => job.id)).toEqual(['1']);
+      expect(rejected.map((decision) => decision.job.id)).toEqual(['2', '3']);
+    });
+
+    it('关闭时应该保留所有职位', () => {
+      const jobs = [createJob('1', 'Account Executive', 'Sales')];
+      const result = prefilterJobs(jobs, {
+        ...profile,
+        prefilter: { enabled: false, matchSkills: true },
+      });
+      expect(result.kept).toHaveLength(1);
+    });
+  });
+
+  it('应该按批量大小估算节省的调用次数', () => {
+    expect(estimateSavedCalls(10, 3)).toBe(7);
+    expect(estimateSavedCalls(25, 5, 10)).toBe(2);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { loadProfiles, profileAcceptsJob, DEFAULT_PROFILE_ID } from '../src/profiles.js';
+import { filterConfig } from '../src/config.js';
+import { Job } from '../src/types.js';
+
+describe('Profiles Module', () => {
+  let dir: string;
+  let profilesPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'jobhacker-profiles-'));
+    profilesPath = join(dir, 'profiles.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.TELEGRAM_CHAT_ID;
+  });
+
+  describe('loadProfiles', () => {
+    it('档案文件不存在时应该返回默认档案', () => {
+      process.env.TELEGRAM_CHAT_ID = '42';
+      const profiles = loadProfiles(profilesPath);
+
+      expect(profiles).toHaveLength(1);
+      expect(profiles[0].id).toBe(DEFAULT_PROFILE_ID);
+      expect(profiles[0].minScore).toBe(filterConfig.minScore);
+      expect(profiles[0].notify.telegramChatId).toBe('42');
+    });
+
+    it('应该加载多个档案并补全默认值', () => {
+      writeFileSync(
+        profilesPath,
+        JSON.stringify({
+          profiles: [
+            {
+              id: 'alice',
+              name: 'Alice',
+              minScore: 8,
+              sources: ['remoteok'],
+              notify: { telegramChatId: '1001' },
+              companies: { deny: ['Globex'], notes: { Acme: '已面试过' } },
+              background: { experience: '5年后端', skills: ['Go'], rubric: 'backend' },
+            },
+            { id: 'bob', background: { skills: ['Figma'] } },
+          ],
+        }),
+        'utf-8'
+      );
+
+      const [alice, bob] = loadProfiles(profilesPath);
+      expect(alice.name).toBe('Alice');
+      expect(alice.minScore).toBe(8);
+      expect(alice.background.rubric).toBe('backend');
+      expect(alice.notify.telegramChatId).toBe('1001');
+      expect(alice.companies).toEqual({ allow: [], deny: ['Globex'], notes: { Acme: '已面试过' } });
+      expect(bob.name).toBe('bob');
+      expect(bob.minScore).toBe(filterConfig.minScore);
+      expect(bob.background.preferences.remoteOnly).toBe(true);
+      expect(bob.notify).toEqual({});
+      expect(bob.companies).toEqual({ allow: [], deny: [], notes: {} });
+    });
+
+    it('应该拒绝无效或重复的档案', () => {
+      writeFileSync(profilesPath, JSON.stringify([{ id: 'a', background: {} }]), 'utf-8');
+      expect(() => loadProfiles(profilesPath)).toThrow(/skills/);
+
+      writeFileSync(
+        profilesPath,
+        JSON.stringify([
+          { id: 'a', background: { skills: ['Go'] } },
+          { id: 'a', background: { skills: ['Go'] } },
+        ]),
+        'utf-8'
+      );
+      expect(() => loadProfiles(profilesPath)).toThrow(/重复/);
+    });
+  });
+
+  describe('profileAcceptsJob', () => {
+    const job: Job = {
+      id: 'remotive-1',
+      title: 'Engineer',
+      company: 'Acme',
+      description: '',
+      url: 'https://remotive.com/1',
+      postedAt: new Date(),
+      source: 'remotive',
+      listings: [
+        { id: 'remotive-1', source: 'remotive', url: 'https://remotive.com/1' },
+        { id: 'remoteok-2', source: 'remoteok', url: 'https://remoteok.com/2' },
+      ],
+    };
+
+    it('应该按数据源白名单过滤，合并后的职位任一来源匹配即可', () => {
+      const [profile] = loadProfiles(profilesPath);
+      expect(profileAcceptsJob(profile, job)).toBe(true);
+      expect(profileAcceptsJob({ ...profile, sources: ['remoteok'] }, job)).toBe(true);
+      expect(profileAcceptsJob({ ...profile, sources: ['jobicy'] }, job)).toBe(false);
+    });
+  });
+});
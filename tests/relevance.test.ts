@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { rankJobs, relevanceToScore, tokenize } from '../src/relevance.js';
+import { userBackground } from '../src/config.js';
+import { Job } from '../src/types.js';
+
+function createJob(id: string, title: string, description: string): Job {
+  return {
+    id,
+    title,
+    company: 'Tech Corp',
+    description,
+    url: `https://example.com/${id}`,
+    postedAt: new Date(),
+    source: 'remoteok',
+  };
+}
+
+describe('Relevance Module', () => {
+  describe('tokenize', () => {
+    it('应该保留技术词并去掉停用词', () => {
+      expect(tokenize('We use Node.js, C++ and React.')).toEqual([
+        'use',
+        'node.js',
+        'c++',
+        'react',
+      ]);
+    });
+  });
+
+  describe('rankJobs', () => {
+    it('应该把与候选人背景更相关的职位排在前面', () => {
+      const jobs = [
+        createJob(
+          'sales',
+          'Account Executive',
+          'Own the sales pipeline and close enterprise deals'
+        ),
+        createJob('frontend', 'Frontend Engineer', 'Build UIs with React, Next.js and TypeScript'),
+        createJob('backend', 'Backend Engineer', 'Java services with Spring and Kafka'),
+      ];
+
+      const ranked = rankJobs(jobs, userBackground);
+      expect(ranked.map((item) => item.job.id)[0]).toBe('frontend');
+      expect(ranked[0].relevance).toBeGreaterThan(ranked[2].relevance);
+      expect(ranked[0].matchedTerms).toContain('react');
+      expect(ranked.find((item) => item.job.id === 'sales')?.relevance).toBe(0);
+      for (const item of ranked) {
+        expect(item.relevance).toBeGreaterThanOrEqual(0);
+        expect(item.relevance).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('同分时应该保持输入顺序', () => {
+      const jobs = [createJob('a', 'Chef', 'Cook'), createJob('b', 'Driver', 'Drive')];
+      expect(rankJobs(jobs, userBackground).map((item) => item.job.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('relevanceToScore', () => {
+    it('应该把相关度换算为 1-10 分', () => {
+      expect(relevanceToScore(0)).toBe(1);
+      expect(relevanceToScore(0.2)).toBe(6);
+      expect(relevanceToScore(0.9)).toBe(10);
+    });
+  });
+});
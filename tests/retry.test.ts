@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createRateLimiter,
+  getRetryAfterMs,
+  getRetryDelay,
+  isTransientError,
+  withRetry,
+} from '../src/retry.js';
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { response: { status, headers } });
+}
+
+describe('Retry Module', () => {
+  describe('isTransientError', () => {
+    it('应该把 429、5xx 和网络错误视为临时错误', () => {
+      expect(isTransientError(httpError(429))).toBe(true);
+      expect(isTransientError(httpError(503))).toBe(true);
+      expect(isTransientError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(
+        true
+      );
+      expect(isTransientError(Object.assign(new Error('sdk'), { status: 502 }))).toBe(true);
+    });
+
+    it('不应该重试 4xx 和普通错误', () => {
+      expect(isTransientError(httpError(400))).toBe(false);
+      expect(isTransientError(httpError(401))).toBe(false);
+      expect(isTransientError(new Error('无法解析AI响应'))).toBe(false);
+    });
+  });
+
+  describe('getRetryAfterMs', () => {
+    it('应该解析秒数和 HTTP 日期', () => {
+      expect(getRetryAfterMs(httpError(429, { 'retry-after': '3' }))).toBe(3000);
+
+      const now = Date.parse('2026-01-01T00:00:00Z');
+      const error = httpError(503, { 'retry-after': 'Thu, 01 Jan 2026 00:00:10 GMT' });
+      expect(getRetryAfterMs(error, now)).toBe(10_000);
+      expect(getRetryAfterMs(httpError(503))).toBeUndefined();
+    });
+
+    it('应该优先使用 Retry-After 计算等待时间', () => {
+      expect(getRetryDelay(httpError(429, { 'retry-after': '2' }), 1)).toBe(2000);
+      const delay = getRetryDelay(httpError(500), 3, 1000);
+      expect(delay).toBeGreaterThanOrEqual(2000);
+      expect(delay).toBeLessThanOrEqual(4000);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('应该在临时错误后重试直到成功', async () => {
+      const sleep = vi.fn().mockResolvedValue(undefined);
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(httpError(429, { 'retry-after': '1' }))
+        .mockRejectedValueOnce(httpError(500))
+        .mockResolvedValueOnce('ok');
+
+      await expect(withRetry(fn, { retries: 3, sleep })).resolves.toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(3);
+      expect(sleep).toHaveBeenNthCalledWith(1, 1000);
+    });
+
+    it('超过重试次数或遇到非临时错误时应该抛出', async () => {
+      const sleep = vi.fn().mockResolvedValue(undefined);
+
+      const alwaysBusy = vi.fn().mockRejectedValue(httpError(503));
+      await expect(withRetry(alwaysBusy, { retries: 2, sleep })).rejects.toThrow('HTTP 503');
+      expect(alwaysBusy).toHaveBeenCalledTimes(3);
+
+      const unauthorized = vi.fn().mockRejectedValue(httpError(401));
+      await expect(withRetry(unauthorized, { retries: 2, sleep })).rejects.toThrow('HTTP 401');
+      expect(unauthorized).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createRateLimiter', () => {
+    it('应该限制每分钟的请求数', async () => {
+      let now = 0;
+      const waits: number[] = [];
+      const limiter = createRateLimiter(
+        2,
+        async (ms) => {
+          waits.push(ms);
+          now += ms;
+        },
+        () => now
+      );
+
+      await limiter.acquire();
+      now = 1000;
+      await limiter.acquire();
+      await limiter.acquire();
+
+      expect(waits).toEqual([59_000]);
+      expect(now).toBe(60_000);
+    });
+  });
+});
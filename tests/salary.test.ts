@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySalaryRules,
+  checkSalary,
+  convertSalary,
+  defaultExchangeRates,
+  describeSalary,
+  filterBySalary,
+  formatSalary,
+  parseSalaryText,
+  withSalary,
+} from '../src/salary.js';
+import { normalizeJob } from '../src/scraper.js';
+import { userBackground } from '../src/config.js';
+import { AnalyzedJob, CandidateProfile, Job, SalaryRules } from '../src/types.js';
+
+function createJob(description: string): Job {
+  return {
+    id: 'remoteok-1',
+    title: 'Frontend Engineer',
+    company: 'Tech Corp',
+    description,
+    url: 'https://example.com/1',
+    postedAt: new Date(),
+    source: 'remoteok',
+  };
+}
+
+const profile: CandidateProfile = {
+  id: 'default',
+  name: '默认',
+  background: userBackground,
+  minScore: 7,
+  minSalary: 60000,
+  prefilter: { enabled: true, matchSkills: true },
+  location: { enabled: false, action: 'downrank', penalty: 3, timezoneTolerance: 3 },
+  companies: { allow: [], deny: [], notes: {} },
+  notify: {},
+};
+
+const settings: SalaryRules = { currency: 'USD', action: 'downrank', penalty: 2 };
+
+describe('Salary Module', () => {
+  describe('parseSalaryText', () => {
+    it('应该解析常见的薪资写法', () => {
+      expect(parseSalaryText('Salary: $120k - $150k')).toEqual({
+        min: 120000,
+        max: 150000,
+        currency: 'USD',
+        period: 'year',
+      });
+      expect(parseSalaryText('Pay €60,000 per year')).toEqual({
+        min: 60000,
+        max: undefined,
+        currency: 'EUR',
+        period: 'year',
+      });
+      expect(parseSalaryText('USD 50-70/hour')).toEqual({
+        min: 50,
+        max: 70,
+        currency: 'USD',
+        period: 'hour',
+      });
+      expect(parseSalaryText('£4,000 - £5,000 monthly')?.period).toBe('month');
+      expect(parseSalaryText('90k-110k', 'usd')?.currency).toBe('USD');
+    });
+
+    it('不应该把其他数字当作薪资', () => {
+      expect(parseSalaryText('5+ years of React, team of 20 since 2015')).toBeUndefined();
+      expect(parseSalaryText('We raised $20M in Series A')).toBeUndefined();
+      expect(parseSalaryText('90k-110k')).toBeUndefined();
+    });
+
+    it('奖金、补贴等单个金额不应该当作薪资', () => {
+      expect(parseSalaryText('We offer a $5,000 signing bonus')).toBeUndefined();
+      expect(parseSalaryText('Perks: $1,500 equipment stipend and 25 days PTO')).toBeUndefined();
+      expect(parseSalaryText('Our customers processed $250,000 last week')).toBeUndefined();
+      expect(parseSalaryText('Base salary $140,000 plus a $5,000 signing bonus')).toEqual({
+        min: 140000,
+        max: undefined,
+        currency: 'USD',
+        period: 'year',
+      });
+      expect(parseSalaryText('Compensation includes a $1,500 home office stipend')).toBeUndefined();
+    });
+  });
+
+  describe('数据源和描述中的薪资', () => {
+    it('应该读取 RemoteOK 的薪资字段并从描述中补充', () => {
+      const job = normalizeJob(
+        {
+          id: '1',
+          position: 'Frontend Engineer',
+          company: 'Tech Corp',
+          description: '',
+          url: 'https://remoteok.com/1',
+          epoch: 1700000000,
+          salary_min: 80000,
+          salary_max: 0,
+        },
+        'remoteok'
+      );
+      expect(job.salary).toEqual({ min: 80000, max: undefined, currency: 'USD', period: 'year' });
+      expect(withSalary(createJob('Compensation: CAD 100,000 - 120,000')).salary).toEqual({
+        min: 100000,
+        max: 120000,
+        currency: 'CAD',
+        period: 'year',
+      });
+    });
+  });
+
+  describe('convertSalary / describeSalary', () => {
+    it('应该换算为指定货币的年薪', () => {
+      expect(convertSalary({ min: 50, max: 60, currency: 'USD', period: 'hour' }, 'USD')).toEqual({
+        min: 104000,
+        max: 124800,
+        currency: 'USD',
+        period: 'year',
+      });
+      expect(
+        convertSalary({ min: 100000, currency: 'EUR', period: 'year' }, 'USD', defaultExchangeRates)
+          ?.min
+      ).toBe(108000);
+      expect(convertSalary({ min: 1, currency: 'XYZ', period: 'year' }, 'USD')).toBeUndefined();
+      expect(formatSalary({ min: 80000, currency: 'EUR', period: 'year' })).toBe(
+        '80,000+ EUR/year'
+      );
+      expect(
+        describeSalary({ min: 4000, currency: 'GBP', period: 'month' }, 'USD', defaultExchangeRates)
+      ).toBe('4,000+ GBP/month（约 60,960+ USD/year）');
+    });
+  });
+
+  describe('最低年薪', () => {
+    const lowJob: Job = {
+      ...createJob(''),
+      salary: { min: 30000, max: 45000, currency: 'USD', period: 'year' },
+    };
+
+    it('应该比较换算后的最高薪资', () => {
+      expect(checkSalary(lowJob.salary, 60000, settings)).toBe(
+        '薪资 30,000-45,000 USD/year 低于 60,000 USD'
+      );
+      expect(checkSalary(lowJob.salary, 40000, settings)).toBeNull();
+      expect(checkSalary(undefined, 60000, settings)).toBeNull();
+      expect(checkSalary(lowJob.salary, undefined, settings)).toBeNull();
+    });
+
+    it('应该按 action 排除或降分', () => {
+      expect(filterBySalary([lowJob], profile, settings).kept).toHaveLength(1);
+      expect(
+        filterBySalary([lowJob], profile, { ...settings, action: 'drop' }).rejected
+      ).toHaveLength(1);
+
+      const analyzed: AnalyzedJob = { ...lowJob, score: 9, reason: '匹配' };
+      expect(applySalaryRules(analyzed, profile, settings).score).toBe(7);
+      expect(applySalaryRules(analyzed, profile, { ...settings, action: 'drop' }).score).toBe(1);
+
+      // 没有数据源薪资时使用 AI 提取的薪资
+      const fromInsights: AnalyzedJob = {
+        ...createJob(''),
+        score: 9,
+        reason: '匹配',
+        insights: { salary: { min: 2000, currency: 'USD', period: 'month' } },
+      };
+      expect(applySalaryRules(fromInsights, profile, settings).score).toBe(7);
+    });
+  });
+});
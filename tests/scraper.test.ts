@@ -1,9 +1,10 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
 import axios from 'axios';
 import { XMLParser } from 'fast-xml-parser';
 import {
   fetchRemoteOKJobs,
   fetchWWRJobs,
+  fetchJobicyJobs,
   fetchWeb3CareerJobs,
   normalizeJob,
   filterByTime,
@@ -17,6 +18,11 @@ const mockedAxios = vi.mocked(axios, true);
 describe('Scraper Module', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    process.env.HTTP_CACHE = 'off'; // 不读写本地 HTTP 缓存
+  });
+
+  afterAll(() => {
+    delete process.env.HTTP_CACHE;
   });
 
   describe('fetchRemoteOKJobs', () => {
@@ -81,14 +87,33 @@ describe('Scraper Module', () => {
       expect(jobs[0].source).toBe('weworkremotely');
     });
 
-    it('应该处理RSS解析错误', async () => {
-      // XMLParser 可能会解析无效 XML，但返回空结构
-      // 所以这里测试返回空数组而不是抛出错误
+    it('RSS 无法解析时应该抛出错误', async () => {
+      // XMLParser 不会因无效 XML 抛出错误，而是返回没有 rss 节点的结构
       mockedAxios.get.mockResolvedValueOnce({ data: 'invalid xml' });
 
-      const jobs = await fetchWWRJobs();
-      // XMLParser 可能不会抛出错误，而是返回空结构
-      expect(Array.isArray(jobs)).toBe(true);
+      await expect(fetchWWRJobs()).rejects.toThrow(/XML/);
+    });
+  });
+
+  describe('fetchJobicyJobs', () => {
+    it('应该解析Jobicy RSS数据', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: `<rss><channel><item>
+          <title>Frontend Developer at Acme</title>
+          <link>https://jobicy.com/jobs/1-frontend-developer</link>
+          <pubDate>${new Date().toUTCString()}</pubDate>
+        </item></channel></rss>`,
+      });
+
+      const jobs = await fetchJobicyJobs();
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0].company).toBe('Acme');
+    });
+
+    it('返回的不是 RSS（如 HTML 错误页）时应该抛出错误', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: '<html><body>captcha</body></html>' });
+
+      await expect(fetchJobicyJobs()).rejects.toThrow(/XML/);
     });
   });
 
@@ -138,16 +163,31 @@ describe('Scraper Module', () => {
       expect(jobs[0].company).toBe('Uniswap');
     });
 
-    it('应该处理所有端点失败并返回空数组', async () => {
-      // 所有端点都失败
+    it('所有端点都失败时应该抛出错误', async () => {
       mockedAxios.get
         .mockRejectedValueOnce(new Error('Network error'))
         .mockRejectedValueOnce(new Error('Network error'))
         .mockRejectedValueOnce(new Error('Network error'));
 
-      const jobs = await fetchWeb3CareerJobs();
-      expect(Array.isArray(jobs)).toBe(true);
-      expect(jobs).toHaveLength(0);
+      await expect(fetchWeb3CareerJobs()).rejects.toThrow('Network error');
+    });
+
+    it('所有端点都无法解析时应该抛出错误', async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce({ data: '<html>', status: 200 })
+        .mockResolvedValueOnce({ data: 'invalid xml', status: 200 })
+        .mockResolvedValueOnce({ data: 'invalid xml', status: 200 });
+
+      await expect(fetchWeb3CareerJobs()).rejects.toThrow(/XML/);
+    });
+
+    it('端点返回空列表时应该返回空数组', async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce({ data: '', status: 404 })
+        .mockResolvedValueOnce({ data: '<rss><channel></channel></rss>', status: 200 })
+        .mockResolvedValueOnce({ data: '', status: 404 });
+
+      expect(await fetchWeb3CareerJobs()).toEqual([]);
     });
   });
 
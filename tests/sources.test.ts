@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { writeFileSync, mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  builtinSources,
+  registerSource,
+  unregisterSource,
+  getRegisteredSources,
+  getEnabledSources,
+  loadSourceModules,
+} from '../src/sources.js';
+import { JobSource } from '../src/types.js';
+
+describe('Sources Module', () => {
+  const customIds: string[] = [];
+
+  afterEach(() => {
+    for (const id of customIds.splice(0)) {
+      unregisterSource(id);
+    }
+    delete process.env.DISABLED_SOURCES;
+  });
+
+  describe('registry', () => {
+    it('应该默认注册8个内置数据源', () => {
+      const ids = getRegisteredSources().map((s) => s.id);
+      expect(builtinSources).toHaveLength(8);
+      expect(ids).toEqual(expect.arrayContaining(builtinSources.map((s) => s.id)));
+    });
+
+    it('应该注册自定义数据源', () => {
+      const source: JobSource = { id: 'internal', name: 'Internal Board', fetch: async () => [] };
+      registerSource(source);
+      customIds.push('internal');
+
+      expect(getRegisteredSources()).toContain(source);
+    });
+
+    it('应该拒绝重复的数据源ID', () => {
+      expect(() =>
+        registerSource({ id: 'remoteok', name: 'Duplicate', fetch: async () => [] })
+      ).toThrow();
+    });
+
+    it('应该跳过被禁用或 isEnabled 返回 false 的数据源', () => {
+      registerSource({
+        id: 'disabled-board',
+        name: 'Disabled',
+        fetch: async () => [],
+        isEnabled: () => false,
+      });
+      customIds.push('disabled-board');
+      process.env.DISABLED_SOURCES = 'hnhiring, jobicy';
+
+      const ids = getEnabledSources().map((s) => s.id);
+      expect(ids).not.toContain('disabled-board');
+      expect(ids).not.toContain('hnhiring');
+      expect(ids).not.toContain('jobicy');
+      expect(ids).toContain('remoteok');
+    });
+  });
+
+  describe('loadSourceModules', () => {
+    it('应该从本地模块路径加载数据源', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'jobhacker-sources-'));
+      const modulePath = join(dir, 'board.mjs');
+      writeFileSync(
+        modulePath,
+        `export default [{ id: 'team-board', name: 'Team Board', fetch: async () => [] }];`,
+        'utf-8'
+      );
+
+      try {
+        const loaded = await loadSourceModules([modulePath]);
+        customIds.push('team-board');
+
+        expect(loaded.map((s) => s.id)).toEqual(['team-board']);
+        expect(getRegisteredSources().map((s) => s.id)).toContain('team-board');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('应该忽略加载失败的模块', async () => {
+      const loaded = await loadSourceModules(['./does-not-exist.mjs']);
+      expect(loaded).toEqual([]);
+    });
+  });
+});
@@ -6,9 +6,36 @@ import {
   saveProcessedJob,
   isJobProcessed,
   clearProcessedJobs,
+  recordSeenJobs,
+  saveAnalyzedJob,
+  getJobRecord,
+  queryJobs,
+  toAnalyzedJob,
+  migrateLegacyStorage,
+  saveRunRecord,
+  getRunHistory,
+  markJobPending,
+  loadPendingJobs,
+  loadJobDatabase,
+  saveJobDatabase,
+  beginStorageBatch,
+  flushStorageBatch,
 } from '../src/storage.js';
+import { createJobId } from '../src/jobId.js';
+import { AnalyzedJob, Job, RunRecord } from '../src/types.js';
 
 const TEST_STORAGE_PATH = join(process.cwd(), 'data', 'test_processed_jobs.json');
+const TEST_LEGACY_PATH = join(process.cwd(), 'data', 'test_legacy_processed_jobs.json');
+
+const sampleJob: Job = {
+  id: 'remoteok-1',
+  title: 'Frontend Engineer',
+  company: 'Tech Corp',
+  description: 'React/TypeScript developer needed',
+  url: 'https://remoteok.com/remote-jobs/1',
+  postedAt: new Date('2026-01-01T00:00:00.000Z'),
+  source: 'remoteok',
+};
 
 describe('Storage Module', () => {
   beforeEach(() => {
@@ -20,8 +47,10 @@ describe('Storage Module', () => {
 
   afterEach(() => {
     // 清理测试文件
-    if (existsSync(TEST_STORAGE_PATH)) {
-      unlinkSync(TEST_STORAGE_PATH);
+    for (const path of [TEST_STORAGE_PATH, TEST_LEGACY_PATH]) {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
     }
   });
 
@@ -88,4 +117,301 @@ describe('Storage Module', () => {
       expect(jobs).toEqual([]);
     });
   });
+
+  describe('recordSeenJobs', () => {
+    it('应该保存完整职位数据和首次/最近发现时间', () => {
+      recordSeenJobs([sampleJob], TEST_STORAGE_PATH);
+      const first = getJobRecord('remoteok-1', TEST_STORAGE_PATH);
+      expect(first?.job?.title).toBe('Frontend Engineer');
+      expect(first?.job?.postedAt).toBe('2026-01-01T00:00:00.000Z');
+      expect(first?.source).toBe('remoteok');
+      expect(first?.processedAt).toBeUndefined();
+
+      recordSeenJobs([sampleJob], TEST_STORAGE_PATH);
+      const second = getJobRecord('remoteok-1', TEST_STORAGE_PATH);
+      expect(second?.firstSeenAt).toBe(first?.firstSeenAt);
+      expect(isJobProcessed('remoteok-1', TEST_STORAGE_PATH)).toBe(false);
+    });
+  });
+
+  describe('saveAnalyzedJob', () => {
+    it('应该保存分析结果并标记为已处理', () => {
+      const analyzed: AnalyzedJob = { ...sampleJob, score: 9, reason: '完美匹配' };
+      saveAnalyzedJob(analyzed, TEST_STORAGE_PATH);
+
+      const record = getJobRecord('remoteok-1', TEST_STORAGE_PATH);
+      expect(record?.analyses?.default.score).toBe(9);
+      expect(record?.analyses?.default.reason).toBe('完美匹配');
+      expect(isJobProcessed('remoteok-1', TEST_STORAGE_PATH)).toBe(true);
+
+      const restored = record ? toAnalyzedJob(record) : null;
+      expect(restored?.postedAt).toEqual(sampleJob.postedAt);
+      expect(restored?.score).toBe(9);
+    });
+
+    it('应该按候选人档案分别保存分析结果', () => {
+      saveAnalyzedJob(
+        { ...sampleJob, score: 9, reason: 'a', profileId: 'alice' },
+        TEST_STORAGE_PATH
+      );
+      saveAnalyzedJob({ ...sampleJob, score: 3, reason: 'b', profileId: 'bob' }, TEST_STORAGE_PATH);
+
+      const record = getJobRecord('remoteok-1', TEST_STORAGE_PATH)!;
+      expect(record.analyses?.alice.score).toBe(9);
+      expect(record.analyses?.bob.score).toBe(3);
+      expect(toAnalyzedJob(record, 'bob')?.reason).toBe('b');
+      expect(queryJobs({ minScore: 8, profileId: 'bob' }, TEST_STORAGE_PATH)).toHaveLength(0);
+      expect(queryJobs({ minScore: 8 }, TEST_STORAGE_PATH)).toHaveLength(1);
+    });
+
+    it('应该将 v1 数据库的 analysis 字段迁移到默认档案', () => {
+      writeFileSync(
+        TEST_STORAGE_PATH,
+        JSON.stringify({
+          version: 1,
+          jobs: {
+            'remoteok-1': {
+              id: 'remoteok-1',
+              source: 'remoteok',
+              analysis: { score: 7, reason: 'old', analyzedAt: '2026-01-01' },
+              firstSeenAt: '2026-01-01',
+              lastSeenAt: '2026-01-01',
+            },
+          },
+        }),
+        'utf-8'
+      );
+
+      expect(getJobRecord('remoteok-1', TEST_STORAGE_PATH)?.analyses?.default.score).toBe(7);
+    });
+  });
+
+  describe('queryJobs', () => {
+    it('应该按评分和数据源过滤', () => {
+      saveAnalyzedJob({ ...sampleJob, score: 9, reason: 'a' }, TEST_STORAGE_PATH);
+      saveAnalyzedJob(
+        { ...sampleJob, id: 'remotive-2', source: 'remotive', score: 4, reason: 'b' },
+        TEST_STORAGE_PATH
+      );
+
+      expect(queryJobs({ minScore: 8 }, TEST_STORAGE_PATH).map((r) => r.id)).toEqual([
+        'remoteok-1',
+      ]);
+      expect(queryJobs({ source: 'remotive' }, TEST_STORAGE_PATH).map((r) => r.id)).toEqual([
+        'remotive-2',
+      ]);
+    });
+  });
+
+  describe('markJobPending', () => {
+    it('应该清除已处理状态并在下次运行时返回待重试职位', () => {
+      recordSeenJobs([sampleJob], TEST_STORAGE_PATH);
+      saveAnalyzedJob(
+        { ...sampleJob, score: 8, reason: 'a', profileId: 'alice' },
+        TEST_STORAGE_PATH
+      );
+
+      expect(markJobPending(sampleJob.id, ['bob'], 'HTTP 429', TEST_STORAGE_PATH)).toBe(1);
+      expect(markJobPending(sampleJob.id, ['bob'], 'HTTP 503', TEST_STORAGE_PATH)).toBe(2);
+      expect(isJobProcessed(sampleJob.id, TEST_STORAGE_PATH)).toBe(false);
+
+      const pending = loadPendingJobs(TEST_STORAGE_PATH);
+      expect(pending).toHaveLength(1);
+      expect(pending[0].profileIds).toEqual(['bob']);
+      expect(pending[0].job.postedAt).toEqual(sampleJob.postedAt);
+      expect(getJobRecord(sampleJob.id, TEST_STORAGE_PATH)?.pending?.lastError).toBe('HTTP 503');
+    });
+
+    it('标记为已处理后应该清除待重试状态', () => {
+      recordSeenJobs([sampleJob], TEST_STORAGE_PATH);
+      markJobPending(sampleJob.id, ['default'], 'HTTP 500', TEST_STORAGE_PATH);
+      saveProcessedJob(sampleJob.id, TEST_STORAGE_PATH);
+
+      expect(isJobProcessed(sampleJob.id, TEST_STORAGE_PATH)).toBe(true);
+      expect(loadPendingJobs(TEST_STORAGE_PATH)).toHaveLength(0);
+    });
+  });
+
+  describe('run history', () => {
+    it('应该保存运行记录并按时间倒序返回', () => {
+      const run: RunRecord = {
+        startedAt: '2026-01-01T00:00:00.000Z',
+        finishedAt: '2026-01-01T00:01:00.000Z',
+        fetched: 10,
+        newJobs: 5,
+        prefiltered: 0,
+        shortlistSkipped: 0,
+        locationFiltered: 0,
+        salaryFiltered: 0,
+        companyFiltered: 0,
+        analyzed: 5,
+        failed: 0,
+        skipped: 0,
+        pending: 0,
+        matched: 1,
+        budgetExceeded: false,
+        usage: {
+          calls: 1,
+          inputTokens: 100,
+          outputTokens: 20,
+          cost: 0.01,
+          unpricedCalls: 0,
+          models: [],
+        },
+      };
+
+      saveRunRecord(run, TEST_STORAGE_PATH);
+      saveRunRecord({ ...run, startedAt: '2026-01-02T00:00:00.000Z' }, TEST_STORAGE_PATH);
+      saveAnalyzedJob({ ...sampleJob, score: 9, reason: 'a' }, TEST_STORAGE_PATH);
+
+      const history = getRunHistory(undefined, TEST_STORAGE_PATH);
+      expect(history.map((r) => r.startedAt)).toEqual([
+        '2026-01-02T00:00:00.000Z',
+        '2026-01-01T00:00:00.000Z',
+      ]);
+      expect(getRunHistory(1, TEST_STORAGE_PATH)).toHaveLength(1);
+    });
+  });
+
+  describe('职位ID迁移', () => {
+    it('应该转换旧版不稳定的ID并合并重复记录', () => {
+      const url = 'https://weworkremotely.com/remote-jobs/acme-frontend-engineer';
+      const serialized = { ...sampleJob, postedAt: sampleJob.postedAt.toISOString() };
+      const stored = (id: string, seenAt: string) => ({
+        id,
+        source: 'weworkremotely',
+        job: { ...serialized, id, source: 'weworkremotely', url },
+        firstSeenAt: seenAt,
+        lastSeenAt: seenAt,
+      });
+
+      writeFileSync(
+        TEST_STORAGE_PATH,
+        JSON.stringify({
+          version: 2,
+          jobs: {
+            'weworkremotely-1767225600000': {
+              ...stored('weworkremotely-1767225600000', '2026-01-01T00:00:00.000Z'),
+              processedAt: '2026-01-01T00:00:00.000Z',
+              analyses: {
+                default: { score: 8, reason: '匹配', analyzedAt: '2026-01-01T00:00:00.000Z' },
+              },
+            },
+            'weworkremotely-1767247200000': stored(
+              'weworkremotely-1767247200000',
+              '2026-01-01T06:00:00.000Z'
+            ),
+            'remoteok-1': {
+              ...stored('remoteok-1', '2026-01-01T00:00:00.000Z'),
+              source: 'remoteok',
+            },
+          },
+        }),
+        'utf-8'
+      );
+
+      const newId = createJobId('weworkremotely', { url });
+      expect(Object.keys(loadJobDatabase(TEST_STORAGE_PATH).jobs).sort()).toEqual(
+        ['remoteok-1', newId].sort()
+      );
+
+      const record = getJobRecord(newId, TEST_STORAGE_PATH)!;
+      expect(record.job?.id).toBe(newId);
+      expect(record.firstSeenAt).toBe('2026-01-01T00:00:00.000Z');
+      expect(record.lastSeenAt).toBe('2026-01-01T06:00:00.000Z');
+      expect(record.processedAt).toBe('2026-01-01T00:00:00.000Z');
+      expect(record.analyses?.default.score).toBe(8);
+    });
+  });
+
+  describe('migrateLegacyStorage', () => {
+    it('应该导入旧版 processed_jobs.json 中的ID', () => {
+      writeFileSync(
+        TEST_LEGACY_PATH,
+        JSON.stringify({ jobIds: ['remoteok-1', 'remotive-2'], lastUpdated: '2026-01-01' }),
+        'utf-8'
+      );
+      saveProcessedJob('remoteok-1', TEST_STORAGE_PATH);
+
+      const imported = migrateLegacyStorage(TEST_LEGACY_PATH, TEST_STORAGE_PATH);
+      expect(imported).toBe(1);
+      expect(isJobProcessed('remotive-2', TEST_STORAGE_PATH)).toBe(true);
+      expect(getJobRecord('remotive-2', TEST_STORAGE_PATH)?.source).toBe('remotive');
+    });
+
+    it('应该在旧文件不存在时跳过', () => {
+      expect(migrateLegacyStorage(TEST_LEGACY_PATH, TEST_STORAGE_PATH)).toBe(0);
+    });
+  });
+
+  describe('写入安全', () => {
+    it('存储文件无法解析时应该报错，而不是覆盖历史数据', () => {
+      writeFileSync(TEST_STORAGE_PATH, '{"version": 3, "jobs": {', 'utf-8');
+
+      expect(() => saveProcessedJob('remoteok-1', TEST_STORAGE_PATH)).toThrow('无法解析存储文件');
+      expect(readFileSync(TEST_STORAGE_PATH, 'utf-8')).toBe('{"version": 3, "jobs": {');
+    });
+
+    it('写入后不应留下临时文件', () => {
+      saveProcessedJob('remoteok-1', TEST_STORAGE_PATH);
+
+      expect(existsSync(`${TEST_STORAGE_PATH}.tmp`)).toBe(false);
+      expect(isJobProcessed('remoteok-1', TEST_STORAGE_PATH)).toBe(true);
+    });
+
+    it('批量写入时应该只在结束时写入文件', () => {
+      beginStorageBatch(TEST_STORAGE_PATH);
+      recordSeenJobs([sampleJob], TEST_STORAGE_PATH);
+      saveProcessedJob('remoteok-1', TEST_STORAGE_PATH);
+
+      expect(existsSync(TEST_STORAGE_PATH)).toBe(false);
+      expect(isJobProcessed('remoteok-1', TEST_STORAGE_PATH)).toBe(true);
+
+      flushStorageBatch(TEST_STORAGE_PATH);
+      expect(isJobProcessed('remoteok-1', TEST_STORAGE_PATH)).toBe(true);
+      expect(getJobRecord('remoteok-1', TEST_STORAGE_PATH)?.job?.title).toBe('Frontend Engineer');
+    });
+
+    it('应该清理长期未出现且未分析的职位，保留有分析结果的职位', () => {
+      const old = '2020-01-01T00:00:00.000Z';
+      const stored = { ...sampleJob, postedAt: old };
+      saveJobDatabase(
+        {
+          version: 3,
+          jobs: {
+            'remoteok-1': {
+              id: 'remoteok-1',
+              source: 'remoteok',
+              job: stored,
+              firstSeenAt: old,
+              lastSeenAt: old,
+            },
+            'remoteok-2': {
+              id: 'remoteok-2',
+              source: 'remoteok',
+              job: { ...stored, id: 'remoteok-2' },
+              analyses: { default: { score: 8, reason: '匹配', analyzedAt: old } },
+              firstSeenAt: old,
+              lastSeenAt: old,
+            },
+            'remotive-3': {
+              id: 'remotive-3',
+              source: 'remotive',
+              firstSeenAt: old,
+              lastSeenAt: old,
+              processedAt: old,
+            },
+          },
+          runs: [],
+          lastUpdated: old,
+        },
+        TEST_STORAGE_PATH
+      );
+
+      expect(Object.keys(loadJobDatabase(TEST_STORAGE_PATH).jobs).sort()).toEqual([
+        'remoteok-2',
+        'remotive-3',
+      ]);
+    });
+  });
 });
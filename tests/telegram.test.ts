@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  escapeTelegramHtml,
+  sendTelegramMessage,
+  splitTelegramMessage,
+  stripTelegramHtml,
+} from '../src/telegram.js';
+import { formatTelegramMessage } from '../src/notifiers.js';
+import { AnalyzedJob } from '../src/types.js';
+
+const job: AnalyzedJob = {
+  id: 'remoteok-1',
+  title: 'C++ <Engineer> *urgent*',
+  company: 'Tech & Co_Ltd',
+  description: 'C++',
+  url: 'https://example.com/jobs/1?a=1&b=2',
+  postedAt: new Date('2026-01-01T00:00:00.000Z'),
+  source: 'remoteok',
+  score: 9,
+  reason: '熟悉 [STL] 和 <templates>',
+};
+
+describe('escapeTelegramHtml', () => {
+  it('应该转义 &、< 和 >', () => {
+    expect(escapeTelegramHtml('a < b && c > d')).toBe('a &lt; b &amp;&amp; c &gt; d');
+  });
+
+  it('纯文本还原后应该与原文一致', () => {
+    const text = 'Tech & Co <Engineer> &amp;';
+    expect(stripTelegramHtml(`<b>${escapeTelegramHtml(text)}</b>`)).toBe(text);
+  });
+});
+
+describe('formatTelegramMessage', () => {
+  it('应该转义标题、公司、理由和链接', () => {
+    const message = formatTelegramMessage(job);
+
+    expect(message).toContain('<b>C++ &lt;Engineer&gt; *urgent*</b>');
+    expect(message).toContain('🏢 公司: Tech &amp; Co_Ltd');
+    expect(message).toContain('📝 理由: 熟悉 [STL] 和 &lt;templates&gt;');
+    expect(message).toContain('https://example.com/jobs/1?a=1&amp;b=2');
+    expect(message).not.toContain('<Engineer>');
+  });
+});
+
+describe('splitTelegramMessage', () => {
+  it('短消息不拆分', () => {
+    expect(splitTelegramMessage('hello\nworld', 100)).toEqual(['hello\nworld']);
+  });
+
+  it('应该在换行处拆分，每段不超过上限', () => {
+    const lines = Array.from({ length: 50 }, (_, i) => `${i + 1}. Job title number ${i + 1}`);
+    const chunks = splitTelegramMessage(lines.join('\n'), 200);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.length <= 200)).toBe(true);
+    expect(chunks.join('\n')).toBe(lines.join('\n'));
+  });
+
+  it('超长的行应该强制截断，且不切断实体和标签', () => {
+    const line = `${'a'.repeat(8)}&amp;<b>${'b'.repeat(8)}</b>`;
+    const chunks = splitTelegramMessage(line, 10);
+
+    expect(chunks).toEqual(['aaaaaaaa', '&amp;<b>bb', 'bbbbbb</b>']);
+  });
+
+  it('截断时不应该拆开 emoji 的代理对', () => {
+    const chunks = splitTelegramMessage(`aaaa🔥🔥`, 5);
+
+    expect(chunks).toEqual(['aaaa', '🔥🔥']);
+    expect(chunks.join('')).toBe('aaaa🔥🔥');
+  });
+});
+
+describe('sendTelegramMessage', () => {
+  let server: Server;
+  let apiBase: string;
+  let requests: Record<string, unknown>[] = [];
+
+  beforeAll(async () => {
+    // 模拟 Telegram API：HTML 消息中出现 <bad> 时返回解析错误
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const payload = JSON.parse(body);
+        requests.push(payload);
+        res.setHeader('Content-Type', 'application/json');
+        if (payload.parse_mode === 'HTML' && payload.text.includes('<bad>')) {
+          res.statusCode = 400;
+          res.end(
+            JSON.stringify({
+              ok: false,
+              description: "Bad Request: can't parse entities: Unsupported start tag",
+            })
+          );
+          return;
+        }
+        res.statusCode = req.url?.includes('broken') ? 500 : 200;
+        res.end(JSON.stringify({ ok: res.statusCode === 200 }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    apiBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('长消息应该拆分为多条依次发送', async () => {
+    const text = Array.from({ length: 400 }, (_, i) => `${i + 1}. ${'x'.repeat(20)}`).join('\n');
+
+    await sendTelegramMessage('token', '42', text, { apiBase });
+
+    expect(requests.length).toBeGreaterThan(1);
+    expect(requests.every((request) => (request.text as string).length <= 4096)).toBe(true);
+    expect(requests.map((request) => request.text).join('\n')).toBe(text);
+    expect(requests[0].parse_mode).toBeUndefined();
+  });
+
+  it('HTML 解析失败时应该改为纯文本重发', async () => {
+    await sendTelegramMessage('token', '42', '<b>9/10</b> <bad> &amp; co', {
+      html: true,
+      apiBase,
+    });
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0].parse_mode).toBe('HTML');
+    expect(requests[1].parse_mode).toBeUndefined();
+    expect(requests[1].text).toBe('9/10  & co');
+  });
+
+  it('其他错误应该直接抛出，不重试', async () => {
+    await expect(
+      sendTelegramMessage('broken', '42', '<b>hi</b>', { html: true, apiBase })
+    ).rejects.toThrow();
+    expect(requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  defaultPrices,
+  estimateCost,
+  findModelPrice,
+  formatCost,
+  getUsageSummary,
+  isBudgetExceeded,
+  recordUsage,
+  startUsageRun,
+} from '../src/usage.js';
+
+describe('Usage Module', () => {
+  afterEach(() => {
+    startUsageRun({}, defaultPrices);
+  });
+
+  describe('findModelPrice', () => {
+    it('应该按提供商和模型查找价格，并支持 * 默认价格', () => {
+      const table = {
+        openai: { 'gpt-4o-mini': { input: 0.15, output: 0.6 } },
+        custom: { '*': { input: 1, output: 2 } },
+      };
+
+      expect(findModelPrice('openai', 'gpt-4o-mini', table)).toEqual({ input: 0.15, output: 0.6 });
+      expect(findModelPrice('openai', 'unknown', table)).toBeUndefined();
+      expect(findModelPrice('custom', 'my-model', table)).toEqual({ input: 1, output: 2 });
+    });
+  });
+
+  describe('estimateCost', () => {
+    it('应该按每百万 token 价格计算费用', () => {
+      const cost = estimateCost(
+        { inputTokens: 1_000_000, outputTokens: 500_000 },
+        { input: 3, output: 15 }
+      );
+      expect(cost).toBeCloseTo(10.5);
+    });
+  });
+
+  describe('usage run', () => {
+    it('应该按提供商/模型汇总用量和费用', () => {
+      startUsageRun(
+        {},
+        {
+          deepseek: { 'deepseek-chat': { input: 1, output: 2 } },
+        }
+      );
+
+      recordUsage('deepseek', 'deepseek-chat', { inputTokens: 1000, outputTokens: 100 });
+      recordUsage('deepseek', 'deepseek-chat', { inputTokens: 2000, outputTokens: 200 });
+      recordUsage('custom', 'local-model', { inputTokens: 500, outputTokens: 50 });
+
+      const summary = getUsageSummary();
+      expect(summary.calls).toBe(3);
+      expect(summary.inputTokens).toBe(3500);
+      expect(summary.outputTokens).toBe(350);
+      expect(summary.cost).toBeCloseTo(0.0036);
+      expect(summary.unpricedCalls).toBe(1);
+      expect(summary.models).toHaveLength(2);
+      expect(summary.models[0]).toMatchObject({ provider: 'deepseek', calls: 2 });
+      expect(summary.models[1].cost).toBeUndefined();
+    });
+
+    it('达到费用上限后应该报告超出', () => {
+      startUsageRun({ budget: 0.01 }, { openai: { 'gpt-4o': { input: 10, output: 10 } } });
+      expect(isBudgetExceeded()).toBe(false);
+
+      recordUsage('openai', 'gpt-4o', { inputTokens: 1000, outputTokens: 0 });
+      expect(isBudgetExceeded()).toBe(true);
+
+      startUsageRun({}, defaultPrices);
+      recordUsage('openai', 'gpt-4o', { inputTokens: 1_000_000, outputTokens: 0 });
+      expect(isBudgetExceeded()).toBe(false);
+    });
+
+    it('价格未知的模型应该按 token 上限停止', () => {
+      startUsageRun({ budget: 0.01, tokenBudget: 1500 }, {});
+      recordUsage('custom', 'my-model', { inputTokens: 1000, outputTokens: 400 });
+      expect(isBudgetExceeded()).toBe(false);
+
+      recordUsage('custom', 'my-model', { inputTokens: 100, outputTokens: 0 });
+      expect(isBudgetExceeded()).toBe(true);
+    });
+  });
+
+  it('formatCost 应该对小额保留更多小数', () => {
+    expect(formatCost(1.234)).toBe('$1.23');
+    expect(formatCost(0.00123)).toBe('$0.0012');
+  });
+});